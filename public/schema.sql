@@ -84,7 +84,10 @@ create table public.trades (
   notes text,
   hidden boolean default false,
   import_hash text, -- For preventing duplicates during CSV import
-  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+  order_id text, -- Broker order number, when the export provides one
+  grouping_reviewed boolean default false, -- Shown in a leg grouping suggestion the user applied or dismissed
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique(user_id, import_hash) -- Lets bulk imports upsert and skip rows already imported
 );
 
 alter table public.trades enable row level security;
@@ -114,7 +117,9 @@ create table public.capital_flows (
   date date not null,
   amount numeric not null, -- Positive for deposit, Negative for withdrawal
   notes text,
-  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+  import_hash text, -- Set for flows imported from a broker CSV; null for manual entries
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique(user_id, import_hash)
 );
 
 alter table public.capital_flows enable row level security;
@@ -122,6 +127,24 @@ alter table public.capital_flows enable row level security;
 create policy "Users can crud own capital flows" on public.capital_flows
   for all using (auth.uid() = user_id);
 
+-- 6b. CASH EVENTS (Dividends, interest, fees imported from broker CSVs)
+create table public.cash_events (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users not null,
+  date date not null,
+  category text not null, -- DIVIDEND, CREDIT_INTEREST, MARGIN_INTEREST, REGULATORY_FEE, OTHER
+  amount numeric not null, -- Positive is cash into the account
+  description text,
+  import_hash text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique(user_id, import_hash)
+);
+
+alter table public.cash_events enable row level security;
+
+create policy "Users can crud own cash events" on public.cash_events
+  for all using (auth.uid() = user_id);
+
 -- 7. BENCHMARK PRICES (Shared data, but keyed by user for caching simplicity per deployment)
 -- Note: In a real SaaS, this might be a shared public table, but for personal deployments, 
 -- each user fetches their own benchmark data.
@@ -140,9 +163,120 @@ alter table public.benchmark_prices enable row level security;
 create policy "Users can crud own benchmark prices" on public.benchmark_prices
   for all using (auth.uid() = user_id);
 
+-- 7b. CONTRACT SPECS (Overrides/additions to the built-in futures specs)
+create table public.contract_specs (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users not null,
+  root text not null, -- Futures root without the slash: ES, MES, CL
+  point_value numeric not null, -- Dollars per point; used as the multiplier for the contract and its options
+  tick_size numeric not null,
+  exchange text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique(user_id, root)
+);
+
+alter table public.contract_specs enable row level security;
+
+create policy "Users can crud own contract specs" on public.contract_specs
+  for all using (auth.uid() = user_id);
+
+-- 7c. MARK SNAPSHOTS (One row per open leg per positions upload)
+create table public.mark_snapshots (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users not null,
+  trade_id uuid references public.trades on delete cascade not null,
+  snapshot_date date not null,
+  mark numeric not null, -- Broker mark per share/contract
+  quantity numeric not null, -- Open quantity of this leg on that date
+  pnl_open numeric, -- Broker's P/L Open for this leg's share of the position, if the export has it
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique(user_id, trade_id, snapshot_date)
+);
+
+alter table public.mark_snapshots enable row level security;
+
+create policy "Users can crud own mark snapshots" on public.mark_snapshots
+  for all using (auth.uid() = user_id);
+
 -- 8. INDEXES (Performance)
 create index idx_trades_user_date on public.trades(user_id, date);
 create index idx_trades_strategy on public.trades(strategy_id);
 create index idx_net_liq_user_date on public.net_liquidity_logs(user_id, date); 
+create index idx_mark_snapshots_trade on public.mark_snapshots(trade_id);
 
+-- 9. UPGRADES
+-- Existing installs: run the statements below in the SQL Editor to pick up schema changes
+-- made after your database was created. Each statement is safe to re-run.
+
+-- Bulk trade import dedupes on (user_id, import_hash). Remove any duplicate imported rows first if this fails.
+alter table public.trades drop constraint if exists trades_user_id_import_hash_key;
+alter table public.trades add constraint trades_user_id_import_hash_key unique (user_id, import_hash);
+
+-- Broker order numbers, used by the import fingerprint.
+alter table public.trades add column if not exists order_id text;
+
+-- Cash movements imported from broker CSVs.
+alter table public.capital_flows add column if not exists import_hash text;
+alter table public.capital_flows drop constraint if exists capital_flows_user_id_import_hash_key;
+alter table public.capital_flows add constraint capital_flows_user_id_import_hash_key unique (user_id, import_hash);
+
+create table if not exists public.cash_events (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users not null,
+  date date not null,
+  category text not null,
+  amount numeric not null,
+  description text,
+  import_hash text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique(user_id, import_hash)
+);
+alter table public.cash_events enable row level security;
+drop policy if exists "Users can crud own cash events" on public.cash_events;
+create policy "Users can crud own cash events" on public.cash_events
+  for all using (auth.uid() = user_id);
+
+-- Futures were imported as STOCK before asset classes came from the instrument parser.
+update public.trades set asset_type = 'FUTURES_OPTION' where symbol like './%' and asset_type <> 'FUTURES_OPTION';
+update public.trades set asset_type = 'FUTURES' where symbol ~ '^/[A-Z0-9]+$' and asset_type <> 'FUTURES';
+
+-- Futures contract specs.
+create table if not exists public.contract_specs (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users not null,
+  root text not null, -- Futures root without the slash: ES, MES, CL
+  point_value numeric not null, -- Dollars per point; used as the multiplier for the contract and its options
+  tick_size numeric not null,
+  exchange text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique(user_id, root)
+);
+
+alter table public.contract_specs enable row level security;
+
+drop policy if exists "Users can crud own contract specs" on public.contract_specs;
+create policy "Users can crud own contract specs" on public.contract_specs
+  for all using (auth.uid() = user_id);
+
+-- Mark history from positions uploads.
+create table if not exists public.mark_snapshots (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users not null,
+  trade_id uuid references public.trades on delete cascade not null,
+  snapshot_date date not null,
+  mark numeric not null, -- Broker mark per share/contract
+  quantity numeric not null, -- Open quantity of this leg on that date
+  pnl_open numeric, -- Broker's P/L Open for this leg's share of the position, if the export has it
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique(user_id, trade_id, snapshot_date)
+);
+
+alter table public.mark_snapshots enable row level security;
+
+drop policy if exists "Users can crud own mark snapshots" on public.mark_snapshots;
+create policy "Users can crud own mark snapshots" on public.mark_snapshots
+  for all using (auth.uid() = user_id);
+create index if not exists idx_mark_snapshots_trade on public.mark_snapshots(trade_id);
 
+-- Legs already reviewed in leg grouping suggestions.
+alter table public.trades add column if not exists grouping_reviewed boolean default false;
@@ -14,6 +14,8 @@ import StrategyDetail from "./pages/StrategyDetail";
 import TradeHistory from "./pages/TradeHistory";
 import Settings from "./pages/Settings";
 import PutCamp from "./pages/PutCamp";
+import Ledger from "./pages/Ledger";
+import Calendar from "./pages/Calendar";
 import { AuthProvider, useAuth } from "@/components/AuthProvider";
 import { Loader2 } from "lucide-react";
 import { isSupabaseConfigured } from "@/integrations/supabase/client";
@@ -126,6 +128,26 @@ const App = () => (
                     </ProtectedRoute>
                   </ConfigGuard>
                 }
+              />
+               <Route
+                path="/calendar"
+                element={
+                  <ConfigGuard>
+                    <ProtectedRoute>
+                      <Calendar />
+                    </ProtectedRoute>
+                  </ConfigGuard>
+                }
+              />
+               <Route
+                path="/ledger"
+                element={
+                  <ConfigGuard>
+                    <ProtectedRoute>
+                      <Ledger />
+                    </ProtectedRoute>
+                  </ConfigGuard>
+                }
               />
                <Route
                 path="/settings"
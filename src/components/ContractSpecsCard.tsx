@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { showSuccess, showError } from "@/utils/toast";
+import { Loader2, Save, Plus, RotateCcw, RefreshCw } from "lucide-react";
+import {
+  DEFAULT_CONTRACT_SPECS,
+  applyContractSpecsToTrades,
+  fetchContractSpecs,
+  type ContractSpec,
+} from "@/utils/contractSpecs";
+
+const isDefault = (spec: ContractSpec) => {
+  const builtIn = DEFAULT_CONTRACT_SPECS.find(d => d.root === spec.root);
+  return !!builtIn && builtIn.point_value === spec.point_value && builtIn.tick_size === spec.tick_size && builtIn.exchange === spec.exchange;
+};
+
+export function ContractSpecsCard() {
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<ContractSpec[]>([]);
+  const [dirty, setDirty] = useState<Set<string>>(new Set());
+  const [newSpec, setNewSpec] = useState({ root: "", point_value: "", tick_size: "", exchange: "" });
+
+  const { data: specs, isLoading } = useQuery({
+    queryKey: ['contract-specs'],
+    queryFn: fetchContractSpecs,
+  });
+
+  useEffect(() => {
+    if (specs) {
+      setRows(Array.from(specs.values()).sort((a, b) => a.root.localeCompare(b.root)));
+      setDirty(new Set());
+    }
+  }, [specs]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (changed: ContractSpec[]) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase
+        .from('contract_specs')
+        .upsert(changed.map(spec => ({ ...spec, user_id: user.id })), { onConflict: 'user_id,root' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contract-specs'] });
+      showSuccess("Contract specs saved");
+    },
+    onError: (err) => showError(err.message)
+  });
+
+  // Removes the saved row: built-in roots fall back to their defaults, custom roots disappear.
+  const resetMutation = useMutation({
+    mutationFn: async (root: string) => {
+      const { error } = await supabase.from('contract_specs').delete().eq('root', root);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['contract-specs'] }),
+    onError: (err) => showError(err.message)
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      if (!specs) throw new Error("Specs not loaded");
+      return applyContractSpecsToTrades(specs);
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+      queryClient.invalidateQueries({ queryKey: ['strategies-calculated'] });
+      showSuccess(updated > 0 ? `Updated the multiplier on ${updated} futures legs` : "All futures legs already match their specs");
+    },
+    onError: (err) => showError(err.message)
+  });
+
+  const updateRow = (root: string, patch: Partial<ContractSpec>) => {
+    setRows(prev => prev.map(row => row.root === root ? { ...row, ...patch } : row));
+    setDirty(prev => new Set(prev).add(root));
+  };
+
+  const handleAdd = () => {
+    const root = newSpec.root.trim().toUpperCase().replace(/^\//, '');
+    const pointValue = parseFloat(newSpec.point_value);
+    const tickSize = parseFloat(newSpec.tick_size);
+    if (!root || isNaN(pointValue) || pointValue <= 0 || isNaN(tickSize) || tickSize <= 0) {
+      showError("Enter a root, a point value and a tick size");
+      return;
+    }
+    saveMutation.mutate([{ root, point_value: pointValue, tick_size: tickSize, exchange: newSpec.exchange.trim().toUpperCase() }]);
+    setNewSpec({ root: "", point_value: "", tick_size: "", exchange: "" });
+  };
+
+  const handleSave = () => {
+    const changed = rows.filter(row => dirty.has(row.root));
+    if (changed.some(row => !(row.point_value > 0) || !(row.tick_size > 0))) {
+      showError("Point value and tick size must be positive");
+      return;
+    }
+    saveMutation.mutate(changed);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Contract Specifications</CardTitle>
+        <CardDescription>
+          Point value per futures root. Imported futures and futures options get their multiplier from here, leg by leg.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center p-6"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        ) : (
+          <div className="max-h-[400px] overflow-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Root</TableHead>
+                  <TableHead>Point Value ($)</TableHead>
+                  <TableHead>Tick Size</TableHead>
+                  <TableHead>Exchange</TableHead>
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.root}>
+                    <TableCell className="font-mono">
+                      /{row.root}
+                      {!isDefault(row) && <Badge variant="secondary" className="ml-2 text-[10px]">Custom</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <Input type="number" className="h-8 w-[110px]" value={row.point_value} onChange={(e) => updateRow(row.root, { point_value: Number(e.target.value) })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input type="number" className="h-8 w-[110px]" value={row.tick_size} onChange={(e) => updateRow(row.root, { tick_size: Number(e.target.value) })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input className="h-8 w-[90px]" value={row.exchange} onChange={(e) => updateRow(row.root, { exchange: e.target.value.toUpperCase() })} />
+                    </TableCell>
+                    <TableCell>
+                      {!isDefault(row) && !dirty.has(row.root) && (
+                        <Button variant="ghost" size="icon" className="h-7 w-7" title="Reset" onClick={() => resetMutation.mutate(row.root)} disabled={resetMutation.isPending}>
+                          <RotateCcw className="h-3 w-3 text-muted-foreground" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input placeholder="Root (e.g. /MCL)" value={newSpec.root} onChange={(e) => setNewSpec({ ...newSpec, root: e.target.value })} />
+          <Input type="number" placeholder="Point value" value={newSpec.point_value} onChange={(e) => setNewSpec({ ...newSpec, point_value: e.target.value })} />
+          <Input type="number" placeholder="Tick size" value={newSpec.tick_size} onChange={(e) => setNewSpec({ ...newSpec, tick_size: e.target.value })} />
+          <Input placeholder="Exchange" value={newSpec.exchange} onChange={(e) => setNewSpec({ ...newSpec, exchange: e.target.value })} />
+          <Button variant="outline" onClick={handleAdd} disabled={saveMutation.isPending}><Plus className="h-4 w-4" /></Button>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        <Button variant="outline" onClick={() => applyMutation.mutate()} disabled={applyMutation.isPending || !specs}>
+          {applyMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Apply to Existing Trades
+        </Button>
+        <Button onClick={handleSave} disabled={saveMutation.isPending || dirty.size === 0}>
+          {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save Specs
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -10,6 +10,8 @@ import {
   History,
   Settings,
   Tent, // Using Tent icon for 'Camp'
+  BookOpen,
+  CalendarDays,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "./ThemeToggle";
@@ -63,6 +65,8 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
     { icon: Tent, label: "Put Camp", path: "/put-camp" },
     { icon: Upload, label: "Import Data", path: "/import" },
     { icon: History, label: "Trade History", path: "/history" },
+    { icon: CalendarDays, label: "P&L Calendar", path: "/calendar" },
+    { icon: BookOpen, label: "Ledger", path: "/ledger" },
     { icon: Settings, label: "Settings", path: "/settings" },
   ];
 
@@ -0,0 +1,96 @@
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { format, parseISO } from "date-fns";
+
+interface DrawdownChartProps {
+  data: { date: string; drawdown: number; benchmark?: number }[];
+  benchmarkLabel?: string;
+}
+
+const formatPct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export function DrawdownChart({ data, benchmarkLabel }: DrawdownChartProps) {
+  if (data.length < 2) {
+    return (
+      <div className="flex h-[250px] items-center justify-center text-muted-foreground border border-dashed rounded-md bg-muted/5">
+        Not enough history to chart drawdowns.
+      </div>
+    );
+  }
+
+  const hasBenchmark = !!benchmarkLabel && data.some(point => point.benchmark !== undefined);
+
+  return (
+    <div className="h-[250px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data}>
+          <defs>
+            <linearGradient id="colorDrawdown" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#ef4444" stopOpacity={0} />
+              <stop offset="95%" stopColor="#ef4444" stopOpacity={0.4} />
+            </linearGradient>
+          </defs>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickFormatter={(value) => format(parseISO(value), "MMM d")}
+            stroke="#888888"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+            minTickGap={32}
+          />
+          <YAxis
+            stroke="#888888"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+            domain={['auto', 0]}
+            tickFormatter={(value) => formatPct(value)}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: "hsl(var(--card))",
+              borderColor: "hsl(var(--border))",
+              borderRadius: "var(--radius)",
+            }}
+            labelFormatter={(value) => format(parseISO(value), "MMM d, yyyy")}
+            formatter={(value: number, name: string) => [formatPct(value), name]}
+          />
+          <Legend />
+
+          <Area
+            type="monotone"
+            dataKey="drawdown"
+            name="Portfolio"
+            stroke="#ef4444"
+            strokeWidth={2}
+            fillOpacity={1}
+            fill="url(#colorDrawdown)"
+          />
+          {hasBenchmark && (
+            <Line
+              type="monotone"
+              dataKey="benchmark"
+              name={benchmarkLabel}
+              stroke="#3b82f6"
+              strokeWidth={2}
+              strokeDasharray="5 5"
+              dot={false}
+              connectNulls
+            />
+          )}
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
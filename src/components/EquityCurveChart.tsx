@@ -0,0 +1,102 @@
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { format, parseISO } from "date-fns";
+import type { EquityPoint } from "@/utils/equityCurve";
+
+interface EquityCurveChartProps {
+  data: EquityPoint[];
+  benchmarkLabel?: string;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value);
+
+export function EquityCurveChart({ data, benchmarkLabel }: EquityCurveChartProps) {
+  if (data.length === 0) {
+    return (
+      <div className="flex h-[300px] items-center justify-center text-muted-foreground border border-dashed rounded-md bg-muted/5">
+        No trades to chart yet.
+      </div>
+    );
+  }
+
+  const isPositive = data[data.length - 1].equity >= 0;
+  const hasBenchmark = !!benchmarkLabel && data.some(point => point.benchmark !== undefined);
+
+  return (
+    <div className="h-[300px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data}>
+          <defs>
+            <linearGradient id="colorEquity" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor={isPositive ? "#10b981" : "#ef4444"} stopOpacity={0.3} />
+              <stop offset="95%" stopColor={isPositive ? "#10b981" : "#ef4444"} stopOpacity={0} />
+            </linearGradient>
+          </defs>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickFormatter={(value) => format(parseISO(value), "MMM d")}
+            stroke="#888888"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+            minTickGap={32}
+          />
+          <YAxis
+            stroke="#888888"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+            domain={['auto', 'auto']}
+            tickFormatter={(value) => formatCurrency(value)}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: "hsl(var(--card))",
+              borderColor: "hsl(var(--border))",
+              borderRadius: "var(--radius)",
+            }}
+            labelFormatter={(value) => format(parseISO(value), "MMM d, yyyy")}
+            formatter={(value: number, name: string) => [formatCurrency(value), name]}
+          />
+          <Legend />
+          <ReferenceLine y={0} stroke="#888888" strokeOpacity={0.5} />
+
+          <Area
+            type="monotone"
+            dataKey="equity"
+            name="Total P&L"
+            stroke={isPositive ? "#10b981" : "#ef4444"}
+            strokeWidth={2}
+            fillOpacity={1}
+            fill="url(#colorEquity)"
+          />
+          <Line type="monotone" dataKey="realized" name="Realized" stroke="#a1a1aa" strokeWidth={1} dot={false} />
+          {hasBenchmark && (
+            <Line
+              type="monotone"
+              dataKey="benchmark"
+              name={`${benchmarkLabel} on same capital`}
+              stroke="#3b82f6"
+              strokeWidth={2}
+              strokeDasharray="5 5"
+              dot={false}
+              connectNulls
+            />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
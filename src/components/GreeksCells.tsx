@@ -0,0 +1,76 @@
+import { TableCell, TableHead } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type { Greeks } from "@/utils/greeks";
+
+interface GreeksHeadsProps {
+  className?: string;
+}
+
+interface GreeksCellsProps {
+  // Undefined when nothing in the row is open
+  greeks?: Greeks;
+  className?: string;
+}
+
+const formatGreek = (value: number, digits = 1) =>
+  new Intl.NumberFormat("en-US", { minimumFractionDigits: digits, maximumFractionDigits: digits, signDisplay: "exceptZero" }).format(value);
+
+const signClass = (value: number) => value > 0 ? "text-green-500" : value < 0 ? "text-red-500" : "text-muted-foreground";
+
+// Position greeks in dollars: delta and gamma per point of the underlying, theta per day, vega per vol point
+export function GreeksHeads({ className }: GreeksHeadsProps) {
+  return (
+    <>
+      <TableHead className={cn("text-right", className)} title="Dollars per point of the underlying">Delta</TableHead>
+      <TableHead className={cn("text-right", className)} title="Change in delta per point of the underlying">Gamma</TableHead>
+      <TableHead className={cn("text-right", className)} title="Dollars per day">Theta</TableHead>
+      <TableHead className={cn("text-right", className)} title="Dollars per volatility point">Vega</TableHead>
+    </>
+  );
+}
+
+export function GreeksCells({ greeks, className }: GreeksCellsProps) {
+  if (!greeks) {
+    return (
+      <>
+        {[0, 1, 2, 3].map(index => <TableCell key={index} className={cn("text-right text-muted-foreground", className)}>-</TableCell>)}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <TableCell className={cn("text-right font-mono text-xs", className)}>{formatGreek(greeks.delta)}</TableCell>
+      <TableCell className={cn("text-right font-mono text-xs", className)}>{formatGreek(greeks.gamma, 2)}</TableCell>
+      <TableCell className={cn("text-right font-mono text-xs", signClass(greeks.theta), className)}>{formatGreek(greeks.theta)}</TableCell>
+      <TableCell className={cn("text-right font-mono text-xs", className)}>{formatGreek(greeks.vega)}</TableCell>
+    </>
+  );
+}
+
+interface GreeksSummaryProps {
+  greeks?: Greeks;
+  // Underlyings of open option legs with no stored price; their legs aren't in the totals
+  unpriced?: string[];
+}
+
+// One-line totals for a card header
+export function GreeksSummary({ greeks, unpriced = [] }: GreeksSummaryProps) {
+  if (!greeks && unpriced.length === 0) return null;
+
+  return (
+    <div className="text-right text-xs font-mono space-y-0.5">
+      {greeks && (
+        <div className="flex gap-3 justify-end">
+          <span>Δ {formatGreek(greeks.delta)}</span>
+          <span>Γ {formatGreek(greeks.gamma, 2)}</span>
+          <span className={signClass(greeks.theta)}>Θ {formatGreek(greeks.theta)}/day</span>
+          <span>Vega {formatGreek(greeks.vega)}</span>
+        </div>
+      )}
+      {unpriced.length > 0 && (
+        <div className="text-muted-foreground">No underlying price for {unpriced.join(', ')}</div>
+      )}
+    </div>
+  );
+}
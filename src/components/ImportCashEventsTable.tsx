@@ -0,0 +1,74 @@
+import { format } from "date-fns";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import type { CashEventCategory, ParsedCashEvent } from "@/utils/csvParser";
+import { CASH_EVENT_LABELS, isCapitalFlow } from "@/utils/cashEventImporter";
+
+interface ImportCashEventsTableProps {
+  events: ParsedCashEvent[];
+  included: boolean;
+  onIncludedChange: (included: boolean) => void;
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+export function ImportCashEventsTable({ events, included, onIncludedChange }: ImportCashEventsTableProps) {
+  const totals = events.reduce((acc, event) => {
+    acc[event.category] = (acc[event.category] || 0) + event.amount;
+    return acc;
+  }, {} as Partial<Record<CashEventCategory, number>>);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Switch id="include-cash" checked={included} onCheckedChange={onIncludedChange} />
+          <Label htmlFor="include-cash">Import {events.length} cash movements</Label>
+        </div>
+        <div className="flex flex-wrap gap-1 justify-end">
+          {(Object.keys(totals) as CashEventCategory[]).map(category => (
+            <Badge key={category} variant="outline" className="text-[10px]">
+              {CASH_EVENT_LABELS[category]}: {formatCurrency(totals[category] || 0)}
+            </Badge>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Deposits and withdrawals are saved as capital flows so dashboard returns account for them. Dividends, interest and fees go to the cash ledger.
+      </p>
+      <div className={cn("max-h-[240px] overflow-auto border rounded-md", !included && "opacity-50")}>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.map(event => (
+              <TableRow key={event.import_hash}>
+                <TableCell className="text-xs whitespace-nowrap">
+                  {event.date ? format(new Date(event.date), 'MMM d, yyyy') : (
+                    <Badge variant="destructive" className="text-[10px]">Date "{event.unreadable?.date}" could not be parsed</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={isCapitalFlow(event) ? "default" : "secondary"} className="text-[10px]">{CASH_EVENT_LABELS[event.category]}</Badge>
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">{event.description}</TableCell>
+                <TableCell className={cn("text-right text-xs font-medium", event.amount >= 0 ? "text-green-500" : "text-red-500")}>
+                  {formatCurrency(event.amount)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { MatchMethod, ReconciliationResult } from "@/utils/importReconciliation";
+
+interface ImportReconciliationSummaryProps {
+  result: ReconciliationResult;
+}
+
+const METHOD_LABELS: Record<MatchMethod, string> = {
+  fingerprint: 'Fingerprint',
+  legacy: 'Legacy hash',
+  fields: 'Matching fields',
+};
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+export function ImportReconciliationSummary({ result }: ImportReconciliationSummaryProps) {
+  const byMethod = result.matches.reduce((acc, match) => {
+    acc[match.method] = (acc[match.method] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<MatchMethod, number>>);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="p-3 border rounded-lg">
+          <p className="text-2xl font-bold">{result.matches.length}</p>
+          <p className="text-xs text-muted-foreground">Already in your trades</p>
+          <div className="flex flex-wrap gap-1 mt-2">
+            {(Object.keys(byMethod) as MatchMethod[]).map(method => (
+              <Badge key={method} variant="secondary" className="text-[10px]">{METHOD_LABELS[method]}: {byMethod[method]}</Badge>
+            ))}
+          </div>
+        </div>
+        <div className="p-3 border rounded-lg">
+          <p className="text-2xl font-bold text-green-500">{result.newIndexes.length}</p>
+          <p className="text-xs text-muted-foreground">New in this file</p>
+        </div>
+        <div className="p-3 border rounded-lg">
+          <p className={`text-2xl font-bold ${result.missing.length > 0 ? 'text-yellow-500' : ''}`}>{result.missing.length}</p>
+          <p className="text-xs text-muted-foreground">Imported before, missing from this file</p>
+        </div>
+      </div>
+      {result.missing.length > 0 && (
+        <Accordion type="single" collapsible>
+          <AccordionItem value="missing">
+            <AccordionTrigger className="text-sm">Show trades missing from this file</AccordionTrigger>
+            <AccordionContent>
+              <p className="text-xs text-muted-foreground mb-2">
+                These trades were imported earlier and fall inside this file's date range, but the file doesn't contain them.
+                They may come from another account, or have been corrected by the broker.
+              </p>
+              <div className="max-h-[240px] overflow-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.missing.map(trade => (
+                      <TableRow key={trade.id}>
+                        <TableCell className="text-xs">{format(new Date(trade.date), 'MMM d, yyyy')}</TableCell>
+                        <TableCell className="font-mono text-xs">{trade.symbol}</TableCell>
+                        <TableCell className="text-xs">{trade.action}</TableCell>
+                        <TableCell className="text-right text-xs">{trade.quantity}</TableCell>
+                        <TableCell className="text-right text-xs">{formatCurrency(Number(trade.amount))}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      )}
+    </div>
+  );
+}
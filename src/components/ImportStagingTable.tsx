@@ -0,0 +1,153 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Pencil, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ParsedTrade } from "@/utils/csvParser";
+import { KNOWN_ACTIONS, hasBlockingIssues, type StagedTrade } from "@/utils/importValidation";
+
+interface ImportStagingTableProps {
+  rows: StagedTrade[];
+  onToggleExcluded: (rowNumbers: number[], excluded: boolean) => void;
+  onEdit: (rowNumber: number, patch: Partial<ParsedTrade>) => void;
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const toDateTimeInput = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? "" : format(date, "yyyy-MM-dd'T'HH:mm");
+};
+
+export function ImportStagingTable({ rows, onToggleExcluded, onEdit }: ImportStagingTableProps) {
+  const [issuesOnly, setIssuesOnly] = useState(() => rows.some(r => r.issues.length > 0));
+  const [editingRow, setEditingRow] = useState<number | null>(null);
+
+  const visibleRows = useMemo(
+    () => issuesOnly ? rows.filter(r => r.issues.length > 0) : rows,
+    [rows, issuesOnly]
+  );
+
+  const visibleNumbers = visibleRows.map(r => r.rowNumber);
+  const allIncluded = visibleRows.length > 0 && visibleRows.every(r => !r.excluded);
+  const someIncluded = visibleRows.some(r => !r.excluded);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Switch id="issues-only" checked={issuesOnly} onCheckedChange={setIssuesOnly} />
+        <Label htmlFor="issues-only">Only show rows with issues</Label>
+      </div>
+      <div className="max-h-[480px] overflow-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allIncluded ? true : (someIncluded ? 'indeterminate' : false)}
+                  onCheckedChange={(checked) => onToggleExcluded(visibleNumbers, !checked)}
+                />
+              </TableHead>
+              <TableHead className="w-12">Row</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Symbol</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Issues</TableHead>
+              <TableHead className="w-10"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.map(row => {
+              const isEditing = editingRow === row.rowNumber || (hasBlockingIssues(row) && !row.excluded);
+              const { trade } = row;
+
+              return (
+                <TableRow key={row.rowNumber} className={cn(row.excluded && "opacity-50")}>
+                  <TableCell>
+                    <Checkbox checked={!row.excluded} onCheckedChange={(checked) => onToggleExcluded([row.rowNumber], !checked)} />
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{row.rowNumber}</TableCell>
+                  <TableCell className="min-w-[120px]">
+                    {isEditing ? (
+                      <Input
+                        type="datetime-local"
+                        className="h-8 w-[190px]"
+                        value={toDateTimeInput(trade.date)}
+                        onChange={(e) => onEdit(row.rowNumber, { date: e.target.value ? new Date(e.target.value).toISOString() : '' })}
+                      />
+                    ) : (
+                      isNaN(new Date(trade.date).getTime()) ? '-' : format(new Date(trade.date), 'MMM d, yyyy')
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {trade.symbol}
+                    {trade.notes && <div className="font-sans text-[10px] text-muted-foreground">{trade.notes}</div>}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing ? (
+                      <Select value={KNOWN_ACTIONS.includes(trade.action) ? trade.action : undefined} onValueChange={(val) => onEdit(row.rowNumber, { action: val })}>
+                        <SelectTrigger className="h-8 w-[150px]"><SelectValue placeholder={trade.action} /></SelectTrigger>
+                        <SelectContent>
+                          {KNOWN_ACTIONS.map(action => <SelectItem key={action} value={action}>{action}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className={trade.action.includes('BUY') ? "text-red-400" : "text-green-400"}>{trade.action}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {isEditing ? (
+                      <Input
+                        type="number"
+                        className="h-8 w-[80px] ml-auto text-right"
+                        value={trade.quantity}
+                        onChange={(e) => onEdit(row.rowNumber, { quantity: Math.abs(Number(e.target.value)) })}
+                      />
+                    ) : trade.quantity}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{trade.price.toFixed(2)}</TableCell>
+                  <TableCell className={cn("text-right font-mono", trade.amount >= 0 ? "text-green-500" : "text-red-500")}>{formatCurrency(trade.amount)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {row.issues.map(issue => (
+                        <Badge key={issue.code} variant={issue.severity === 'error' ? 'destructive' : 'secondary'} className="text-[10px]">
+                          {issue.message}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingRow(editingRow === row.rowNumber ? null : row.rowNumber)}>
+                      {editingRow === row.rowNumber ? <Check className="h-3 w-3" /> : <Pencil className="h-3 w-3 text-muted-foreground" />}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {visibleRows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={10} className="text-center py-6 text-muted-foreground">No rows to show.</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { Fragment, useState } from "react";
+import { format } from "date-fns";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Loader2, Link as LinkIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { SuggestedGroup } from "@/utils/legGrouping";
+
+interface LegGroupingReviewProps {
+  groups: SuggestedGroup[];
+  isApplying: boolean;
+  onApply: (groups: { pairId: string | null; tradeIds: string[] }[]) => void;
+}
+
+// Lists suggested groups. Unticking a group rejects it; unticking a leg splits it off and leaves it ungrouped.
+export function LegGroupingReview({ groups, isApplying, onApply }: LegGroupingReviewProps) {
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+  const [splitLegs, setSplitLegs] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value);
+    else next.add(value);
+    return next;
+  };
+
+  const keptLegs = (group: SuggestedGroup) => group.newTradeIds.filter(id => !splitLegs.has(id));
+
+  // A new group needs two legs to be worth a pair_id; an existing group only needs one to join.
+  const isApplicable = (group: SuggestedGroup, index: number) =>
+    !rejected.has(index) && keptLegs(group).length >= (group.pairId ? 1 : 2);
+
+  const applicable = groups.filter(isApplicable);
+
+  const handleApply = () => {
+    onApply(applicable.map(group => ({ pairId: group.pairId, tradeIds: keptLegs(group) })));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-[480px] overflow-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10"></TableHead>
+              <TableHead className="w-10"></TableHead>
+              <TableHead>Opened</TableHead>
+              <TableHead>Underlying</TableHead>
+              <TableHead>Expiry</TableHead>
+              <TableHead className="text-right">Legs</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.map((group, index) => (
+              <Fragment key={index}>
+                <TableRow className={cn(!isApplicable(group, index) && "opacity-50")}>
+                  <TableCell>
+                    <Checkbox checked={!rejected.has(index)} onCheckedChange={() => setRejected(prev => toggle(prev, index))} />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setExpanded(prev => toggle(prev, index))}>
+                      {expanded.has(index) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </Button>
+                  </TableCell>
+                  <TableCell className="text-xs">{format(new Date(group.openDate), 'MMM d, yyyy HH:mm')}</TableCell>
+                  <TableCell className="font-medium">{group.underlying}</TableCell>
+                  <TableCell className="text-xs">{group.expiry ? format(new Date(`${group.expiry}T00:00:00`), 'MMM d, yyyy') : '-'}</TableCell>
+                  <TableCell className="text-right">{group.trades.length}</TableCell>
+                  <TableCell>
+                    {group.pairId && <Badge variant="secondary" className="text-[10px]">Joins existing group</Badge>}
+                  </TableCell>
+                </TableRow>
+                {expanded.has(index) && group.trades.map(trade => {
+                  const isNew = group.newTradeIds.includes(trade.id);
+                  return (
+                    <TableRow key={trade.id} className="bg-muted/30">
+                      <TableCell></TableCell>
+                      <TableCell>
+                        {isNew && (
+                          <Checkbox checked={!splitLegs.has(trade.id)} onCheckedChange={() => setSplitLegs(prev => toggle(prev, trade.id))} />
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{format(new Date(trade.date), 'MMM d, yyyy HH:mm')}</TableCell>
+                      <TableCell className="font-mono text-xs" colSpan={2}>{trade.symbol}</TableCell>
+                      <TableCell className="text-right text-xs">{trade.quantity}</TableCell>
+                      <TableCell className="text-xs">
+                        <span className={trade.action.includes('BUY') ? "text-red-400" : "text-green-400"}>{trade.action}</span>
+                        {!isNew && <span className="ml-2 text-muted-foreground">(already grouped)</span>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={handleApply} disabled={isApplying || applicable.length === 0}>
+          {isApplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LinkIcon className="mr-2 h-4 w-4" />}
+          Group {applicable.length} Selected
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { showSuccess, showError } from "@/utils/toast";
+import { AlertCircle, History, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  parseNetLiqCSV,
+  previewNetLiqImport,
+  upsertNetLiqLogs,
+  type NetLiqImportPreview,
+} from "@/utils/netLiqImporter";
+
+// PostgREST caps responses at 1000 rows by default
+const EXISTING_LOGS_PAGE = 1000;
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+export function NetLiqHistoryImportCard() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(false);
+  const [preview, setPreview] = useState<NetLiqImportPreview | null>(null);
+  const [overwrite, setOverwrite] = useState<Set<string>>(new Set());
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setLoading(true);
+    setPreview(null);
+    setOverwrite(new Set());
+
+    try {
+      const rows = await parseNetLiqCSV(file);
+      if (rows.length === 0) throw new Error("No dated values found in this file.");
+
+      const existing: { date: string; amount: number }[] = [];
+      for (let page = 0; ; page++) {
+        const { data, error } = await supabase
+          .from('net_liquidity_logs')
+          .select('date, amount')
+          .gte('date', rows[0].date)
+          .lte('date', rows[rows.length - 1].date)
+          .order('date', { ascending: true })
+          .range(page * EXISTING_LOGS_PAGE, (page + 1) * EXISTING_LOGS_PAGE - 1);
+        if (error) throw error;
+        existing.push(...(data || []));
+        if (!data || data.length < EXISTING_LOGS_PAGE) break;
+      }
+
+      setPreview(previewNetLiqImport(rows, existing));
+    } catch (error) {
+      console.error(error);
+      showError((error as Error).message || "Failed to read balance history.");
+    } finally {
+      setLoading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!preview) return;
+    setLoading(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const overwrites = preview.conflicts
+        .filter(conflict => overwrite.has(conflict.date))
+        .map(conflict => ({ date: conflict.date, amount: conflict.incoming }));
+      const saved = await upsertNetLiqLogs([...preview.newRows, ...overwrites], user.id);
+
+      queryClient.invalidateQueries({ queryKey: ['net-liq-logs'] });
+      setPreview(null);
+      showSuccess(`Saved ${saved} daily net liquidity values`);
+    } catch (error) {
+      console.error(error);
+      showError((error as Error).message || "Failed to save net liquidity history.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const allOverwritten = !!preview && preview.conflicts.length > 0 && preview.conflicts.every(c => overwrite.has(c.date));
+  const toSave = preview ? preview.newRows.length + overwrite.size : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Net Liquidity History</CardTitle>
+        <CardDescription>Backfill the dashboard chart from a balance-history export (tastytrade net liq history, or any CSV with a date and an account value).</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-4">
+          <Input ref={fileInputRef} id="net-liq-upload" type="file" accept=".csv" className="hidden" onChange={handleUpload} disabled={loading} />
+          <Button asChild variant="outline" disabled={loading}>
+            <label htmlFor="net-liq-upload" className="cursor-pointer">
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <History className="mr-2 h-4 w-4" />}
+              Select Balance History CSV
+            </label>
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="p-3 border rounded-lg">
+                <p className="text-2xl font-bold text-green-500">{preview.newRows.length}</p>
+                <p className="text-xs text-muted-foreground">New days</p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className={cn("text-2xl font-bold", preview.conflicts.length > 0 && "text-yellow-500")}>{preview.conflicts.length}</p>
+                <p className="text-xs text-muted-foreground">Differ from your entries</p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-2xl font-bold">{preview.unchanged}</p>
+                <p className="text-xs text-muted-foreground">Already match</p>
+              </div>
+            </div>
+
+            {preview.conflicts.length > 0 && (
+              <>
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Existing entries</AlertTitle>
+                  <AlertDescription>Your entries are kept unless you tick them below to replace them with the file's value.</AlertDescription>
+                </Alert>
+                <div className="max-h-[300px] overflow-auto border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={allOverwritten}
+                            onCheckedChange={(checked) => setOverwrite(checked ? new Set(preview.conflicts.map(c => c.date)) : new Set())}
+                          />
+                        </TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Your Entry</TableHead>
+                        <TableHead className="text-right">From File</TableHead>
+                        <TableHead className="text-right">Difference</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.conflicts.map(conflict => (
+                        <TableRow key={conflict.date}>
+                          <TableCell>
+                            <Checkbox
+                              checked={overwrite.has(conflict.date)}
+                              onCheckedChange={() => setOverwrite(prev => {
+                                const next = new Set(prev);
+                                if (next.has(conflict.date)) next.delete(conflict.date);
+                                else next.add(conflict.date);
+                                return next;
+                              })}
+                            />
+                          </TableCell>
+                          <TableCell className="text-xs">{format(parseISO(conflict.date), 'MMM d, yyyy')}</TableCell>
+                          <TableCell className="text-right text-xs">{formatCurrency(conflict.existing)}</TableCell>
+                          <TableCell className="text-right text-xs">{formatCurrency(conflict.incoming)}</TableCell>
+                          <TableCell className={cn("text-right text-xs", conflict.incoming - conflict.existing >= 0 ? "text-green-500" : "text-red-500")}>
+                            {formatCurrency(conflict.incoming - conflict.existing)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={loading}>Discard</Button>
+              <Button onClick={handleConfirm} disabled={loading || toSave === 0}>
+                {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Save {toSave} Days
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
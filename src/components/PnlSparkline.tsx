@@ -0,0 +1,29 @@
+import { Line, LineChart, ReferenceLine, YAxis } from "recharts";
+import type { PnlPoint } from "@/utils/markSnapshots";
+
+interface PnlSparklineProps {
+  path: PnlPoint[];
+  width?: number;
+  height?: number;
+}
+
+export function PnlSparkline({ path, width = 80, height = 24 }: PnlSparklineProps) {
+  if (path.length < 2) return <span className="text-xs text-muted-foreground">-</span>;
+
+  const last = path[path.length - 1].pnl;
+
+  return (
+    <LineChart width={width} height={height} data={path} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+      <YAxis hide domain={['dataMin', 'dataMax']} />
+      <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 2" strokeOpacity={0.5} />
+      <Line
+        type="monotone"
+        dataKey="pnl"
+        stroke={last >= 0 ? "#16a34a" : "#dc2626"}
+        strokeWidth={1.5}
+        dot={false}
+        isAnimationActive={false}
+      />
+    </LineChart>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, PlusCircle, XCircle, CalendarX } from "lucide-react";
+import type { InstrumentPosition, LotSide } from "@/utils/positionLedger";
+import type { ParsedPosition } from "@/utils/positionsCsvParser";
+import type { LedgerCloseMode, PositionReconciliation } from "@/utils/positionReconciliation";
+
+interface PositionReconciliationReportProps {
+  result: PositionReconciliation;
+  isWorking: boolean;
+  onCreateOpenings: (entries: { position: ParsedPosition; side: LotSide }[]) => void;
+  onClosePositions: (positions: InstrumentPosition[], mode: LedgerCloseMode) => void;
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const toggle = <T,>(set: Set<T>, value: T) => {
+  const next = new Set(set);
+  if (next.has(value)) next.delete(value);
+  else next.add(value);
+  return next;
+};
+
+export function PositionReconciliationReport({ result, isWorking, onCreateOpenings, onClosePositions }: PositionReconciliationReportProps) {
+  const [selectedBroker, setSelectedBroker] = useState<Set<ParsedPosition>>(new Set());
+  const [sides, setSides] = useState<Map<ParsedPosition, LotSide>>(new Map());
+  const [selectedLedger, setSelectedLedger] = useState<Set<InstrumentPosition>>(new Set());
+
+  const sideFor = (position: ParsedPosition): LotSide => sides.get(position) || (position.quantity < 0 ? 'SHORT' : 'LONG');
+
+  const handleCreate = () => {
+    onCreateOpenings(result.brokerOnly.filter(p => selectedBroker.has(p)).map(position => ({ position, side: sideFor(position) })));
+    setSelectedBroker(new Set());
+  };
+
+  const handleClose = (mode: LedgerCloseMode) => {
+    onClosePositions(result.ledgerOnly.filter(p => selectedLedger.has(p)), mode);
+    setSelectedLedger(new Set());
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-4">
+        <div className="p-3 border rounded-lg">
+          <p className="text-2xl font-bold text-green-500">{result.matched.length}</p>
+          <p className="text-xs text-muted-foreground">Matched and marked</p>
+        </div>
+        <div className="p-3 border rounded-lg">
+          <p className={`text-2xl font-bold ${result.brokerOnly.length > 0 ? 'text-yellow-500' : ''}`}>{result.brokerOnly.length}</p>
+          <p className="text-xs text-muted-foreground">At the broker, no open trades</p>
+        </div>
+        <div className="p-3 border rounded-lg">
+          <p className={`text-2xl font-bold ${result.ledgerOnly.length > 0 ? 'text-yellow-500' : ''}`}>{result.ledgerOnly.length}</p>
+          <p className="text-xs text-muted-foreground">Open in trades, not at the broker</p>
+        </div>
+        <div className="p-3 border rounded-lg">
+          <p className={`text-2xl font-bold ${result.quantityMismatches.length > 0 ? 'text-red-500' : ''}`}>{result.quantityMismatches.length}</p>
+          <p className="text-xs text-muted-foreground">Quantity mismatches</p>
+        </div>
+      </div>
+
+      <Accordion type="multiple">
+        {result.brokerOnly.length > 0 && (
+          <AccordionItem value="broker-only">
+            <AccordionTrigger className="text-sm">Broker positions with no matching open trades</AccordionTrigger>
+            <AccordionContent className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Usually opened before your imported history starts. Creating an opening trade records it at today's mark, so its P&L starts at zero.
+              </p>
+              <div className="max-h-[240px] overflow-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10"></TableHead>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Mark</TableHead>
+                      <TableHead>Side</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.brokerOnly.map(position => (
+                      <TableRow key={position.symbol}>
+                        <TableCell>
+                          <Checkbox checked={selectedBroker.has(position)} onCheckedChange={() => setSelectedBroker(prev => toggle(prev, position))} />
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{position.symbol}</TableCell>
+                        <TableCell className="text-right text-xs">{position.quantity}</TableCell>
+                        <TableCell className="text-right text-xs">{formatCurrency(position.mark)}</TableCell>
+                        <TableCell>
+                          <Select value={sideFor(position)} onValueChange={(value) => setSides(prev => new Map(prev).set(position, value as LotSide))}>
+                            <SelectTrigger className="h-7 w-[100px] text-xs"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="LONG">Long</SelectItem>
+                              <SelectItem value="SHORT">Short</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="flex justify-end">
+                <Button size="sm" variant="outline" onClick={handleCreate} disabled={isWorking || selectedBroker.size === 0}>
+                  {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+                  Create {selectedBroker.size} Opening Trades
+                </Button>
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )}
+
+        {result.ledgerOnly.length > 0 && (
+          <AccordionItem value="ledger-only">
+            <AccordionTrigger className="text-sm">Open trades the broker no longer holds</AccordionTrigger>
+            <AccordionContent className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Their marks have been cleared. Close them at the last known mark, or book them as expired worthless on their expiry date.
+              </p>
+              <div className="max-h-[240px] overflow-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10"></TableHead>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Side</TableHead>
+                      <TableHead className="text-right">Open Qty</TableHead>
+                      <TableHead className="text-right">Avg Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.ledgerOnly.map(position => (
+                      <TableRow key={position.symbol}>
+                        <TableCell>
+                          <Checkbox checked={selectedLedger.has(position)} onCheckedChange={() => setSelectedLedger(prev => toggle(prev, position))} />
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{position.symbol}</TableCell>
+                        <TableCell><Badge variant="outline" className="text-[10px]">{position.side}</Badge></TableCell>
+                        <TableCell className="text-right text-xs">{position.openQuantity}</TableCell>
+                        <TableCell className="text-right text-xs">{formatCurrency(position.averageCost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="outline" onClick={() => handleClose('EXPIRED')} disabled={isWorking || selectedLedger.size === 0}>
+                  <CalendarX className="mr-2 h-4 w-4" />Mark Expired
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleClose('CLOSED')} disabled={isWorking || selectedLedger.size === 0}>
+                  {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+                  Mark Closed
+                </Button>
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )}
+
+        {result.quantityMismatches.length > 0 && (
+          <AccordionItem value="mismatches">
+            <AccordionTrigger className="text-sm">Quantity mismatches</AccordionTrigger>
+            <AccordionContent>
+              <p className="text-xs text-muted-foreground mb-2">
+                Held on both sides but in different sizes. Check for fills missing from your imports, or partial closes recorded twice.
+              </p>
+              <div className="max-h-[240px] overflow-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead className="text-right">Broker</TableHead>
+                      <TableHead className="text-right">Trades</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.quantityMismatches.map(match => (
+                      <TableRow key={match.position.symbol}>
+                        <TableCell className="font-mono text-xs">{match.position.symbol}</TableCell>
+                        <TableCell className="text-right text-xs">{match.brokerQuantity}</TableCell>
+                        <TableCell className="text-right text-xs">{match.ledgerQuantity}</TableCell>
+                        <TableCell className="text-right text-xs font-bold text-red-500">
+                          {Math.abs(match.brokerQuantity) === Math.abs(match.ledgerQuantity) ? 'Side differs' : Math.abs(match.brokerQuantity) - Math.abs(match.ledgerQuantity)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )}
+      </Accordion>
+    </div>
+  );
+}
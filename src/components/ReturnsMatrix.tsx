@@ -0,0 +1,70 @@
+import { Fragment } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type { ReturnsMatrixRow } from "@/utils/returnsMatrix";
+
+interface ReturnsMatrixProps {
+  rows: ReturnsMatrixRow[];
+  benchmarkRows?: ReturnsMatrixRow[];
+  benchmarkLabel?: string;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const formatPct = (value: number | null) => value === null ? "" : `${(value * 100).toFixed(1)}%`;
+
+const cellClass = (value: number | null) => value === null ? "" : value >= 0 ? "text-green-500" : "text-red-500";
+
+export function ReturnsMatrix({ rows, benchmarkRows, benchmarkLabel }: ReturnsMatrixProps) {
+  if (rows.length === 0) {
+    return <div className="text-sm text-muted-foreground text-center py-6">Not enough history for monthly returns yet.</div>;
+  }
+
+  const benchmarkByYear = new Map((benchmarkRows || []).map(row => [row.year, row]));
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Year</TableHead>
+            {MONTHS.map(month => <TableHead key={month} className="text-right px-2">{month}</TableHead>)}
+            <TableHead className="text-right font-bold">YTD</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => {
+            const benchmark = benchmarkByYear.get(row.year);
+            return (
+              <Fragment key={row.year}>
+                <TableRow className={cn(benchmark && "border-b-0")}>
+                  <TableCell className="font-medium">{row.year}</TableCell>
+                  {row.months.map((value, index) => (
+                    <TableCell key={index} className={cn("text-right font-mono text-xs px-2", cellClass(value))}>{formatPct(value)}</TableCell>
+                  ))}
+                  <TableCell className={cn("text-right font-mono text-xs font-bold", cellClass(row.ytd))}>{formatPct(row.ytd)}</TableCell>
+                </TableRow>
+                {benchmark && (
+                  <TableRow className="text-muted-foreground">
+                    <TableCell className="text-xs py-1">{benchmarkLabel}</TableCell>
+                    {benchmark.months.map((value, index) => (
+                      <TableCell key={index} className="text-right font-mono text-[11px] px-2 py-1">{formatPct(value)}</TableCell>
+                    ))}
+                    <TableCell className="text-right font-mono text-[11px] py-1">{formatPct(benchmark.ytd)}</TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
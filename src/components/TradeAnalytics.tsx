@@ -0,0 +1,149 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from "recharts";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  bucketByDaysInTrade,
+  bucketByDte,
+  bucketByUnderlying,
+  bucketByWeekday,
+  pnlHistogram,
+  type DistributionBucket,
+  type TradeOutcome,
+} from "@/utils/tradeDistribution";
+
+interface TradeAnalyticsProps {
+  outcomes: TradeOutcome[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value);
+
+const tooltipStyle = {
+  backgroundColor: "hsl(var(--card))",
+  borderColor: "hsl(var(--border))",
+  borderRadius: "var(--radius)",
+};
+
+const pnlClass = (value: number) => value > 0 ? "text-green-500" : value < 0 ? "text-red-500" : "text-muted-foreground";
+
+function BucketTable({ title, buckets }: { title: string; buckets: DistributionBucket[] }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead></TableHead>
+            <TableHead className="text-right">Trades</TableHead>
+            <TableHead className="text-right">Win Rate</TableHead>
+            <TableHead className="text-right">Avg P&L</TableHead>
+            <TableHead className="text-right">Total P&L</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {buckets.map(bucket => (
+            <TableRow key={bucket.label} className={cn(bucket.trades === 0 && "text-muted-foreground")}>
+              <TableCell className="font-medium">{bucket.label}</TableCell>
+              <TableCell className="text-right">{bucket.trades}</TableCell>
+              <TableCell className="text-right">{bucket.trades > 0 ? `${bucket.winRate.toFixed(0)}%` : "-"}</TableCell>
+              <TableCell className={cn("text-right font-mono", pnlClass(bucket.averagePnl))}>{bucket.trades > 0 ? formatCurrency(bucket.averagePnl) : "-"}</TableCell>
+              <TableCell className={cn("text-right font-mono", pnlClass(bucket.pnl))}>{bucket.trades > 0 ? formatCurrency(bucket.pnl) : "-"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function TradeAnalytics({ outcomes }: TradeAnalyticsProps) {
+  if (outcomes.length === 0) {
+    return (
+      <div className="flex h-[200px] items-center justify-center text-muted-foreground border border-dashed rounded-md bg-muted/5">
+        No closed positions to analyze yet.
+      </div>
+    );
+  }
+
+  const histogram = pnlHistogram(outcomes).map(bin => ({ ...bin, mid: (bin.from + bin.to) / 2 }));
+  const withDte = outcomes.filter(outcome => outcome.dte !== null).length;
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">P&L per Trade</h4>
+          <div className="h-[260px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogram}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+                <XAxis dataKey="mid" tickFormatter={formatCurrency} stroke="#888888" fontSize={12} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} stroke="#888888" fontSize={12} tickLine={false} axisLine={false} width={32} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  labelFormatter={(_, payload) => {
+                    const bin = payload?.[0]?.payload;
+                    return bin ? `${formatCurrency(bin.from)} to ${formatCurrency(bin.to)}` : "";
+                  }}
+                  formatter={(value: number) => [value, "Trades"]}
+                />
+                <Bar dataKey="count">
+                  {histogram.map(bin => <Cell key={bin.from} fill={bin.mid >= 0 ? "#10b981" : "#ef4444"} />)}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Credit Received vs Final P&L</h4>
+          <div className="h-[260px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis type="number" dataKey="credit" name="Credit" tickFormatter={formatCurrency} stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis type="number" dataKey="pnl" name="P&L" tickFormatter={formatCurrency} stroke="#888888" fontSize={12} tickLine={false} axisLine={false} width={64} />
+                <ZAxis range={[30, 30]} />
+                <ReferenceLine y={0} stroke="#888888" />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                />
+                <Scatter data={outcomes}>
+                  {outcomes.map(outcome => <Cell key={outcome.id} fill={outcome.pnl >= 0 ? "#10b981" : "#ef4444"} />)}
+                </Scatter>
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <BucketTable title={`By DTE at Entry (${withDte} of ${outcomes.length} with an expiry)`} buckets={bucketByDte(outcomes)} />
+        <BucketTable title="By Days in Trade" buckets={bucketByDaysInTrade(outcomes)} />
+        <BucketTable title="By Weekday of Entry" buckets={bucketByWeekday(outcomes)} />
+        <BucketTable title="By Underlying" buckets={bucketByUnderlying(outcomes)} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type { TradeStatistics } from "@/utils/pnlEngine";
+
+interface TradeStatisticsTableProps {
+  rows: { label: string; stats: TradeStatistics }[];
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const formatRatio = (value: number | null) => value === null ? "-" : value.toFixed(2);
+
+const pnlClass = (value: number) => value > 0 ? "text-green-500" : value < 0 ? "text-red-500" : "";
+
+export function TradeStatisticsTable({ rows }: TradeStatisticsTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead></TableHead>
+            <TableHead className="text-right">Trades</TableHead>
+            <TableHead className="text-right">Win Rate</TableHead>
+            <TableHead className="text-right">Avg Win</TableHead>
+            <TableHead className="text-right">Avg Loss</TableHead>
+            <TableHead className="text-right">Expectancy</TableHead>
+            <TableHead className="text-right">Profit Factor</TableHead>
+            <TableHead className="text-right">Payoff</TableHead>
+            <TableHead className="text-right">Largest Win</TableHead>
+            <TableHead className="text-right">Largest Loss</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ label, stats }, index) => (
+            <TableRow key={label} className={cn(index === 0 && "font-semibold")}>
+              <TableCell>{label}</TableCell>
+              <TableCell className="text-right">
+                {stats.trades}
+                <span className="text-xs text-muted-foreground font-normal ml-1">({stats.wins}W/{stats.losses}L)</span>
+              </TableCell>
+              {stats.trades === 0 ? (
+                <TableCell colSpan={8} className="text-center text-xs text-muted-foreground font-normal">No closed trades yet</TableCell>
+              ) : (
+                <>
+                  <TableCell className="text-right">{stats.winRate.toFixed(0)}%</TableCell>
+                  <TableCell className="text-right font-mono text-green-500">{formatCurrency(stats.averageWin)}</TableCell>
+                  <TableCell className="text-right font-mono text-red-500">{formatCurrency(stats.averageLoss)}</TableCell>
+                  <TableCell className={cn("text-right font-mono", pnlClass(stats.expectancy))}>{formatCurrency(stats.expectancy)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatRatio(stats.profitFactor)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatRatio(stats.payoffRatio)}</TableCell>
+                  <TableCell className="text-right font-mono text-green-500">{formatCurrency(stats.largestWin)}</TableCell>
+                  <TableCell className="text-right font-mono text-red-500">{formatCurrency(stats.largestLoss)}</TableCell>
+                </>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
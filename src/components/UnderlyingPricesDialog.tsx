@@ -0,0 +1,169 @@
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { showSuccess, showError } from "@/utils/toast";
+import { FileUp, Loader2, RefreshCw } from "lucide-react";
+import {
+  parseUnderlyingPricesCSV,
+  saveUnderlyingPrices,
+  syncUnderlyingPrices,
+  type ParsedUnderlyingPrice,
+  type UnderlyingPrice,
+} from "@/utils/underlyingPrices";
+
+interface UnderlyingPricesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tickers: string[];
+  prices?: Map<string, UnderlyingPrice>;
+}
+
+export function UnderlyingPricesDialog({ open, onOpenChange, tickers, prices }: UnderlyingPricesDialogProps) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [entries, setEntries] = useState<Record<string, string>>({});
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['underlying-prices'] });
+    queryClient.invalidateQueries({ queryKey: ['benchmark'] });
+  };
+
+  const syncMutation = useMutation({
+    mutationFn: () => syncUnderlyingPrices(tickers),
+    onSuccess: ({ message, skipped }) => {
+      onSaved();
+      showSuccess(skipped.length > 0 ? `${message} Enter ${skipped.join(', ')} by hand.` : message);
+    },
+    onError: (err) => showError(err.message || "Failed to sync prices")
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (rows: ParsedUnderlyingPrice[]) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+      return saveUnderlyingPrices(rows, user.id);
+    },
+    onSuccess: (saved) => {
+      onSaved();
+      setEntries({});
+      showSuccess(`Saved ${saved} ${saved === 1 ? 'price' : 'prices'}`);
+    },
+    onError: (err) => showError(err.message)
+  });
+
+  const handleSaveEntries = () => {
+    const rows = Object.entries(entries)
+      .map(([ticker, value]) => ({ ticker, date, price: parseFloat(value) }))
+      .filter(row => row.price > 0);
+    if (rows.length === 0) {
+      showError("Enter at least one positive price");
+      return;
+    }
+    saveMutation.mutate(rows);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const rows = await parseUnderlyingPricesCSV(file);
+      if (rows.length === 0) throw new Error("No prices found in this file.");
+      saveMutation.mutate(rows);
+    } catch (error) {
+      showError((error as Error).message || "Failed to read prices.");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Underlying Prices</DialogTitle>
+          <DialogDescription>
+            Daily closes of what your open positions are on. Sync pulls them from Yahoo; enter or upload anything it doesn't cover.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end justify-between gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="price-date">Close date</Label>
+            <Input id="price-date" type="date" className="w-[160px]" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="flex gap-2">
+            <input ref={fileInputRef} type="file" accept=".csv" className="hidden" onChange={handleUpload} />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={saveMutation.isPending}>
+              <FileUp className="mr-2 h-4 w-4" /> Upload CSV
+            </Button>
+            <Button variant="outline" onClick={() => syncMutation.mutate()} disabled={syncMutation.isPending || tickers.length === 0}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${syncMutation.isPending ? 'animate-spin' : ''}`} /> Sync
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-h-[360px] overflow-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ticker</TableHead>
+                <TableHead className="text-right">Last Close</TableHead>
+                <TableHead className="text-right w-[160px]">New Close</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tickers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground py-6">No open positions.</TableCell>
+                </TableRow>
+              ) : tickers.map(ticker => {
+                const latest = prices?.get(ticker);
+                return (
+                  <TableRow key={ticker}>
+                    <TableCell className="font-medium">{ticker}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">
+                      {latest ? `${latest.price.toFixed(2)} (${format(parseISO(latest.date), 'MMM d, yyyy')})` : <span className="text-muted-foreground">none</span>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        className="h-8 text-right"
+                        value={entries[ticker] || ""}
+                        onChange={(e) => setEntries(prev => ({ ...prev, [ticker]: e.target.value }))}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-xs text-muted-foreground">CSV columns: ticker (or symbol), date and close (or price). Uploaded rows overwrite the stored close for that day.</p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={handleSaveEntries} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Prices
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
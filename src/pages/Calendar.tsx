@@ -0,0 +1,286 @@
+import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { buildPositionLedger } from "@/utils/positionLedger";
+import { fetchCapitalFlows, fetchNetLiqLogs } from "@/utils/accountHistory";
+import { buildCalendarMonths, netLiqDailyPnl, realizedDailyPnl, tradesOnDay } from "@/utils/calendarPnl";
+
+type PnlSource = 'net-liq' | 'realized';
+
+interface Trade {
+  id: string;
+  symbol: string;
+  date: string;
+  action: string;
+  quantity: number;
+  price: number;
+  amount: number;
+  multiplier: number;
+  mark_price: number | null;
+  hidden: boolean;
+}
+
+// PostgREST caps responses at 1000 rows by default
+const TRADES_PAGE = 1000;
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+const formatCurrency = (value: number, compact = false) => new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  signDisplay: 'always',
+  maximumFractionDigits: compact ? 0 : 2,
+  notation: compact ? 'compact' : 'standard',
+}).format(value);
+
+// Four shades each way, scaled to the year's largest day
+const heatClass = (pnl: number | null, scale: number) => {
+  if (pnl === null) return "bg-muted/40";
+  if (pnl === 0 || scale === 0) return "bg-muted";
+  const level = Math.min(3, Math.floor((Math.abs(pnl) / scale) * 4));
+  const shades = pnl > 0
+    ? ["bg-green-500/25", "bg-green-500/50", "bg-green-500/75", "bg-green-500"]
+    : ["bg-red-500/25", "bg-red-500/50", "bg-red-500/75", "bg-red-500"];
+  return shades[level];
+};
+
+const totalClass = (value: number) => value > 0 ? "text-green-500" : value < 0 ? "text-red-500" : "text-muted-foreground";
+
+const Calendar = () => {
+  const [source, setSource] = useState<PnlSource>('net-liq');
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const { data: netLiqLogs, isLoading: logsLoading } = useQuery({
+    queryKey: ['net-liq-logs'],
+    queryFn: fetchNetLiqLogs
+  });
+
+  const { data: capitalFlows, isLoading: flowsLoading } = useQuery({
+    queryKey: ['capital-flows'],
+    queryFn: fetchCapitalFlows
+  });
+
+  const { data: fills, isLoading: tradesLoading } = useQuery({
+    queryKey: ['trades', 'calendar'],
+    queryFn: async () => {
+      const rows: Trade[] = [];
+      for (let page = 0; ; page++) {
+        const { data, error } = await supabase
+          .from('trades')
+          .select('id, symbol, date, action, quantity, price, amount, multiplier, mark_price, hidden')
+          .order('date', { ascending: true })
+          .order('id', { ascending: true })
+          .range(page * TRADES_PAGE, (page + 1) * TRADES_PAGE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < TRADES_PAGE) break;
+      }
+      return rows;
+    }
+  });
+
+  // Hidden fills still open and close lots; they're only left out of what's shown
+  const ledger = useMemo(() => buildPositionLedger(fills || []), [fills]);
+  const trades = useMemo(() => fills?.filter(trade => !trade.hidden), [fills]);
+
+  const daily = useMemo(() => source === 'realized'
+    ? realizedDailyPnl(ledger, new Set((trades || []).map(trade => trade.id)))
+    : netLiqDailyPnl(
+        (netLiqLogs || []).map(log => ({ date: log.date, value: Number(log.amount) })),
+        (capitalFlows || []).map(flow => ({ date: flow.date, amount: Number(flow.amount) }))
+      ), [source, ledger, trades, netLiqLogs, capitalFlows]);
+
+  const years = useMemo(() => {
+    const found = new Set<number>([new Date().getFullYear()]);
+    daily.forEach((_, date) => found.add(Number(date.slice(0, 4))));
+    return Array.from(found).sort((a, b) => b - a);
+  }, [daily]);
+
+  const months = useMemo(() => buildCalendarMonths(daily, year), [daily, year]);
+
+  const { yearTotal, scale, winningDays, losingDays } = useMemo(() => {
+    const values = Array.from(daily.entries()).filter(([date]) => date.startsWith(String(year))).map(([, pnl]) => pnl);
+    return {
+      yearTotal: values.reduce((sum, pnl) => sum + pnl, 0),
+      scale: values.reduce((max, pnl) => Math.max(max, Math.abs(pnl)), 0),
+      winningDays: values.filter(pnl => pnl > 0).length,
+      losingDays: values.filter(pnl => pnl < 0).length,
+    };
+  }, [daily, year]);
+
+  const dayDetail = useMemo(() => {
+    if (!selectedDay || !trades) return null;
+    const { opened, closed } = tradesOnDay(ledger, selectedDay);
+    const tradesById = new Map(trades.map(trade => [trade.id, trade]));
+    return {
+      opened: Array.from(opened).map(id => tradesById.get(id)).filter((trade): trade is Trade => !!trade),
+      closed: Array.from(closed.entries())
+        .map(([id, realized]) => ({ trade: tradesById.get(id), realized }))
+        .filter((row): row is { trade: Trade; realized: number } => !!row.trade),
+    };
+  }, [selectedDay, trades, ledger]);
+
+  if (logsLoading || flowsLoading || tradesLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-[50vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">P&L Calendar</h2>
+            <p className="text-muted-foreground">Daily P&L by trading day, with weekly and monthly totals.</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <ToggleGroup type="single" variant="outline" value={source} onValueChange={(value) => value && setSource(value as PnlSource)}>
+              <ToggleGroupItem value="net-liq">Net Liq Change</ToggleGroupItem>
+              <ToggleGroupItem value="realized">Realized P&L</ToggleGroupItem>
+            </ToggleGroup>
+            <Select value={String(year)} onValueChange={(value) => { setYear(Number(value)); setSelectedDay(null); }}>
+              <SelectTrigger className="w-[100px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {years.map(y => <SelectItem key={y} value={String(y)}>{y}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className={totalClass(yearTotal)}>{formatCurrency(yearTotal)}</CardTitle>
+            <CardDescription>
+              {source === 'net-liq'
+                ? "Change in Net Liquidity between entries, net of deposits and withdrawals."
+                : "Realized P&L of positions closed each day, matched FIFO."}
+              {' '}{winningDays} up days, {losingDays} down days in {year}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+              {months.map(month => (
+                <div key={month.month} className="border rounded-md p-3 space-y-2">
+                  <div className="flex items-baseline justify-between">
+                    <span className="text-sm font-semibold">{format(parseISO(`${month.month}-01`), 'MMMM')}</span>
+                    <span className={cn("text-xs font-mono", totalClass(month.total))}>{month.total !== 0 ? formatCurrency(month.total, true) : '-'}</span>
+                  </div>
+                  <div className="grid grid-cols-[repeat(5,1fr)_auto] gap-1 text-[10px] text-muted-foreground">
+                    {WEEKDAYS.map(name => <span key={name} className="text-center">{name[0]}</span>)}
+                    <span className="text-right">Week</span>
+                    {month.weeks.map(week => (
+                      <div key={week.weekStart} className="contents">
+                        {week.days.map((d, index) => d ? (
+                          <button
+                            key={d.date}
+                            type="button"
+                            className={cn(
+                              "h-6 rounded-sm transition-shadow hover:ring-1 hover:ring-foreground",
+                              heatClass(d.pnl, scale),
+                              selectedDay === d.date && "ring-2 ring-primary"
+                            )}
+                            title={`${format(parseISO(d.date), 'EEE MMM d')}: ${d.pnl === null ? 'no data' : formatCurrency(d.pnl)}`}
+                            onClick={() => setSelectedDay(d.date)}
+                          />
+                        ) : <span key={`${week.weekStart}-${index}`} />)}
+                        <span className={cn("text-right font-mono self-center min-w-[44px]", totalClass(week.total))}>
+                          {week.total !== 0 ? formatCurrency(week.total, true) : ''}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {selectedDay && dayDetail && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{format(parseISO(selectedDay), 'EEEE, MMMM d, yyyy')}</CardTitle>
+              <CardDescription>
+                {daily.has(selectedDay) ? formatCurrency(daily.get(selectedDay) || 0) : 'No P&L recorded'} · {dayDetail.closed.length} closed, {dayDetail.opened.length} opened
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {dayDetail.closed.length === 0 && dayDetail.opened.length === 0 ? (
+                <div className="text-sm text-muted-foreground text-center py-6">No trades opened or closed this day.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead></TableHead>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Realized</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dayDetail.closed.map(({ trade, realized }) => (
+                      <TableRow key={`closed-${trade.id}`}>
+                        <TableCell><Badge variant="secondary">Closed</Badge></TableCell>
+                        <TableCell className="font-medium">{trade.symbol}</TableCell>
+                        <TableCell className="text-xs">{trade.action}</TableCell>
+                        <TableCell className="text-right">{trade.quantity}</TableCell>
+                        <TableCell className="text-right">{Number(trade.price).toFixed(2)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(Number(trade.amount))}</TableCell>
+                        <TableCell className={cn("text-right font-mono", totalClass(realized))}>{formatCurrency(realized)}</TableCell>
+                      </TableRow>
+                    ))}
+                    {dayDetail.opened.map(trade => (
+                      <TableRow key={`opened-${trade.id}`}>
+                        <TableCell><Badge variant="outline">Opened</Badge></TableCell>
+                        <TableCell className="font-medium">{trade.symbol}</TableCell>
+                        <TableCell className="text-xs">{trade.action}</TableCell>
+                        <TableCell className="text-right">{trade.quantity}</TableCell>
+                        <TableCell className="text-right">{Number(trade.price).toFixed(2)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(Number(trade.amount))}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">-</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Calendar;
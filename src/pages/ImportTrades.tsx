@@ -1,25 +1,75 @@
 import { useState, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Upload, FileText, CheckCircle, AlertCircle, Loader2, Info, TrendingUp } from "lucide-react";
-import { parseTradeCSV } from "@/utils/csvParser";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Upload, FileText, CheckCircle, AlertCircle, XCircle, Loader2, Info, TrendingUp, RotateCw } from "lucide-react";
+import { parseTradeCSV, type ParsedCashEvent, type ParsedTrade } from "@/utils/csvParser";
 import { parsePositionsCSV } from "@/utils/positionsCsvParser";
-import { parseSymbolToCanonical as parseTradeSymbol } from "@/utils/csvParser";
+import { BROKER_ADAPTERS, type BrokerId } from "@/utils/brokers";
+import { fetchContractSpecs, withContractMultiplier } from "@/utils/contractSpecs";
 import { supabase } from "@/integrations/supabase/client";
 import { showSuccess, showError } from "@/utils/toast";
+import { stageTrades, revalidateStagedTrades, hasBlockingIssues, type StagedTrade } from "@/utils/importValidation";
+import { ImportStagingTable } from "@/components/ImportStagingTable";
+import { bulkInsertTrades, retryFailedChunks, type FailedChunk } from "@/utils/tradeImporter";
+import { Progress } from "@/components/ui/progress";
+import { reconcileImport, type ExistingTrade, type ReconciliationResult } from "@/utils/importReconciliation";
+import { ImportReconciliationSummary } from "@/components/ImportReconciliationSummary";
+import { addDays, format } from "date-fns";
+import { importCashEvents, type CashImportResult } from "@/utils/cashEventImporter";
+import { ImportCashEventsTable } from "@/components/ImportCashEventsTable";
+import { applySettlementPlans, planSettlements, type LedgerTrade, type SettlementPlan } from "@/utils/settlements";
+import { applyLegGroups, fetchGroupableTrades, markLegsReviewed, suggestLegGroups, type SuggestedGroup } from "@/utils/legGrouping";
+import { LegGroupingReview } from "@/components/LegGroupingReview";
+import { NetLiqHistoryImportCard } from "@/components/NetLiqHistoryImportCard";
+import { buildPositionLedger, type InstrumentPosition, type LotSide } from "@/utils/positionLedger";
+import { closeLedgerPositions, createOpeningTrades, reconcilePositions, type LedgerCloseMode, type PositionReconciliation, type ReconcilableTrade } from "@/utils/positionReconciliation";
+import { PositionReconciliationReport } from "@/components/PositionReconciliationReport";
+import type { ParsedPosition } from "@/utils/positionsCsvParser";
+import { saveMarkSnapshots, type MarkSnapshot } from "@/utils/markSnapshots";
+
+// PostgREST caps responses at 1000 rows by default
+const EXISTING_TRADES_PAGE = 1000;
 
 export default function ImportTrades() {
+  const queryClient = useQueryClient();
+
   // State for Trade Imports
   const [tradeLoading, setTradeLoading] = useState(false);
-  const [tradeStats, setTradeStats] = useState<{ total: number; inserted: number; duplicates: number } | null>(null);
+  const [tradeStats, setTradeStats] = useState<{ total: number; inserted: number; duplicates: number; failed: number; broker: string; cash?: CashImportResult } | null>(null);
+  const [failedChunks, setFailedChunks] = useState<FailedChunk[]>([]);
+  const [importProgress, setImportProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [brokerId, setBrokerId] = useState<BrokerId | 'auto'>('auto');
+  const [stagedRows, setStagedRows] = useState<StagedTrade[] | null>(null);
+  const [stagedBroker, setStagedBroker] = useState<string | null>(null);
+  const [alreadyImported, setAlreadyImported] = useState<Set<number>>(new Set());
+  const [reconciliation, setReconciliation] = useState<ReconciliationResult | null>(null);
+  const [stagedCashEvents, setStagedCashEvents] = useState<ParsedCashEvent[]>([]);
+  const [includeCashEvents, setIncludeCashEvents] = useState(true);
+  const [settlementPlans, setSettlementPlans] = useState<SettlementPlan[]>([]);
+  const [legGroups, setLegGroups] = useState<SuggestedGroup[] | null>(null);
+  const [groupingLoading, setGroupingLoading] = useState(false);
   const tradeFileInputRef = useRef<HTMLInputElement>(null);
 
   // State for Position Imports
   const [positionLoading, setPositionLoading] = useState(false);
   const [positionStats, setPositionStats] = useState<{ matched: number; unmatched: number; updated: number } | null>(null);
+  const [positionReconciliation, setPositionReconciliation] = useState<PositionReconciliation | null>(null);
+  // Trades as they were before the upload cleared stale marks, so closes can use the last known mark
+  const [reconcileTrades, setReconcileTrades] = useState<Map<string, ReconcilableTrade>>(new Map());
+  const [reconcileWorking, setReconcileWorking] = useState(false);
   const positionFileInputRef = useRef<HTMLInputElement>(null);
 
   const handleTradeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -28,46 +78,227 @@ export default function ImportTrades() {
 
     setTradeLoading(true);
     setTradeStats(null);
+    setLegGroups(null);
+    setFailedChunks([]);
+    setStagedRows(null);
 
     try {
-      const trades = await parseTradeCSV(file);
-      if (trades.length === 0) throw new Error("No valid trades found in CSV.");
+      const { adapter, trades: parsedTrades, cashEvents } = await parseTradeCSV(file, brokerId);
+      if (parsedTrades.length === 0 && cashEvents.length === 0) throw new Error(`No valid trades found in ${adapter.name} CSV.`);
+
+      // Futures legs take their multiplier from the contract specs (e.g. /ES 50, /MES 5)
+      const specs = await queryClient.fetchQuery({ queryKey: ['contract-specs'], queryFn: fetchContractSpecs });
+      const trades = parsedTrades.map(trade => withContractMultiplier(trade, specs));
+
+      // Reconcile against stored trades in the file's date range (padded a day for timezone drift)
+      // so rows already in the database are flagged before anything is written. Unreadable dates are left to staging.
+      const dates = trades.map(t => t.date).filter(Boolean).sort();
+      const existing: ExistingTrade[] = [];
+      for (let page = 0; dates.length > 0; page++) {
+        const from = format(addDays(new Date(dates[0]), -1), 'yyyy-MM-dd');
+        const to = format(addDays(new Date(dates[dates.length - 1]), 2), 'yyyy-MM-dd');
+        const { data, error } = await supabase
+          .from('trades')
+          .select('id, symbol, date, action, quantity, amount, import_hash')
+          .gte('date', from)
+          .lt('date', to)
+          .order('date', { ascending: true })
+          .order('id', { ascending: true })
+          .range(page * EXISTING_TRADES_PAGE, (page + 1) * EXISTING_TRADES_PAGE - 1);
+        if (error) throw error;
+        existing.push(...(data || []));
+        if (!data || data.length < EXISTING_TRADES_PAGE) break;
+      }
+
+      const result = reconcileImport(trades, existing);
+      const matchedIndexes = new Set(result.matches.map(match => match.index));
+      const matchedRows = new Set(result.matches.map(match => match.index + 1));
+
+      // Expirations, assignments and exercises close legs that may have been opened long before this file.
+      // A delivered stock can have years of fills behind it, so this is paged too.
+      const settlementSymbols = Array.from(new Set(trades.filter((t, i) => t.event && !matchedIndexes.has(i)).map(t => t.symbol)));
+      const openingLegs: LedgerTrade[] = [];
+      for (let page = 0; settlementSymbols.length > 0; page++) {
+        const { data, error } = await supabase
+          .from('trades')
+          .select('id, symbol, date, action, quantity, pair_id, strategy_id, tag_id')
+          .in('symbol', settlementSymbols)
+          .order('date', { ascending: true })
+          .order('id', { ascending: true })
+          .range(page * EXISTING_TRADES_PAGE, (page + 1) * EXISTING_TRADES_PAGE - 1);
+        if (error) throw error;
+        openingLegs.push(...(data || []));
+        if (!data || data.length < EXISTING_TRADES_PAGE) break;
+      }
+      const settled = planSettlements(trades, matchedIndexes, openingLegs);
+
+      setReconciliation(result);
+      setAlreadyImported(matchedRows);
+      setStagedBroker(adapter.name);
+      setStagedRows(stageTrades(settled.trades, matchedRows));
+      setSettlementPlans(settled.plans);
+      setStagedCashEvents(cashEvents);
+      setIncludeCashEvents(true);
+    } catch (error) {
+      console.error(error);
+      showError((error instanceof Error ? error.message : String(error)) || "Failed to read trades file.");
+    } finally {
+      setTradeLoading(false);
+      if (tradeFileInputRef.current) tradeFileInputRef.current.value = "";
+    }
+  };
 
+  const handleToggleStagedRows = (rowNumbers: number[], excluded: boolean) => {
+    const targets = new Set(rowNumbers);
+    setStagedRows(prev => prev && revalidateStagedTrades(
+      prev.map(row => targets.has(row.rowNumber) ? { ...row, excluded } : row),
+      alreadyImported
+    ));
+  };
+
+  const handleEditStagedRow = (rowNumber: number, patch: Partial<ParsedTrade>) => {
+    setStagedRows(prev => prev && revalidateStagedTrades(
+      prev.map(row => row.rowNumber === rowNumber ? { ...row, trade: { ...row.trade, ...patch } } : row),
+      alreadyImported
+    ));
+  };
+
+  const handleDiscardStaged = () => {
+    setStagedRows(null);
+    setStagedBroker(null);
+    setReconciliation(null);
+    setStagedCashEvents([]);
+    setSettlementPlans([]);
+  };
+
+  const handleConfirmImport = async () => {
+    if (!stagedRows) return;
+    const trades = stagedRows.filter(row => !row.excluded).map(row => row.trade);
+    const cashEvents = includeCashEvents ? stagedCashEvents : [];
+    if (trades.length === 0 && cashEvents.length === 0) return;
+
+    setTradeLoading(true);
+
+    try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      let insertedCount = 0;
-      let duplicateCount = 0;
+      const result = await bulkInsertTrades(trades, user.id, (processed, total) => setImportProgress({ processed, total }));
+      const failedCount = result.failed.reduce((sum, chunk) => sum + chunk.trades.length, 0);
+      const cash = await importCashEvents(cashEvents, user.id);
+      const linked = await applySettlementPlans(settlementPlans);
+      if (linked > 0) console.log(`🔗 Linked ${linked} expirations/assignments to their opening legs`);
+      if (cash.flows > 0) queryClient.invalidateQueries({ queryKey: ['capital-flows'] });
 
-      for (const trade of trades) {
-        const { error } = await supabase.from('trades').insert({ ...trade, user_id: user.id });
-        if (error) {
-          if (error.code === '23505') duplicateCount++;
-          else console.error("Error inserting trade:", error);
-        } else {
-          insertedCount++;
-        }
-      }
+      setTradeStats({ total: trades.length, inserted: result.inserted, duplicates: result.duplicates, failed: failedCount, broker: stagedBroker || '', cash });
+      setFailedChunks(result.failed);
+      setStagedRows(null);
+      setReconciliation(null);
+      setStagedCashEvents([]);
+      if (failedCount === 0) setSettlementPlans([]);
+      if (failedCount > 0) showError(`${failedCount} trades failed to import. You can retry them below.`);
+      else if (result.inserted > 0 || cash.flows + cash.events > 0) showSuccess(`Successfully imported ${result.inserted} trades and ${cash.flows + cash.events} cash movements!`);
+      else showSuccess("Import complete. No new trades found.");
+
+      if (result.inserted > 0) await suggestGroups();
+    } catch (error) {
+      console.error(error);
+      showError((error instanceof Error ? error.message : String(error)) || "Failed to import trades.");
+    } finally {
+      setTradeLoading(false);
+      setImportProgress(null);
+    }
+  };
+
+  // Runs after every import so new legs can be grouped while the fills are fresh
+  const suggestGroups = async () => {
+    try {
+      const suggestions = suggestLegGroups(await fetchGroupableTrades());
+      setLegGroups(suggestions.length > 0 ? suggestions : null);
+    } catch (error) {
+      console.error(error);
+      showError((error as Error).message || "Failed to suggest leg groups.");
+    }
+  };
+
+  const handleApplyLegGroups = async (groups: { pairId: string | null; tradeIds: string[] }[]) => {
+    setGroupingLoading(true);
+    try {
+      const grouped = await applyLegGroups(groups);
+      // Legs left out of the accepted groups aren't suggested again on their own
+      await markLegsReviewed((legGroups || []).flatMap(group => group.newTradeIds));
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+      queryClient.invalidateQueries({ queryKey: ['assignedTrades'] });
+      queryClient.invalidateQueries({ queryKey: ['trades-put-camp'] });
+      queryClient.invalidateQueries({ queryKey: ['strategies-calculated'] });
+      setLegGroups(null);
+      showSuccess(`Grouped legs into ${grouped} positions`);
+    } catch (error) {
+      console.error(error);
+      showError((error as Error).message || "Failed to group legs.");
+    } finally {
+      setGroupingLoading(false);
+    }
+  };
+
+  const handleDismissLegGroups = async () => {
+    setGroupingLoading(true);
+    try {
+      await markLegsReviewed((legGroups || []).flatMap(group => group.newTradeIds));
+      setLegGroups(null);
+    } catch (error) {
+      console.error(error);
+      showError((error as Error).message || "Failed to dismiss leg groups.");
+    } finally {
+      setGroupingLoading(false);
+    }
+  };
 
-      setTradeStats({ total: trades.length, inserted: insertedCount, duplicates: duplicateCount });
-      if (insertedCount > 0) showSuccess(`Successfully imported ${insertedCount} trades!`);
-      else if (duplicateCount > 0) showSuccess("Import complete. No new trades found.");
+  const handleRetryFailed = async () => {
+    if (failedChunks.length === 0 || !tradeStats) return;
+    setTradeLoading(true);
 
-    } catch (error: any) {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const result = await retryFailedChunks(failedChunks, user.id, (processed, total) => setImportProgress({ processed, total }));
+      const failedCount = result.failed.reduce((sum, chunk) => sum + chunk.trades.length, 0);
+
+      setTradeStats({
+        ...tradeStats,
+        inserted: tradeStats.inserted + result.inserted,
+        duplicates: tradeStats.duplicates + result.duplicates,
+        failed: failedCount
+      });
+      setFailedChunks(result.failed);
+      // Settlements whose rows were in the failed batches can be linked now
+      await applySettlementPlans(settlementPlans);
+      if (failedCount === 0) setSettlementPlans([]);
+      if (failedCount > 0) showError(`${failedCount} trades still failed to import.`);
+      else showSuccess("All remaining trades imported.");
+      if (result.inserted > 0) await suggestGroups();
+    } catch (error) {
       console.error(error);
-      showError(error.message || "Failed to import trades.");
+      showError((error instanceof Error ? error.message : String(error)) || "Retry failed.");
     } finally {
       setTradeLoading(false);
-      if (tradeFileInputRef.current) tradeFileInputRef.current.value = "";
+      setImportProgress(null);
     }
   };
 
+  const stagedIncluded = stagedRows?.filter(row => !row.excluded) || [];
+  const stagedBlocking = stagedIncluded.filter(hasBlockingIssues).length;
+  // Cash movements can't be edited here, so one with an unreadable date holds back all of them
+  const unreadableCashEvents = includeCashEvents ? stagedCashEvents.filter(event => !event.date).length : 0;
+
   const handlePositionUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     setPositionLoading(true);
     setPositionStats(null);
+    setPositionReconciliation(null);
 
     try {
       console.log("🚀 Starting enhanced position upload...");
@@ -76,117 +307,50 @@ export default function ImportTrades() {
       const parsedPositions = await parsePositionsCSV(file);
       console.log(`📊 Parsed ${parsedPositions.length} positions from CSV`);
       
-      // Create maps for faster lookup
-      const positionsMap = new Map(parsedPositions.map(p => [p.canonicalSymbol, p]));
-      const positionsByOriginalSymbol = new Map(parsedPositions.map(p => [p.symbol, p]));
-      
-      console.log("🗺️ Position maps created:");
-      console.log("Canonical symbols:", Array.from(positionsMap.keys()));
-      console.log("Original symbols:", Array.from(positionsByOriginalSymbol.keys()));
-
-      // 2. Fetch ALL trades that could potentially be open
-      // We'll look for trades with OPEN actions that don't have corresponding CLOSE actions
-      const { data: allTrades, error: fetchError } = await supabase
-        .from('trades')
-        .select('*')
-        .order('date', { ascending: true });
-      
-      if (fetchError) throw fetchError;
-      console.log(`📋 Found ${allTrades?.length || 0} total trades in database`);
-
-      // 3. Determine which trades are actually open
-      const openTrades = [];
-      const tradesBySymbol = new Map();
-      
-      // Group trades by symbol to track open/close pairs
-      for (const trade of allTrades || []) {
-        const symbol = trade.symbol;
-        if (!tradesBySymbol.has(symbol)) {
-          tradesBySymbol.set(symbol, []);
-        }
-        tradesBySymbol.get(symbol).push(trade);
+      // 2. Fetch every trade; open state comes from FIFO lot matching across the full history
+      const allTrades: ReconcilableTrade[] = [];
+      for (let page = 0; ; page++) {
+        const { data, error: fetchError } = await supabase
+          .from('trades')
+          .select('id, symbol, date, action, quantity, amount, multiplier, mark_price, pair_id, strategy_id, tag_id')
+          .order('date', { ascending: true })
+          .order('id', { ascending: true })
+          .range(page * EXISTING_TRADES_PAGE, (page + 1) * EXISTING_TRADES_PAGE - 1);
+        if (fetchError) throw fetchError;
+        allTrades.push(...(data || []));
+        if (!data || data.length < EXISTING_TRADES_PAGE) break;
       }
-      
-      // For each symbol, determine net open position
-      for (const [symbol, trades] of tradesBySymbol.entries()) {
-        let netQuantity = 0;
-        let lastOpenTrade = null;
-        
-        for (const trade of trades) {
-          const action = trade.action.toUpperCase();
-          const qty = trade.quantity;
-          
-          if (action.includes('OPEN')) {
-            if (action.includes('BUY')) {
-              netQuantity += qty;
-            } else if (action.includes('SELL')) {
-              netQuantity -= qty;
-            }
-            lastOpenTrade = trade;
-          } else if (action.includes('CLOSE')) {
-            if (action.includes('BUY')) {
-              netQuantity -= qty;
-            } else if (action.includes('SELL')) {
-              netQuantity += qty;
-            }
-          }
-        }
-        
-        // If we have a net position and a last open trade, consider it open
-        if (Math.abs(netQuantity) > 0 && lastOpenTrade) {
-          openTrades.push(lastOpenTrade);
-          console.log(`📈 Open position detected: ${symbol} (net qty: ${netQuantity})`);
-        }
-      }
-      
-      console.log(`🔍 Identified ${openTrades.length} potentially open trades`);
+      console.log(`📋 Found ${allTrades.length} total trades in database`);
+
+      // 3. Match the ledger's open instruments to the snapshot
+      const ledger = buildPositionLedger(allTrades);
+      const reconciliation = reconcilePositions(parsedPositions, ledger);
+      console.log(`🔍 ${reconciliation.matched.length} matched, ${reconciliation.brokerOnly.length} only at the broker, ${reconciliation.ledgerOnly.length} only in trades, ${reconciliation.quantityMismatches.length} quantity mismatches`);
 
       const updates: { id: string; mark_price: number | null }[] = [];
       const matchedTradeIds = new Set<string>();
-      let matchCount = 0;
+      const matchCount = reconciliation.matched.length;
+      const snapshots: MarkSnapshot[] = [];
+      const snapshotDate = format(new Date(), 'yyyy-MM-dd');
 
-      // 4. Enhanced matching logic
-      for (const trade of openTrades) {
-        console.log(`\n🔍 Matching trade: ${trade.symbol} (${trade.asset_type})`);
-        
-        // Try multiple matching strategies
-        let position = null;
-        
-        // Strategy 1: Direct symbol match
-        position = positionsByOriginalSymbol.get(trade.symbol);
-        if (position) {
-          console.log(`✅ Direct symbol match found!`);
-        } else {
-          // Strategy 2: Canonical symbol match
-          const tradeCanonical = parseTradeSymbol(trade.symbol, trade.asset_type);
-          position = positionsMap.get(tradeCanonical);
-          if (position) {
-            console.log(`✅ Canonical symbol match found! (${tradeCanonical})`);
-          } else {
-            // Strategy 3: Fuzzy matching for options
-            if (trade.asset_type === 'OPTION') {
-              const underlying = trade.symbol.split(/\s+/)[0];
-              for (const [posSymbol, pos] of positionsByOriginalSymbol.entries()) {
-                if (posSymbol.startsWith(underlying)) {
-                  console.log(`🎯 Fuzzy match attempt: ${posSymbol}`);
-                  // You could add more sophisticated matching here
-                }
-              }
-            }
-          }
-        }
-        
-        if (position) {
-          console.log(`✅ MATCH FOUND! Mark: $${position.mark}, Quantity: ${position.quantity}`);
-          updates.push({ 
-            id: trade.id, 
-            mark_price: position.mark
-          });
-          matchedTradeIds.add(trade.id);
-          matchCount++;
-        } else {
-          console.log(`❌ No position found for ${trade.symbol}`);
-        }
+      // 4. Mark every lot still open in a matched instrument, and keep the mark as today's snapshot.
+      // The broker's P/L Open is for the whole position, so each lot gets its share by quantity.
+      for (const match of reconciliation.matched) {
+        const ledgerQuantity = Math.abs(match.ledgerQuantity) || 1;
+        match.ledgerPositions.forEach(ledgerPosition => ledgerPosition.lots
+          .filter(lot => lot.openQuantity > 0)
+          .forEach(lot => {
+            if (matchedTradeIds.has(lot.tradeId)) return;
+            updates.push({ id: lot.tradeId, mark_price: match.position.mark });
+            matchedTradeIds.add(lot.tradeId);
+            snapshots.push({
+              trade_id: lot.tradeId,
+              snapshot_date: snapshotDate,
+              mark: match.position.mark,
+              quantity: lot.openQuantity,
+              pnl_open: match.position.pnl === null ? null : match.position.pnl * lot.openQuantity / ledgerQuantity,
+            });
+          }));
       }
       
       // 5. Clear mark prices for trades that are no longer in positions
@@ -235,22 +399,79 @@ export default function ImportTrades() {
         }
       }
 
-      const unmatchedCount = openTrades.length - matchCount;
+      // 7. Save today's marks so the P&L path of each position survives the next upload
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+      await saveMarkSnapshots(snapshots, user.id);
+      console.log(`📸 Saved ${snapshots.length} mark snapshots for ${snapshotDate}`);
+      queryClient.invalidateQueries({ queryKey: ['mark-snapshots'] });
+
+      const unmatchedCount = reconciliation.ledgerOnly.length;
       setPositionStats({ matched: matchCount, unmatched: unmatchedCount, updated: updates.length });
+      setPositionReconciliation(reconciliation);
+      setReconcileTrades(new Map(allTrades.map(trade => [trade.id, trade])));
       
       showSuccess(`✅ Updated ${matchCount} open positions. Cleared ${tradesToClear.length} closed positions.`);
       
       console.log("🎉 Enhanced position upload complete!");
 
-    } catch (error: any) {
+    } catch (error) {
       console.error("💥 Position upload error:", error);
-      showError(error.message || "Failed to process positions file.");
+      showError((error instanceof Error ? error.message : String(error)) || "Failed to process positions file.");
     } finally {
       setPositionLoading(false);
       if (positionFileInputRef.current) positionFileInputRef.current.value = "";
     }
   };
 
+  const invalidateTradeQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['trades'] });
+    queryClient.invalidateQueries({ queryKey: ['assignedTrades'] });
+    queryClient.invalidateQueries({ queryKey: ['trades-put-camp'] });
+    queryClient.invalidateQueries({ queryKey: ['strategies-calculated'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboard-stats-v2'] });
+  };
+
+  const handleCreateOpenings = async (entries: { position: ParsedPosition; side: LotSide }[]) => {
+    if (!positionReconciliation || entries.length === 0) return;
+    setReconcileWorking(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const created = await createOpeningTrades(entries, user.id, await fetchContractSpecs());
+      const handled = new Set(entries.map(entry => entry.position));
+      setPositionReconciliation({ ...positionReconciliation, brokerOnly: positionReconciliation.brokerOnly.filter(p => !handled.has(p)) });
+      invalidateTradeQueries();
+      showSuccess(`Created ${created} opening trades`);
+    } catch (error) {
+      console.error(error);
+      showError((error as Error).message || "Failed to create opening trades.");
+    } finally {
+      setReconcileWorking(false);
+    }
+  };
+
+  const handleClosePositions = async (positions: InstrumentPosition[], mode: LedgerCloseMode) => {
+    if (!positionReconciliation || positions.length === 0) return;
+    setReconcileWorking(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const closed = await closeLedgerPositions(positions, reconcileTrades, user.id, mode);
+      const handled = new Set(positions);
+      setPositionReconciliation({ ...positionReconciliation, ledgerOnly: positionReconciliation.ledgerOnly.filter(p => !handled.has(p)) });
+      invalidateTradeQueries();
+      showSuccess(`Booked ${closed} closing trades`);
+    } catch (error) {
+      console.error(error);
+      showError((error as Error).message || "Failed to close positions.");
+    } finally {
+      setReconcileWorking(false);
+    }
+  };
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -262,26 +483,86 @@ export default function ImportTrades() {
         <Card>
           <CardHeader>
             <CardTitle>Upload Transactions CSV</CardTitle>
-            <CardDescription>Supports standard broker formats. Duplicates are automatically detected and skipped.</CardDescription>
+            <CardDescription>Supports tastytrade, Schwab, Fidelity and Webull exports. Rows are staged for review before anything is saved.</CardDescription>
           </CardHeader>
           <CardContent>
+            <div className="flex items-center gap-3 mb-4">
+              <Label htmlFor="broker-format" className="whitespace-nowrap">Broker Format</Label>
+              <Select value={brokerId} onValueChange={(val) => setBrokerId(val as BrokerId | 'auto')} disabled={tradeLoading}>
+                <SelectTrigger id="broker-format" className="w-[220px]">
+                  <SelectValue placeholder="Auto-detect" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto-detect</SelectItem>
+                  {BROKER_ADAPTERS.map(adapter => (
+                    <SelectItem key={adapter.id} value={adapter.id}>{adapter.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex flex-col items-center justify-center p-10 border-2 border-dashed rounded-xl hover:bg-muted/50 transition-colors">
               <div className="mb-4 p-4 bg-primary/10 rounded-full"><Upload className="h-8 w-8 text-primary" /></div>
               <h3 className="text-lg font-medium mb-2">Upload Transactions</h3>
               <p className="text-sm text-muted-foreground mb-6">Select your transactions.csv file.</p>
-              <Input ref={tradeFileInputRef} type="file" accept=".csv" className="hidden" onChange={handleTradeUpload} id="csv-upload" disabled={tradeLoading} />
-              <Button asChild disabled={tradeLoading} size="lg">
+              <Input ref={tradeFileInputRef} type="file" accept=".csv" className="hidden" onChange={handleTradeUpload} id="csv-upload" disabled={tradeLoading || !!stagedRows} />
+              <Button asChild disabled={tradeLoading || !!stagedRows} size="lg">
                 <label htmlFor="csv-upload" className="cursor-pointer">
                   {tradeLoading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Processing...</> : "Select CSV File"}
                 </label>
               </Button>
             </div>
+            {stagedRows && (
+              <div className="mt-6 space-y-4">
+                <Alert variant={stagedBlocking > 0 || unreadableCashEvents > 0 ? "destructive" : "default"}>
+                  <Info className="h-4 w-4" />
+                  <AlertTitle className="flex items-center gap-2">
+                    Review Import <Badge variant="outline">{brokerId === 'auto' ? 'Detected' : 'Format'}: {stagedBroker}</Badge>
+                  </AlertTitle>
+                  <AlertDescription>
+                    {stagedRows.length} rows parsed, {stagedIncluded.length} selected for import.
+                    {settlementPlans.length > 0 && ` ${settlementPlans.length} expiration/assignment row(s) will close ${settlementPlans.reduce((sum, plan) => sum + plan.closes.length, 0)} open leg(s) and be linked to them.`}
+                    {stagedBlocking > 0 && ` Fix or exclude ${stagedBlocking} row(s) with errors before importing.`}
+                    {unreadableCashEvents > 0 && ` ${unreadableCashEvents} cash movement(s) have unreadable dates; fix the file or leave cash movements out.`}
+                    {' '}Nothing is saved until you confirm.
+                  </AlertDescription>
+                </Alert>
+                {reconciliation && stagedRows.length > 0 && <ImportReconciliationSummary result={reconciliation} />}
+                {stagedRows.length > 0 && (
+                  <ImportStagingTable rows={stagedRows} onToggleExcluded={handleToggleStagedRows} onEdit={handleEditStagedRow} />
+                )}
+                {stagedCashEvents.length > 0 && (
+                  <ImportCashEventsTable events={stagedCashEvents} included={includeCashEvents} onIncludedChange={setIncludeCashEvents} />
+                )}
+                {importProgress && (
+                  <div className="space-y-1">
+                    <Progress value={(importProgress.processed / importProgress.total) * 100} />
+                    <p className="text-xs text-muted-foreground text-right">{importProgress.processed} / {importProgress.total} rows</p>
+                  </div>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={handleDiscardStaged} disabled={tradeLoading}>Discard</Button>
+                  <Button onClick={handleConfirmImport} disabled={tradeLoading || (stagedIncluded.length === 0 && !(includeCashEvents && stagedCashEvents.length > 0)) || stagedBlocking > 0 || unreadableCashEvents > 0}>
+                    {tradeLoading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Importing...</> : `Import ${stagedIncluded.length} Trades${includeCashEvents && stagedCashEvents.length > 0 ? ` + ${stagedCashEvents.length} Cash Movements` : ''}`}
+                  </Button>
+                </div>
+              </div>
+            )}
             {tradeStats && (
               <div className="mt-6 grid gap-4">
-                <Alert variant={tradeStats.inserted > 0 ? "default" : "destructive"} className="bg-muted/50">
-                  <FileText className="h-4 w-4" /><AlertTitle>Import Summary</AlertTitle><AlertDescription>Processed {tradeStats.total} rows.</AlertDescription>
+                <Alert variant={tradeStats.inserted > 0 || (tradeStats.cash && tradeStats.cash.flows + tradeStats.cash.events > 0) ? "default" : "destructive"} className="bg-muted/50">
+                  <FileText className="h-4 w-4" /><AlertTitle>Import Summary</AlertTitle>
+                  <AlertDescription className="flex items-center gap-2">
+                    Imported {tradeStats.total} confirmed rows.
+                    <Badge variant="outline">{tradeStats.broker}</Badge>
+                  </AlertDescription>
+                  {tradeStats.cash && tradeStats.cash.flows + tradeStats.cash.events + tradeStats.cash.duplicates + tradeStats.cash.manualMatches > 0 && (
+                    <AlertDescription className="text-xs text-muted-foreground mt-1">
+                      Cash movements: {tradeStats.cash.flows} deposits/withdrawals, {tradeStats.cash.events} ledger entries, {tradeStats.cash.duplicates} already imported
+                      {tradeStats.cash.manualMatches > 0 && `, ${tradeStats.cash.manualMatches} matched flows you entered by hand`}.
+                    </AlertDescription>
+                  )}
                 </Alert>
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-3 gap-4">
                   <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg flex items-center gap-3">
                     <CheckCircle className="h-5 w-5 text-green-500" />
                     <div><p className="text-2xl font-bold text-green-500">{tradeStats.inserted}</p><p className="text-xs text-muted-foreground">New Trades</p></div>
@@ -290,7 +571,41 @@ export default function ImportTrades() {
                     <AlertCircle className="h-5 w-5 text-yellow-500" />
                     <div><p className="text-2xl font-bold text-yellow-500">{tradeStats.duplicates}</p><p className="text-xs text-muted-foreground">Duplicates Skipped</p></div>
                   </div>
+                  <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-3">
+                    <XCircle className="h-5 w-5 text-red-500" />
+                    <div><p className="text-2xl font-bold text-red-500">{tradeStats.failed}</p><p className="text-xs text-muted-foreground">Failed</p></div>
+                  </div>
                 </div>
+                {failedChunks.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Some rows were not saved</AlertTitle>
+                    <AlertDescription className="space-y-2">
+                      <ul className="list-disc list-inside text-xs">
+                        {failedChunks.map(chunk => (
+                          <li key={chunk.index}>Batch {chunk.index + 1} ({chunk.trades.length} rows): {chunk.message}</li>
+                        ))}
+                      </ul>
+                      <Button size="sm" variant="outline" onClick={handleRetryFailed} disabled={tradeLoading}>
+                        {tradeLoading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Retrying...</> : <><RotateCw className="mr-2 h-4 w-4" />Retry Failed Rows</>}
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            )}
+            {legGroups && (
+              <div className="mt-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-sm font-semibold">Suggested Leg Groups</h3>
+                    <p className="text-xs text-muted-foreground">
+                      Legs opened together on the same underlying and expiry, with their later closing fills. Untick a group to skip it, or expand it to split legs off.
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={handleDismissLegGroups} disabled={groupingLoading}>Dismiss</Button>
+                </div>
+                <LegGroupingReview groups={legGroups} isApplying={groupingLoading} onApply={handleApplyLegGroups} />
               </div>
             )}
           </CardContent>
@@ -319,11 +634,19 @@ export default function ImportTrades() {
                   <AlertDescription>
                     <ul className="list-disc list-inside space-y-1 mt-2">
                       <li><strong>{positionStats.matched}</strong> open positions matched and updated with current prices.</li>
-                      <li><strong>{positionStats.unmatched}</strong> open trades not found in positions snapshot.</li>
+                      <li><strong>{positionStats.unmatched}</strong> open positions not found in the positions snapshot.</li>
                       <li><strong>{positionStats.updated}</strong> total database updates performed.</li>
                     </ul>
                   </AlertDescription>
                 </Alert>
+                {positionReconciliation && (
+                  <PositionReconciliationReport
+                    result={positionReconciliation}
+                    isWorking={reconcileWorking}
+                    onCreateOpenings={handleCreateOpenings}
+                    onClosePositions={handleClosePositions}
+                  />
+                )}
               </div>
             )}
             <Alert className="mt-6" variant="default">
@@ -331,16 +654,18 @@ export default function ImportTrades() {
               <AlertDescription>
                 The system analyzes your trade history to identify open positions, then matches them with your positions CSV:
                 <ul className="list-disc list-inside mt-2 space-y-1">
-                  <li>Identifies trades with net open quantities</li>
-                  <li>Matches by symbol using multiple strategies</li>
+                  <li>Matches opening and closing fills lot by lot to find what is still open</li>
+                  <li>Matches by symbol, then by instrument across symbol formats</li>
                   <li>Updates current market prices for accurate P&L</li>
-                  <li>Clears prices for positions no longer held</li>
+                  <li>Lists positions held on only one side, and quantity mismatches, for you to resolve</li>
                 </ul>
                 <strong>Check browser console for detailed matching logs.</strong>
               </AlertDescription>
             </Alert>
           </CardContent>
         </Card>
+
+        <NetLiqHistoryImportCard />
       </div>
     </DashboardLayout>
   );
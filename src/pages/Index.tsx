@@ -2,12 +2,16 @@ import { useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
-import { Activity, DollarSign, TrendingUp, Wallet, PieChart, PlusCircle, AlertTriangle, ArrowUpRight, ArrowDownLeft, ArrowDownRight, RefreshCw } from "lucide-react";
+import { Activity, DollarSign, TrendingUp, Wallet, PieChart, PlusCircle, AlertTriangle, ArrowUpRight, ArrowDownLeft, ArrowDownRight, RefreshCw, Percent } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Loader2 } from "lucide-react";
 import { DashboardChart } from "@/components/DashboardChart";
+import { DrawdownChart } from "@/components/DrawdownChart";
+import { ReturnsMatrix } from "@/components/ReturnsMatrix";
+import { GreeksCells, GreeksHeads } from "@/components/GreeksCells";
+import { UnderlyingPricesDialog } from "@/components/UnderlyingPricesDialog";
 import {
   Dialog,
   DialogContent,
@@ -19,9 +23,35 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { showSuccess, showError } from "@/utils/toast";
 import { Switch } from "@/components/ui/switch";
-import { format } from "date-fns";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { summarizePnl, type PnlTrade } from "@/utils/pnlEngine";
+import { fetchCapitalFlows, fetchNetLiqLogs } from "@/utils/accountHistory";
+import { buildPeriodReturns, periodPerformance, PERFORMANCE_PERIODS, type PerformancePeriod } from "@/utils/performance";
+import { riskMetrics, type RiskMetrics } from "@/utils/riskMetrics";
+import { buildReturnsMatrix, monthlyReturnsFromValues } from "@/utils/returnsMatrix";
+import { buildPositionLedger } from "@/utils/positionLedger";
+import { legGreeks, sumGreeks } from "@/utils/greeks";
+import { fetchUnderlyingPrices, openUnderlyings, priceValues, syncUnderlyingPrices } from "@/utils/underlyingPrices";
+
+// PostgREST caps responses at 1000 rows by default
+const TRADES_PAGE = 1000;
+const BENCHMARK_PAGE = 1000;
+
+const formatPct = (value: number | null | undefined) =>
+  value === null || value === undefined ? "-" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%`;
+
+const formatRatio = (value: number | null | undefined) =>
+  value === null || value === undefined ? "-" : value.toFixed(2);
 
 const Index = () => {
   const queryClient = useQueryClient();
@@ -31,6 +61,8 @@ const Index = () => {
   const [flowAmount, setFlowAmount] = useState("");
   const [flowType, setFlowType] = useState<'deposit' | 'withdrawal'>('deposit');
   const [showSpy, setShowSpy] = useState(false);
+  const [period, setPeriod] = useState<PerformancePeriod>('ALL');
+  const [isPricesOpen, setIsPricesOpen] = useState(false);
   
   // Date logic
   const today = new Date();
@@ -43,43 +75,35 @@ const Index = () => {
   // 1. Fetch Net Liquidity Logs
   const { data: netLiqLogs, isLoading: logsLoading } = useQuery({
     queryKey: ['net-liq-logs'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('net_liquidity_logs')
-        .select('*')
-        .order('date', { ascending: true });
-      if (error) throw error;
-      return data;
-    }
+    queryFn: fetchNetLiqLogs
   });
 
   // 2. Fetch Capital Flows (Deposits/Withdrawals)
   const { data: capitalFlows, isLoading: flowsLoading } = useQuery({
     queryKey: ['capital-flows'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('capital_flows')
-        .select('*')
-        .order('date', { ascending: true });
-      if (error) throw error;
-      return data;
-    }
+    queryFn: fetchCapitalFlows
   });
 
   // 3. Fetch SPY Benchmark Data
   const { data: spyData, isLoading: spyLoading } = useQuery({
     queryKey: ['spy-benchmark-dashboard'],
     queryFn: async () => {
-      // Get the earliest date we need (from logs)
-      // We fetch all available SPY data for simplicity and filter client-side
-      const { data, error } = await supabase
-        .from('benchmark_prices')
-        .select('*')
-        .eq('ticker', 'SPY')
-        .order('date', { ascending: true });
-      
-      if (error) throw error;
-      return data;
+      // We fetch all available SPY data for simplicity and filter client-side. Years of closes run past
+      // PostgREST's row cap, so it's paged.
+      const prices: { ticker: string; date: string; price: number }[] = [];
+      for (let page = 0; ; page++) {
+        const { data, error } = await supabase
+          .from('benchmark_prices')
+          .select('*')
+          .eq('ticker', 'SPY')
+          .order('date', { ascending: true })
+          .order('id', { ascending: true })
+          .range(page * BENCHMARK_PAGE, (page + 1) * BENCHMARK_PAGE - 1);
+        if (error) throw error;
+        prices.push(...(data || []));
+        if (!data || data.length < BENCHMARK_PAGE) break;
+      }
+      return prices;
     }
   });
 
@@ -87,40 +111,63 @@ const Index = () => {
   const { data: tradeStats, isLoading: statsLoading } = useQuery({
     queryKey: ['dashboard-stats-v2'],
     queryFn: async () => {
-      const { data: trades, error } = await supabase
-        .from('trades')
-        .select('*')
-        .eq('hidden', false)
-        .order('date', { ascending: true });
-      
-      if (error) throw error;
+      const allTrades: (PnlTrade & { hidden: boolean })[] = [];
+      for (let page = 0; ; page++) {
+        const { data, error } = await supabase
+          .from('trades')
+          .select('*')
+          .order('date', { ascending: true })
+          .order('id', { ascending: true })
+          .range(page * TRADES_PAGE, (page + 1) * TRADES_PAGE - 1);
+        if (error) throw error;
+        allTrades.push(...(data || []));
+        if (!data || data.length < TRADES_PAGE) break;
+      }
 
-      let winCount = 0;
-      let closeCount = 0;
-      let openCount = 0;
-
-      trades.forEach(trade => {
-        const actionUpper = trade.action.toUpperCase();
-        if (trade.mark_price !== null) {
-          openCount++;
-        } else if (actionUpper.includes('CLOSE') || actionUpper.includes('EXP')) {
-           closeCount++;
-           if (Number(trade.amount) > 0) winCount++;
-        }
-      });
-      
-      const winRate = closeCount > 0 
-        ? Math.round((winCount / closeCount) * 100) 
-        : 0;
+      // Hidden fills still open and close lots; they're only left out of what's shown
+      const ledger = buildPositionLedger(allTrades);
+      const trades = allTrades.filter(trade => !trade.hidden);
+      const summary = summarizePnl(trades, { ledger });
 
       return {
-        activePositions: openCount,
-        winRate,
+        activePositions: summary.openPositions,
+        winRate: Math.round(summary.winRate),
         tradeCount: trades.length,
+        trades,
+        ledger,
       };
     }
   });
 
+  const underlyings = useMemo(
+    () => tradeStats ? openUnderlyings(tradeStats.trades, tradeStats.ledger) : [],
+    [tradeStats]
+  );
+
+  const { data: underlyingPrices } = useQuery({
+    queryKey: ['underlying-prices', underlyings],
+    queryFn: () => fetchUnderlyingPrices(underlyings),
+    enabled: underlyings.length > 0
+  });
+
+  // Open legs' greeks netted per underlying, so stock and its options offset
+  const portfolioGreeks = useMemo(() => {
+    if (!tradeStats) return null;
+    const legs = Array.from(legGreeks(tradeStats.trades, tradeStats.ledger, priceValues(underlyingPrices)).values());
+    if (legs.length === 0) return null;
+
+    const byUnderlying = new Map<string, typeof legs>();
+    legs.forEach(leg => byUnderlying.set(leg.underlying, [...(byUnderlying.get(leg.underlying) || []), leg]));
+    return {
+      total: sumGreeks(legs),
+      rows: Array.from(byUnderlying.entries())
+        .map(([underlying, underlyingLegs]) => ({ underlying, legs: underlyingLegs.length, greeks: sumGreeks(underlyingLegs), price: underlyingPrices?.get(underlying) }))
+        .sort((a, b) => Math.abs(b.greeks.delta) - Math.abs(a.greeks.delta)),
+    };
+  }, [tradeStats, underlyingPrices]);
+
+  const unpricedUnderlyings = underlyings.filter(ticker => underlyingPrices && !underlyingPrices.has(ticker));
+
   // --- MUTATIONS ---
 
   const syncSpyMutation = useMutation({
@@ -136,10 +183,14 @@ const Index = () => {
         body: { tickers: ['SPY'], startDate }
       });
       if (error) throw error;
+
+      // Open positions' underlyings ride along, so distances to strike and greeks use recent closes
+      if (underlyings.length > 0) await syncUnderlyingPrices(underlyings);
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['spy-benchmark-dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['underlying-prices'] });
       showSuccess("Synced SPY data successfully");
     },
     onError: (err) => showError(err.message || "Failed to sync")
@@ -210,8 +261,8 @@ const Index = () => {
   const handleSaveFlow = () => flowMutation.mutate({ amount: flowAmount, type: flowType });
 
   // Calculate Chart Data & Metrics
-  const { chartData, currentNetLiq, totalPnL, pnlChangeToday, pnlChangePctToday, totalReturnPct } = useMemo(() => {
-    if (!netLiqLogs || netLiqLogs.length === 0) return { chartData: [], currentNetLiq: 0, totalPnL: 0, pnlChangeToday: 0, pnlChangePctToday: 0, totalReturnPct: 0 };
+  const { chartData, currentNetLiq, pnlChangeToday, pnlChangePctToday } = useMemo(() => {
+    if (!netLiqLogs || netLiqLogs.length === 0) return { chartData: [], currentNetLiq: 0, pnlChangeToday: 0, pnlChangePctToday: 0 };
 
     // 1. Prepare base map of logs
     const logsMap = new Map(netLiqLogs.map(l => [l.date, Number(l.amount)]));
@@ -220,33 +271,26 @@ const Index = () => {
     const latestDate = sortedDates[sortedDates.length - 1];
     const latestValue = logsMap.get(latestDate) || 0;
 
-    // 2. Aggregate Flows
     const initialCapital = logsMap.get(startDate) || 0;
-    const flowsAfterStart = capitalFlows?.filter(f => f.date > startDate).reduce((sum, f) => sum + Number(f.amount), 0) || 0;
-    
-    const totalInvested = initialCapital + flowsAfterStart;
-    const totalPnL = latestValue - totalInvested;
-    const totalReturnPct = totalInvested > 0 ? (totalPnL / totalInvested) * 100 : 0;
 
-    // 3. Calculate Change Since Last Update
+    // 2. Calculate Change Since Last Update
     let pnlChangeToday = 0;
     let pnlChangePctToday = 0;
     
     if (sortedDates.length >= 2) {
       const prevDate = sortedDates[sortedDates.length - 2];
       const prevValue = logsMap.get(prevDate) || 0;
-      const flowsOnLatestDate = capitalFlows?.filter(f => f.date === latestDate).reduce((sum, f) => sum + Number(f.amount), 0) || 0;
-      
-      // Calculate change in value, excluding flows on the latest date
-      pnlChangeToday = (latestValue - flowsOnLatestDate) - prevValue;
-      
-      // Calculate percentage change based on previous day's value
-      if (prevValue !== 0) {
-        pnlChangePctToday = (pnlChangeToday / prevValue) * 100;
-      }
+      const lastPeriod = buildPeriodReturns(
+        [{ date: prevDate, value: prevValue }, { date: latestDate, value: latestValue }],
+        capitalFlows || []
+      )[0];
+
+      // Change in value, excluding every flow since the previous update
+      pnlChangeToday = latestValue - prevValue - lastPeriod.flows;
+      pnlChangePctToday = lastPeriod.return * 100;
     }
 
-    // 4. Build Chart Data with Benchmark
+    // 3. Build Chart Data with Benchmark
     const data = netLiqLogs.map(log => {
       const date = log.date;
       const value = Number(log.amount);
@@ -272,7 +316,59 @@ const Index = () => {
       };
     });
 
-    return { chartData: data, currentNetLiq: latestValue, totalPnL, pnlChangeToday, pnlChangePctToday, totalReturnPct };
+    return { chartData: data, currentNetLiq: latestValue, pnlChangeToday, pnlChangePctToday };
+  }, [netLiqLogs, capitalFlows, spyData]);
+
+  // Time- and money-weighted returns for the selected period
+  const performance = useMemo(() => {
+    if (!netLiqLogs || netLiqLogs.length === 0) return null;
+    return periodPerformance(
+      netLiqLogs.map(log => ({ date: log.date, value: Number(log.amount) })),
+      (capitalFlows || []).map(flow => ({ date: flow.date, amount: Number(flow.amount) })),
+      period
+    );
+  }, [netLiqLogs, capitalFlows, period]);
+
+  // Risk statistics over the same period, for the account and for SPY over the same dates
+  const { portfolioRisk, spyRisk, drawdownData } = useMemo(() => {
+    if (!netLiqLogs || !performance) return { portfolioRisk: null, spyRisk: null, drawdownData: [] };
+
+    const { startDate, endDate } = performance;
+    const portfolioRisk = riskMetrics(
+      netLiqLogs.filter(log => log.date >= startDate).map(log => ({ date: log.date, value: Number(log.amount) })),
+      (capitalFlows || []).map(flow => ({ date: flow.date, amount: Number(flow.amount) }))
+    );
+    const spyRisk = riskMetrics(
+      (spyData || [])
+        .filter(d => d.date >= startDate && d.date <= endDate)
+        .map(d => ({ date: d.date, value: Number(d.price) }))
+    );
+
+    // SPY drawdown carried forward onto each log date
+    let spyIndex = -1;
+    const spyUnderwater = spyRisk?.underwater || [];
+    const drawdownData = (portfolioRisk?.underwater || []).map(point => {
+      while (spyIndex + 1 < spyUnderwater.length && spyUnderwater[spyIndex + 1].date <= point.date) spyIndex++;
+      return { ...point, benchmark: spyIndex >= 0 ? spyUnderwater[spyIndex].drawdown : undefined };
+    });
+
+    return { portfolioRisk, spyRisk, drawdownData };
+  }, [netLiqLogs, capitalFlows, spyData, performance]);
+
+  // Month-by-month returns over the whole history, with SPY over the same dates
+  const { returnRows, spyReturnRows } = useMemo(() => {
+    if (!netLiqLogs || netLiqLogs.length === 0) return { returnRows: [], spyReturnRows: [] };
+
+    const firstDate = netLiqLogs[0].date;
+    const lastDate = netLiqLogs[netLiqLogs.length - 1].date;
+    const returnRows = buildReturnsMatrix(monthlyReturnsFromValues(
+      netLiqLogs.map(log => ({ date: log.date, value: Number(log.amount) })),
+      (capitalFlows || []).map(flow => ({ date: flow.date, amount: Number(flow.amount) }))
+    ));
+    const spyReturnRows = buildReturnsMatrix(monthlyReturnsFromValues(
+      (spyData || []).filter(d => d.date >= firstDate && d.date <= lastDate).map(d => ({ date: d.date, value: Number(d.price) }))
+    ));
+    return { returnRows, spyReturnRows };
   }, [netLiqLogs, capitalFlows, spyData]);
 
   // Effect to auto-sync if data is missing for latest log (and showSpy is active)
@@ -294,6 +390,8 @@ const Index = () => {
     }
   }, [showSpy, netLiqLogs, spyData, syncSpyMutation, spyLoading]);
 
+  const periodLabel = PERFORMANCE_PERIODS.find(option => option.value === period)?.label;
+
   const loading = statsLoading || logsLoading || flowsLoading || spyLoading;
 
   // Check if today's entry exists
@@ -319,6 +417,16 @@ const Index = () => {
             <p className="text-muted-foreground">Overview of your trading performance.</p>
           </div>
           <div className="flex flex-wrap gap-2">
+             <Select value={period} onValueChange={(value) => setPeriod(value as PerformancePeriod)}>
+                <SelectTrigger className="w-[160px]">
+                   <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                   {PERFORMANCE_PERIODS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                   ))}
+                </SelectContent>
+             </Select>
              <Button onClick={() => setIsFlowOpen(true)} variant="outline">
                 <Wallet className="mr-2 h-4 w-4" /> Deposit / Withdraw
              </Button>
@@ -344,7 +452,7 @@ const Index = () => {
           </Alert>
         )}
 
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Net Liquidity</CardTitle>
@@ -369,16 +477,50 @@ const Index = () => {
           
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Growth</CardTitle>
+              <CardTitle className="text-sm font-medium">Growth ({periodLabel})</CardTitle>
               <TrendingUp className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className={ `text-2xl font-bold ${totalPnL >= 0 ? 'text-green-500' : 'text-red-500'}` }>
-                {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', signDisplay: "always" }).format(totalPnL)}
+              <div className={ `text-2xl font-bold ${(performance?.pnl || 0) >= 0 ? 'text-green-500' : 'text-red-500'}` }>
+                {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', signDisplay: "always" }).format(performance?.pnl || 0)}
               </div>
               <p className="text-base text-muted-foreground">
-                 {totalReturnPct.toFixed(2)}% Return (Adj. for deposits)
+                 {formatPct(performance?.twr)} time-weighted return
               </p>
+              {performance && (
+                <p className="text-xs text-muted-foreground">
+                  Since {performance.startDate}
+                  {performance.netFlows !== 0 && `, ${new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', signDisplay: "always", maximumFractionDigits: 0 }).format(performance.netFlows)} net deposits excluded`}
+                  {performance.partial && " (history starts later)"}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Annualized Return</CardTitle>
+              <Percent className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              {performance && performance.twrAnnualized !== null ? (
+                <>
+                  <div className={ `text-2xl font-bold ${performance.twrAnnualized >= 0 ? 'text-green-500' : 'text-red-500'}` }>
+                    {formatPct(performance.twrAnnualized)}
+                  </div>
+                  <p className="text-base text-muted-foreground">
+                    TWR, {formatPct(performance.xirr)} money-weighted (XIRR)
+                  </p>
+                </>
+              ) : (
+                <>
+                  <div className="text-2xl font-bold text-muted-foreground">n/a</div>
+                  <p className="text-base text-muted-foreground">
+                    {formatPct(performance?.mwr)} money-weighted over the period
+                  </p>
+                  <p className="text-xs text-muted-foreground">Returns under a year are not annualized.</p>
+                </>
+              )}
             </CardContent>
           </Card>
           
@@ -418,15 +560,152 @@ const Index = () => {
             </CardContent>
           </Card>
         </div>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Drawdown ({periodLabel})</CardTitle>
+              <CardDescription>Distance below the previous high, net of deposits and withdrawals.</CardDescription>
+            </CardHeader>
+            <CardContent className="pl-0">
+              <DrawdownChart data={drawdownData} benchmarkLabel={showSpy ? "SPY" : undefined} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Risk ({periodLabel})</CardTitle>
+              <CardDescription>
+                Annualized from {portfolioRisk?.observations || 0} flow-adjusted returns between Net Liquidity entries. Risk-free rate 0%.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {portfolioRisk ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Metric</TableHead>
+                      <TableHead className="text-right">Portfolio</TableHead>
+                      <TableHead className="text-right">SPY</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[
+                      { label: "CAGR", value: (risk: RiskMetrics | null) => formatPct(risk?.cagr) },
+                      { label: "Volatility", value: (risk: RiskMetrics | null) => formatPct(risk?.volatility).replace('+', '') },
+                      { label: "Sharpe", value: (risk: RiskMetrics | null) => formatRatio(risk?.sharpe) },
+                      { label: "Sortino", value: (risk: RiskMetrics | null) => formatRatio(risk?.sortino) },
+                      { label: "Calmar", value: (risk: RiskMetrics | null) => formatRatio(risk?.calmar) },
+                      { label: "Max Drawdown", value: (risk: RiskMetrics | null) => formatPct(risk?.maxDrawdown?.depth ?? (risk ? 0 : null)) },
+                      { label: "Current Drawdown", value: (risk: RiskMetrics | null) => formatPct(risk?.currentDrawdown) },
+                    ].map(row => (
+                      <TableRow key={row.label}>
+                        <TableCell className="text-sm">{row.label}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">{row.value(portfolioRisk)}</TableCell>
+                        <TableCell className="text-right font-mono text-sm text-muted-foreground">{row.value(spyRisk)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-sm text-muted-foreground py-6 text-center">Log Net Liquidity on at least three days to see risk statistics.</div>
+              )}
+              {portfolioRisk?.maxDrawdown && (
+                <p className="text-xs text-muted-foreground mt-3">
+                  Max drawdown peaked {portfolioRisk.maxDrawdown.peakDate}, bottomed {portfolioRisk.maxDrawdown.troughDate}
+                  {portfolioRisk.maxDrawdown.recoveryDate
+                    ? ` and recovered ${portfolioRisk.maxDrawdown.recoveryDate} (${differenceInCalendarDays(parseISO(portfolioRisk.maxDrawdown.recoveryDate), parseISO(portfolioRisk.maxDrawdown.peakDate))} days).`
+                    : ", not yet recovered."}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Portfolio Greeks</CardTitle>
+              <CardDescription>
+                Open positions in dollars: delta and gamma per point of the underlying, theta per day, vega per volatility point.
+                Implied volatility comes from each leg's last mark and the underlying's last stored close.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setIsPricesOpen(true)}>Prices</Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {portfolioGreeks ? (
+              <>
+                <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                  {[
+                    { label: 'Delta', value: portfolioGreeks.total.delta, unit: '/ pt' },
+                    { label: 'Gamma', value: portfolioGreeks.total.gamma, unit: '/ pt' },
+                    { label: 'Theta', value: portfolioGreeks.total.theta, unit: '/ day' },
+                    { label: 'Vega', value: portfolioGreeks.total.vega, unit: '/ vol pt' },
+                  ].map(({ label, value, unit }) => (
+                    <div key={label} className="rounded-md border p-3">
+                      <div className="text-xs text-muted-foreground">{label}</div>
+                      <div className={`text-xl font-bold font-mono ${label === 'Theta' ? (value >= 0 ? 'text-green-500' : 'text-red-500') : ''}`}>
+                        {value >= 0 ? '+' : ''}{value.toFixed(label === 'Gamma' ? 2 : 0)}
+                        <span className="text-xs font-normal text-muted-foreground ml-1">{unit}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Underlying</TableHead>
+                      <TableHead className="text-right">Last Close</TableHead>
+                      <TableHead className="text-right">Legs</TableHead>
+                      <GreeksHeads />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {portfolioGreeks.rows.map(row => (
+                      <TableRow key={row.underlying}>
+                        <TableCell className="font-medium">{row.underlying}</TableCell>
+                        <TableCell className="text-right font-mono text-xs">
+                          {row.price ? `${row.price.price.toFixed(2)} (${format(parseISO(row.price.date), 'MMM d')})` : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">{row.legs}</TableCell>
+                        <GreeksCells greeks={row.greeks} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            ) : (
+              <div className="text-sm text-muted-foreground text-center py-6">No open positions.</div>
+            )}
+            {unpricedUnderlyings.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                No stored price for {unpricedUnderlyings.join(', ')}; their option legs are left out.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Monthly Returns</CardTitle>
+            <CardDescription>Time-weighted returns by month, net of deposits and withdrawals, with SPY over the same dates.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ReturnsMatrix rows={returnRows} benchmarkRows={spyReturnRows} benchmarkLabel="SPY" />
+          </CardContent>
+        </Card>
       </div>
 
+      <UnderlyingPricesDialog open={isPricesOpen} onOpenChange={setIsPricesOpen} tickers={underlyings} prices={underlyingPrices} />
+
       {/* Net Liq Dialog */}
       <Dialog open={isEntryOpen} onOpenChange={setIsEntryOpen}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Update Net Liquidity</DialogTitle>
             <DialogDescription>
-              Enter your total account value (Net Liquidity) for today, {todayStr}.
+              Enter your total account value (Net Liquidity) for today, {todayStr}. Past days can be added or corrected in the <Link to="/ledger" className="underline">Ledger</Link>.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -458,7 +737,7 @@ const Index = () => {
           <DialogHeader>
             <DialogTitle>Capital Flow</DialogTitle>
             <DialogDescription>
-              Record a deposit or withdrawal. This ensures your performance metrics remain accurate.
+              Record a deposit or withdrawal. This ensures your performance metrics remain accurate. Deposits and withdrawals in imported tastytrade transaction files are recorded automatically. Backdated or mistyped flows can be fixed in the <Link to="/ledger" className="underline">Ledger</Link>.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -0,0 +1,431 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Pencil, Trash2, Check, X, Plus, ArrowDownLeft, ArrowUpRight } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { showSuccess, showError } from "@/utils/toast";
+import { cn } from "@/lib/utils";
+import {
+  fetchCapitalFlows,
+  fetchNetLiqLogs,
+  isDuplicateDateError,
+  type CapitalFlow,
+  type NetLiqLog,
+} from "@/utils/accountHistory";
+
+type LedgerTable = 'net_liquidity_logs' | 'capital_flows';
+
+interface EntryDraft {
+  date: string;
+  amount: string;
+  notes: string;
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const emptyDraft = (): EntryDraft => ({ date: format(new Date(), 'yyyy-MM-dd'), amount: "", notes: "" });
+
+const parseDraft = (draft: EntryDraft) => {
+  const amount = parseFloat(draft.amount);
+  if (!draft.date) throw new Error("Pick a date");
+  if (isNaN(amount)) throw new Error("Invalid amount");
+  return { date: draft.date, amount };
+};
+
+const Ledger = () => {
+  const queryClient = useQueryClient();
+  const [newNetLiq, setNewNetLiq] = useState<EntryDraft>(emptyDraft);
+  const [newFlow, setNewFlow] = useState<EntryDraft>(emptyDraft);
+  const [flowType, setFlowType] = useState<'deposit' | 'withdrawal'>('deposit');
+  const [editing, setEditing] = useState<{ table: LedgerTable; id: string; draft: EntryDraft } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<{ table: LedgerTable; id: string; label: string; imported: boolean } | null>(null);
+
+  const { data: netLiqLogs, isLoading: logsLoading } = useQuery({
+    queryKey: ['net-liq-logs'],
+    queryFn: fetchNetLiqLogs
+  });
+
+  const { data: capitalFlows, isLoading: flowsLoading } = useQuery({
+    queryKey: ['capital-flows'],
+    queryFn: fetchCapitalFlows
+  });
+
+  // Newest first, with the day-over-day change the dashboard would show for each log
+  const netLiqRows = useMemo(() => {
+    const logs = netLiqLogs || [];
+    return logs.map((log, index) => {
+      const previous = index > 0 ? Number(logs[index - 1].amount) : null;
+      const flows = previous === null ? 0 : (capitalFlows || [])
+        .filter(flow => flow.date > logs[index - 1].date && flow.date <= log.date)
+        .reduce((sum, flow) => sum + Number(flow.amount), 0);
+      return { log, change: previous === null ? null : Number(log.amount) - previous - flows };
+    }).reverse();
+  }, [netLiqLogs, capitalFlows]);
+
+  const flowRows = useMemo(() => [...(capitalFlows || [])].reverse(), [capitalFlows]);
+
+  const flowTotals = useMemo(() => (capitalFlows || []).reduce((totals, flow) => {
+    const amount = Number(flow.amount);
+    if (amount >= 0) totals.deposits += amount;
+    else totals.withdrawals += amount;
+    return totals;
+  }, { deposits: 0, withdrawals: 0 }), [capitalFlows]);
+
+  // The dashboard metrics and chart read these same queries, so they recalculate as soon as the ledger changes
+  const invalidateHistory = (table: LedgerTable) => {
+    queryClient.invalidateQueries({ queryKey: [table === 'net_liquidity_logs' ? 'net-liq-logs' : 'capital-flows'] });
+  };
+
+  // --- MUTATIONS ---
+
+  const addNetLiqMutation = useMutation({
+    mutationFn: async (draft: EntryDraft) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase
+        .from('net_liquidity_logs')
+        .upsert({ user_id: user.id, ...parseDraft(draft) }, { onConflict: 'user_id, date' });
+      if (error) throw error;
+    },
+    onSuccess: (_, draft) => {
+      invalidateHistory('net_liquidity_logs');
+      setNewNetLiq(emptyDraft());
+      showSuccess(`Net Liquidity saved for ${draft.date}`);
+    },
+    onError: (err) => showError(err.message)
+  });
+
+  const addFlowMutation = useMutation({
+    mutationFn: async ({ draft, type }: { draft: EntryDraft; type: 'deposit' | 'withdrawal' }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { date, amount } = parseDraft(draft);
+      const { error } = await supabase
+        .from('capital_flows')
+        .insert({
+          user_id: user.id,
+          date,
+          amount: type === 'deposit' ? Math.abs(amount) : -Math.abs(amount),
+          notes: draft.notes.trim() || null,
+        });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateHistory('capital_flows');
+      setNewFlow(emptyDraft());
+      showSuccess("Capital flow recorded");
+    },
+    onError: (err) => showError(err.message)
+  });
+
+  const updateEntryMutation = useMutation({
+    mutationFn: async ({ table, id, draft }: { table: LedgerTable; id: string; draft: EntryDraft }) => {
+      const values = parseDraft(draft);
+      const { error } = await supabase
+        .from(table)
+        .update(table === 'capital_flows' ? { ...values, notes: draft.notes.trim() || null } : values)
+        .eq('id', id);
+      if (isDuplicateDateError(error)) throw new Error(`There is already a Net Liquidity entry for ${values.date}. Edit or delete that one instead.`);
+      if (error) throw error;
+    },
+    onSuccess: (_, { table }) => {
+      invalidateHistory(table);
+      setEditing(null);
+      showSuccess("Entry updated");
+    },
+    onError: (err) => showError(err.message)
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async ({ table, id }: { table: LedgerTable; id: string }) => {
+      const { error } = await supabase.from(table).delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { table }) => {
+      invalidateHistory(table);
+      setPendingDelete(null);
+      showSuccess("Entry deleted");
+    },
+    onError: (err) => {
+      showError(err.message);
+      setPendingDelete(null);
+    }
+  });
+
+  const startEdit = (table: LedgerTable, entry: NetLiqLog | CapitalFlow) => setEditing({
+    table,
+    id: entry.id,
+    draft: { date: entry.date, amount: String(entry.amount), notes: 'notes' in entry ? entry.notes || "" : "" },
+  });
+
+  const updateDraft = (changes: Partial<EntryDraft>) => setEditing(prev => prev && { ...prev, draft: { ...prev.draft, ...changes } });
+
+  const isEditing = (table: LedgerTable, id: string) => editing?.table === table && editing.id === id;
+
+  if (logsLoading || flowsLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-[50vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const editActions = (
+    <div className="flex justify-end gap-1">
+      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => editing && updateEntryMutation.mutate(editing)} disabled={updateEntryMutation.isPending} title="Save">
+        {updateEntryMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4 text-green-500" />}
+      </Button>
+      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditing(null)} title="Cancel">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <DashboardLayout>
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this entry?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete {pendingDelete?.label}.
+              {pendingDelete?.imported && " It was imported from a transaction file, so importing that file again will add it back."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteEntryMutation.mutate(pendingDelete)}
+              disabled={deleteEntryMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteEntryMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Ledger</h2>
+          <p className="text-muted-foreground">Every Net Liquidity entry and capital flow behind the dashboard. Fix typos, backfill missed days and annotate deposits.</p>
+        </div>
+
+        <div className="grid gap-6 xl:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Net Liquidity</CardTitle>
+              <CardDescription>{netLiqRows.length} daily entries. Change excludes deposits and withdrawals since the previous entry.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="netliq-date">Date</Label>
+                  <Input id="netliq-date" type="date" className="w-[160px]" value={newNetLiq.date} onChange={(e) => setNewNetLiq({ ...newNetLiq, date: e.target.value })} />
+                </div>
+                <div className="space-y-1 flex-1 min-w-[140px]">
+                  <Label htmlFor="netliq-amount">Amount ($)</Label>
+                  <Input id="netliq-amount" type="number" placeholder="e.g. 10500.50" value={newNetLiq.amount} onChange={(e) => setNewNetLiq({ ...newNetLiq, amount: e.target.value })} />
+                </div>
+                <Button onClick={() => addNetLiqMutation.mutate(newNetLiq)} disabled={addNetLiqMutation.isPending || !newNetLiq.amount || !newNetLiq.date}>
+                  {addNetLiqMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                  Add
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Adding a value for a day that already has one replaces it.</p>
+
+              <div className="max-h-[600px] overflow-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                      <TableHead className="w-[90px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {netLiqRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground py-6">No Net Liquidity entries yet.</TableCell>
+                      </TableRow>
+                    ) : netLiqRows.map(({ log, change }) => isEditing('net_liquidity_logs', log.id) && editing ? (
+                      <TableRow key={log.id}>
+                        <TableCell>
+                          <Input type="date" className="h-8 w-[150px]" value={editing.draft.date} onChange={(e) => updateDraft({ date: e.target.value })} />
+                        </TableCell>
+                        <TableCell>
+                          <Input type="number" className="h-8 text-right" value={editing.draft.amount} onChange={(e) => updateDraft({ amount: e.target.value })} autoFocus />
+                        </TableCell>
+                        <TableCell />
+                        <TableCell>{editActions}</TableCell>
+                      </TableRow>
+                    ) : (
+                      <TableRow key={log.id}>
+                        <TableCell className="text-sm">{format(parseISO(log.date), 'MMM d, yyyy')}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">{formatCurrency(Number(log.amount))}</TableCell>
+                        <TableCell className={cn("text-right font-mono text-xs", change === null ? "text-muted-foreground" : change >= 0 ? "text-green-500" : "text-red-500")}>
+                          {change === null ? "-" : formatCurrency(change)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => startEdit('net_liquidity_logs', log)} title="Edit">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8 text-destructive hover:text-destructive"
+                              onClick={() => setPendingDelete({ table: 'net_liquidity_logs', id: log.id, label: `the Net Liquidity entry for ${log.date}`, imported: false })}
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Deposits & Withdrawals</CardTitle>
+              <CardDescription>
+                {formatCurrency(flowTotals.deposits)} deposited, {formatCurrency(Math.abs(flowTotals.withdrawals))} withdrawn.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Button type="button" size="sm" variant={flowType === 'deposit' ? 'default' : 'outline'} className="flex-1" onClick={() => setFlowType('deposit')}>
+                  <ArrowDownLeft className="mr-2 h-4 w-4" /> Deposit
+                </Button>
+                <Button type="button" size="sm" variant={flowType === 'withdrawal' ? 'default' : 'outline'} className="flex-1" onClick={() => setFlowType('withdrawal')}>
+                  <ArrowUpRight className="mr-2 h-4 w-4" /> Withdraw
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="flow-date">Date</Label>
+                  <Input id="flow-date" type="date" className="w-[160px]" value={newFlow.date} onChange={(e) => setNewFlow({ ...newFlow, date: e.target.value })} />
+                </div>
+                <div className="space-y-1 w-[130px]">
+                  <Label htmlFor="flow-amount">Amount ($)</Label>
+                  <Input id="flow-amount" type="number" placeholder="e.g. 5000" value={newFlow.amount} onChange={(e) => setNewFlow({ ...newFlow, amount: e.target.value })} />
+                </div>
+                <div className="space-y-1 flex-1 min-w-[140px]">
+                  <Label htmlFor="flow-notes">Notes</Label>
+                  <Input id="flow-notes" placeholder="Optional" value={newFlow.notes} onChange={(e) => setNewFlow({ ...newFlow, notes: e.target.value })} />
+                </div>
+                <Button onClick={() => addFlowMutation.mutate({ draft: newFlow, type: flowType })} disabled={addFlowMutation.isPending || !newFlow.amount || !newFlow.date}>
+                  {addFlowMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                  Add
+                </Button>
+              </div>
+
+              <div className="max-h-[600px] overflow-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Notes</TableHead>
+                      <TableHead className="w-[90px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {flowRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground py-6">No deposits or withdrawals recorded.</TableCell>
+                      </TableRow>
+                    ) : flowRows.map(flow => isEditing('capital_flows', flow.id) && editing ? (
+                      <TableRow key={flow.id}>
+                        <TableCell>
+                          <Input type="date" className="h-8 w-[150px]" value={editing.draft.date} onChange={(e) => updateDraft({ date: e.target.value })} />
+                        </TableCell>
+                        <TableCell>
+                          <Input type="number" className="h-8 text-right" value={editing.draft.amount} onChange={(e) => updateDraft({ amount: e.target.value })} title="Negative for a withdrawal" autoFocus />
+                        </TableCell>
+                        <TableCell>
+                          <Input className="h-8" value={editing.draft.notes} onChange={(e) => updateDraft({ notes: e.target.value })} placeholder="Notes" />
+                        </TableCell>
+                        <TableCell>{editActions}</TableCell>
+                      </TableRow>
+                    ) : (
+                      <TableRow key={flow.id}>
+                        <TableCell className="text-sm whitespace-nowrap">{format(parseISO(flow.date), 'MMM d, yyyy')}</TableCell>
+                        <TableCell className={cn("text-right font-mono text-sm", Number(flow.amount) >= 0 ? "text-green-500" : "text-red-500")}>
+                          {formatCurrency(Number(flow.amount))}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          <div className="flex items-center gap-2">
+                            {flow.import_hash && <Badge variant="outline" className="text-[10px]">Imported</Badge>}
+                            <span className="truncate max-w-[200px]" title={flow.notes || undefined}>{flow.notes}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => startEdit('capital_flows', flow)} title="Edit">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8 text-destructive hover:text-destructive"
+                              onClick={() => setPendingDelete({
+                                table: 'capital_flows',
+                                id: flow.id,
+                                label: `the ${formatCurrency(Number(flow.amount))} ${Number(flow.amount) >= 0 ? 'deposit' : 'withdrawal'} on ${flow.date}`,
+                                imported: !!flow.import_hash,
+                              })}
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Ledger;
@@ -7,8 +7,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Loader2, TrendingUp, AlertCircle, ChevronDown, ChevronRight, Pencil, Link as LinkIcon, CalendarDays } from "lucide-react";
-import { format, differenceInCalendarDays, parse } from "date-fns";
+import { Loader2, TrendingUp, AlertCircle, AlertTriangle, ChevronDown, ChevronRight, Pencil, Link as LinkIcon, CalendarDays, LineChart } from "lucide-react";
+import { format, differenceInCalendarDays, parseISO } from "date-fns";
 import { cn } from "@/lib/utils";
 import {
   Dialog,
@@ -20,7 +20,19 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { showSuccess, showError } from "@/utils/toast";
+import { parseInstrument } from "@/utils/instrument";
+import { buildPositionLedger, isTradeOpen, openMarketValue, type PositionLedger } from "@/utils/positionLedger";
+import { groupPositions, tradeStatistics } from "@/utils/pnlEngine";
+import { buildPnlPath, excursions, fetchMarkSnapshots, groupSnapshotsByTrade, type PnlPoint } from "@/utils/markSnapshots";
+import { PnlSparkline } from "@/components/PnlSparkline";
+import { GreeksCells, GreeksHeads, GreeksSummary } from "@/components/GreeksCells";
+import { UnderlyingPricesDialog } from "@/components/UnderlyingPricesDialog";
+import { greeksOf, legGreeks, type LegGreeks } from "@/utils/greeks";
+import { fetchUnderlyingPrices, openUnderlyings, priceValues } from "@/utils/underlyingPrices";
+import { nearestShortPut, shortPutDistances, type ShortPutDistance } from "@/utils/strikeDistance";
+import { linkRollChains, rollChainTotals, type RollChainLink, type RollChainTotals } from "@/utils/rollChains";
 
 // --- Types ---
 interface Trade {
@@ -35,6 +47,8 @@ interface Trade {
   multiplier: number;
   mark_price: number | null;
   pair_id: string | null;
+  order_id: string | null;
+  hidden: boolean;
 }
 
 interface TradeGroup {
@@ -56,51 +70,12 @@ interface TradeGroup {
   };
 }
 
-// --- Helpers ---
-
-const parseOptionDetails = (symbol: string) => {
-  try {
-    const clean = symbol.trim().toUpperCase();
-    const match = clean.match(/^([A-Z]+)\s+(\d{6})([CP])(\d+(\.\d+)?)$/);
-    
-    if (match) {
-      const dateStr = match[2]; 
-      const typeStr = match[3]; 
-      const strikeStr = match[4]; 
-      
-      const expiration = parse(dateStr, 'yyMMdd', new Date());
-      let strike = parseFloat(strikeStr);
-      if (strikeStr.length === 8 && strike > 10000) strike = strike / 1000;
-
-      return {
-        expiration,
-        type: typeStr === 'P' ? 'PUT' : 'CALL',
-        strike
-      };
-    }
-    
-    if (clean.includes(':')) {
-       const parts = clean.split(':');
-       if (parts.length >= 4) {
-          return {
-             expiration: new Date(parts[1]),
-             strike: parseFloat(parts[2]),
-             type: parts[3] === 'P' ? 'PUT' : 'CALL'
-          }
-       }
-    }
-  } catch (e) {
-    return null;
-  }
-  return null;
-};
-
-
 export default function PutCamp() {
   const queryClient = useQueryClient();
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
   const [isEditNetLiqOpen, setIsEditNetLiqOpen] = useState(false);
   const [newNetLiq, setNewNetLiq] = useState("");
+  const [isPricesOpen, setIsPricesOpen] = useState(false);
 
   const { data: strategy } = useQuery({
     queryKey: ['strategy-put-camp'],
@@ -116,7 +91,7 @@ export default function PutCamp() {
     }
   });
 
-  const { data: trades, isLoading } = useQuery({
+  const { data: fills, isLoading } = useQuery({
     queryKey: ['trades-put-camp', strategy?.id],
     queryFn: async () => {
       if (!strategy?.id) return [];
@@ -124,7 +99,6 @@ export default function PutCamp() {
         .from('trades')
         .select('*')
         .eq('strategy_id', strategy.id)
-        .eq('hidden', false)
         .order('date', { ascending: false });
       
       if (error) throw error;
@@ -133,6 +107,14 @@ export default function PutCamp() {
     enabled: !!strategy?.id
   });
 
+  const trades = useMemo(() => fills?.filter(t => !t.hidden), [fills]);
+
+  const { data: snapshotsByTrade } = useQuery({
+    queryKey: ['mark-snapshots', strategy?.id],
+    queryFn: async () => groupSnapshotsByTrade(await fetchMarkSnapshots((trades || []).map(t => t.id))),
+    enabled: !!trades && trades.length > 0
+  });
+
   const updateCapitalMutation = useMutation({
     mutationFn: async (newCapital: number) => {
         if (!strategy?.id) throw new Error("No strategy ID");
@@ -151,93 +133,81 @@ export default function PutCamp() {
     onError: (err) => showError(err.message)
   });
 
-  const groups = useMemo(() => {
-    if (!trades) return [];
+  // Hidden fills still open and close lots; they're only left out of what's shown
+  const ledger = useMemo(() => buildPositionLedger(fills || []), [fills]);
 
-    const grouped: Record<string, TradeGroup> = {};
+  const positions = useMemo(() => groupPositions(trades || [], ledger), [trades, ledger]);
 
-    trades.forEach(trade => {
-      const groupId = trade.pair_id || trade.id;
-      
-      if (!grouped[groupId]) {
-        grouped[groupId] = {
-          id: groupId,
-          isPair: !!trade.pair_id,
-          trades: [],
-          summary: {
-            openDate: trade.date,
-            closeDate: null,
-            symbol: trade.symbol,
-            totalAmount: 0,
-            totalMarketValue: 0,
-            totalPnl: 0,
-            isOpen: false,
-            initialCredit: 0,
-            strike: 0,
-            expiration: undefined,
-            type: 'OTHER'
-          }
-        };
-      }
-      grouped[groupId].trades.push(trade);
-    });
+  const underlyings = useMemo(() => openUnderlyings(trades || [], ledger), [trades, ledger]);
 
-    return Object.values(grouped).map(group => {
-      group.trades.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-      
-      const openDate = group.trades[0].date;
-      const lastTradeDate = group.trades[group.trades.length - 1].date;
-      
-      let totalAmount = 0;
-      let totalMarketValue = 0;
-      let isOpen = false;
-      let initialCredit = 0;
-      
-      const parsed = parseOptionDetails(group.trades[0].symbol);
-      const strike = parsed?.strike || 0;
-      const expiration = parsed?.expiration;
-      const type = (parsed?.type || 'OTHER') as 'PUT' | 'CALL' | 'OTHER';
-
-      group.trades.forEach(trade => {
-        const amount = Number(trade.amount); 
-        totalAmount += amount;
-        
-        if (amount > 0) initialCredit += amount;
-
-        if (trade.mark_price !== null) {
-           isOpen = true;
-           const cleanMark = Math.abs(trade.mark_price);
-           const qty = trade.quantity;
-           const mult = trade.multiplier;
-           const actionUpper = trade.action.toUpperCase();
-           const isShort = actionUpper.includes('SELL') || actionUpper.includes('SHORT');
-           const sign = isShort ? -1 : 1;
-           
-           totalMarketValue += (cleanMark * qty * mult * sign);
-        }
-      });
+  const { data: underlyingPrices } = useQuery({
+    queryKey: ['underlying-prices', underlyings],
+    queryFn: () => fetchUnderlyingPrices(underlyings),
+    enabled: underlyings.length > 0
+  });
+
+  const greeksByLeg = useMemo(
+    () => legGreeks(trades || [], ledger, priceValues(underlyingPrices)),
+    [trades, ledger, underlyingPrices]
+  );
 
-      const totalPnl = totalMarketValue + totalAmount;
+  const strikeDistances = useMemo(
+    () => shortPutDistances(trades || [], ledger, underlyingPrices || new Map()),
+    [trades, ledger, underlyingPrices]
+  );
+
+  const itmPositions = useMemo(() => positions
+    .filter(position => position.isOpen)
+    .map(position => nearestShortPut(position.trades, strikeDistances))
+    .filter((distance): distance is ShortPutDistance => distance?.status === 'ITM'),
+    [positions, strikeDistances]
+  );
+
+  const groups = useMemo(() => {
+    return positions.map((position): TradeGroup => {
+      const instrument = parseInstrument(position.trades[0].symbol);
 
       return {
-        ...group,
+        id: position.id,
+        isPair: position.isPair,
+        trades: position.trades,
         summary: {
-          openDate,
-          closeDate: isOpen ? null : lastTradeDate,
-          symbol: group.trades[0].symbol, 
-          totalAmount,
-          totalMarketValue,
-          totalPnl,
-          isOpen,
-          initialCredit,
-          strike,
-          expiration,
-          type
+          openDate: position.openDate,
+          closeDate: position.closeDate,
+          symbol: position.trades[0].symbol,
+          totalAmount: position.cash,
+          totalMarketValue: position.marketValue,
+          totalPnl: position.totalPnl,
+          isOpen: position.isOpen,
+          initialCredit: position.credit,
+          strike: instrument.strike || 0,
+          expiration: instrument.expiry ? parseISO(instrument.expiry) : undefined,
+          type: instrument.right === 'P' ? 'PUT' : instrument.right === 'C' ? 'CALL' : 'OTHER'
         }
       };
-    }).sort((a, b) => new Date(b.summary.openDate).getTime() - new Date(a.summary.openDate).getTime());
-  }, [trades]);
+    });
+  }, [positions]);
+
+  // P&L path of each position from its mark snapshots, ending at today's (or the final) P&L
+  const pnlPaths = useMemo(() => {
+    const paths = new Map<string, { path: PnlPoint[]; mae: number; mfe: number }>();
+    const today = format(new Date(), 'yyyy-MM-dd');
+    groups.forEach(group => {
+      const current = {
+        date: group.summary.closeDate ? format(new Date(group.summary.closeDate), 'yyyy-MM-dd') : today,
+        pnl: group.summary.totalPnl
+      };
+      const path = buildPnlPath(group.trades, snapshotsByTrade || new Map(), current);
+      paths.set(group.id, { path, ...excursions(path) });
+    });
+    return paths;
+  }, [groups, snapshotsByTrade]);
 
+  const rollChains = useMemo(() => {
+    const links = linkRollChains(groups);
+    const totals = rollChainTotals(groups, links, g => g.summary.totalAmount, g => g.summary.totalPnl);
+    return { links, totals };
+  }, [groups]);
 
   const metrics = useMemo(() => {
     if (!strategy || groups.length === 0) return null;
@@ -249,12 +219,7 @@ export default function PutCamp() {
     const totalClosed = closedGroups.length;
     const totalOpen = openGroups.length;
 
-    const wins = closedGroups.filter(g => g.summary.totalPnl > 0);
-    const losses = closedGroups.filter(g => g.summary.totalPnl <= 0);
-    
-    const totalWins = wins.length;
-    const totalLosses = losses.length;
-    const winRate = totalClosed > 0 ? (totalWins / totalClosed) * 100 : 0;
+    const { wins: totalWins, losses: totalLosses, winRate, averageWin: avgWinner, averageLoss: avgLoser } = tradeStatistics(positions);
 
     const runningPnl = groups.reduce((sum, g) => sum + g.summary.totalPnl, 0); 
     const allocatedCap = Number(strategy.capital_allocation) || 0;
@@ -263,11 +228,6 @@ export default function PutCamp() {
     const totalCredit = groups.reduce((sum, g) => sum + g.summary.initialCredit, 0);
     const avgCredit = totalTrades > 0 ? totalCredit / totalTrades : 0;
 
-    const totalWinAmt = wins.reduce((sum, g) => sum + g.summary.totalPnl, 0);
-    const totalLossAmt = losses.reduce((sum, g) => sum + g.summary.totalPnl, 0);
-    const avgWinner = totalWins > 0 ? totalWinAmt / totalWins : 0;
-    const avgLoser = totalLosses > 0 ? totalLossAmt / totalLosses : 0;
-
     const totalNV = openGroups.reduce((sum, g) => {
        const qty = g.trades[0]?.quantity || 0;
        const mult = g.trades[0]?.multiplier || 100;
@@ -279,8 +239,6 @@ export default function PutCamp() {
 
     let totalDTE = 0;
     let dteCount = 0;
-    let totalDIT = 0;
-    let ditCount = 0;
 
     groups.forEach(g => {
        if (g.summary.expiration) {
@@ -293,18 +251,19 @@ export default function PutCamp() {
        }
     });
 
-    closedGroups.forEach(g => {
-       if (g.summary.closeDate) {
-          const entry = new Date(g.summary.openDate);
-          const close = new Date(g.summary.closeDate);
-          const dit = differenceInCalendarDays(close, entry);
-          totalDIT += (dit < 1 ? 1 : dit); 
-          ditCount++;
-       }
-    });
+    const closedPositions = positions.filter(p => !p.isOpen);
+    const totalDIT = closedPositions.reduce((sum, p) => sum + p.daysInTrade, 0);
+
+    // Max adverse loss still at risk: the worst marked P&L each open position has seen
+    const totalMAL = openGroups.reduce((sum, g) => sum + (pnlPaths.get(g.id)?.mae || 0), 0);
+
+    const capturedGroups = closedGroups.filter(g => g.summary.initialCredit > 0);
+    const avgCapPct = capturedGroups.length > 0
+      ? capturedGroups.reduce((sum, g) => sum + (g.summary.totalPnl / g.summary.initialCredit) * 100, 0) / capturedGroups.length
+      : 0;
 
     const avgDTE = dteCount > 0 ? totalDTE / dteCount : 0;
-    const avgDIT = ditCount > 0 ? totalDIT / ditCount : 0;
+    const avgDIT = closedPositions.length > 0 ? totalDIT / closedPositions.length : 0;
 
     let peak = 0;
     let currentEquity = 0;
@@ -337,12 +296,13 @@ export default function PutCamp() {
        runningPnl, netLiq,
        avgCredit, avgWinner, avgLoser,
        avgDTE, avgDIT,
+       totalMAL, avgCapPct,
        netLiqDD: maxDD * 100,
        allocatedCap,
        annualizedROR,
        daysSinceStart
     };
-  }, [groups, strategy]);
+  }, [groups, positions, strategy, pnlPaths]);
 
   const toggleGroup = (id: string) => {
     setExpandedGroups(prev => {
@@ -435,8 +395,8 @@ export default function PutCamp() {
                <MetricBox label="Avg Credit" value={formatMoney(metrics.avgCredit)} />
                <MetricBox label="Avg Winner" value={formatMoney(metrics.avgWinner)} />
                <MetricBox label="Avg Loser" value={formatMoney(metrics.avgLoser)} />
-               <MetricBox label="Avg Cap%" value="--" />
-               <MetricBox label="Total MAL" value="--" />
+               <MetricBox label="Avg Cap%" value={`${metrics.avgCapPct.toFixed(1)}%`} />
+               <MetricBox label="Total MAL" value={formatMoney(metrics.totalMAL)} className={metrics.totalMAL < 0 ? "text-red-600 dark:text-red-400" : ""} />
                <MetricBox label="VIX/VIX3M" value="--" />
             </div>
 
@@ -466,9 +426,25 @@ export default function PutCamp() {
         )}
 
         <div className="space-y-4">
+           {itmPositions.length > 0 && (
+              <Alert variant="destructive">
+                 <AlertTriangle className="h-4 w-4" />
+                 <AlertTitle>{itmPositions.length} short {itmPositions.length === 1 ? 'put is' : 'puts are'} in the money</AlertTitle>
+                 <AlertDescription>
+                    {itmPositions.map(distance => `${distance.underlying} ${distance.strike}P at ${distance.price.toFixed(2)} (${distance.distancePct.toFixed(1)}%)`).join(' · ')}
+                 </AlertDescription>
+              </Alert>
+           )}
+
            <Card>
-              <CardHeader className="py-3 bg-muted/20">
+              <CardHeader className="py-3 bg-muted/20 flex-row items-center justify-between space-y-0 gap-4">
                  <CardTitle className="text-base">Open Positions</CardTitle>
+                 <div className="flex items-center gap-4">
+                    <GreeksSummary greeks={greeksOf(trades || [], greeksByLeg)} unpriced={underlyings.filter(ticker => underlyingPrices && !underlyingPrices.has(ticker))} />
+                    <Button variant="outline" size="sm" onClick={() => setIsPricesOpen(true)}>
+                       <LineChart className="mr-2 h-4 w-4" /> Prices
+                    </Button>
+                 </div>
               </CardHeader>
               <CardContent className="p-0">
                  <TradeGroupTable 
@@ -476,6 +452,11 @@ export default function PutCamp() {
                     expanded={expandedGroups} 
                     toggle={toggleGroup}
                     formatMoney={formatMoney}
+                    rollChains={rollChains}
+                    ledger={ledger}
+                    pnlPaths={pnlPaths}
+                    greeksByLeg={greeksByLeg}
+                    strikeDistances={strikeDistances}
                  />
               </CardContent>
            </Card>
@@ -490,12 +471,17 @@ export default function PutCamp() {
                     expanded={expandedGroups} 
                     toggle={toggleGroup}
                     formatMoney={formatMoney}
+                    rollChains={rollChains}
+                    ledger={ledger}
+                    pnlPaths={pnlPaths}
                  />
               </CardContent>
            </Card>
         </div>
       </div>
 
+      <UnderlyingPricesDialog open={isPricesOpen} onOpenChange={setIsPricesOpen} tickers={underlyings} prices={underlyingPrices} />
+
       <Dialog open={isEditNetLiqOpen} onOpenChange={setIsEditNetLiqOpen}>
         <DialogContent>
           <DialogHeader>
@@ -538,7 +524,21 @@ const MetricBox = ({ label, value, className, onEdit }: { label: string, value:
   </div>
 );
 
-const TradeGroupTable = ({ groups, expanded, toggle, formatMoney }: any) => {
+interface TradeGroupTableProps {
+  groups: TradeGroup[];
+  expanded: Set<string>;
+  toggle: (id: string) => void;
+  formatMoney: (val: number) => string;
+  rollChains: { links: Map<string, RollChainLink>; totals: Map<string, RollChainTotals> };
+  ledger: PositionLedger;
+  pnlPaths: Map<string, { path: PnlPoint[]; mae: number; mfe: number }>;
+  // Only the open positions table shows greeks and strike distances
+  greeksByLeg?: Map<string, LegGreeks>;
+  strikeDistances?: Map<string, ShortPutDistance>;
+}
+
+const TradeGroupTable = ({ groups, expanded, toggle, formatMoney, rollChains, ledger, pnlPaths, greeksByLeg, strikeDistances }: TradeGroupTableProps) => {
+   const columnCount = 9 + (greeksByLeg ? 4 : 0) + (strikeDistances ? 3 : 0);
    if (groups.length === 0) return <div className="p-4 text-center text-sm text-muted-foreground">No trades found.</div>;
 
    return (
@@ -551,21 +551,35 @@ const TradeGroupTable = ({ groups, expanded, toggle, formatMoney }: any) => {
                <TableHead className="text-right">Net Credit</TableHead>
                <TableHead className="text-right">Market Val</TableHead>
                <TableHead className="text-right">P&L</TableHead>
+               {strikeDistances && (
+                  <>
+                     <TableHead className="text-right">Underlying</TableHead>
+                     <TableHead className="text-right" title="How far the underlying can fall before the short put is in the money">To Strike</TableHead>
+                     <TableHead className="text-right" title="Strike over underlying price">Moneyness</TableHead>
+                  </>
+               )}
                <TableHead className="text-right">% Cap</TableHead>
+               <TableHead className="text-center">P&L Path</TableHead>
+               <TableHead className="text-right">Roll Chain</TableHead>
+               {greeksByLeg && <GreeksHeads />}
             </TableRow>
          </TableHeader>
          <TableBody>
-            {groups.map((group: TradeGroup) => {
+            {groups.map(group => {
                const isExpanded = expanded.has(group.id);
                const pctCaptured = group.summary.initialCredit > 0 
                   ? (group.summary.totalPnl / group.summary.initialCredit) * 100 
                   : 0;
+               const chain = rollChains.links.get(group.id);
+               const chainTotals = rollChains.totals.get(group.id);
+               const pnlPath = pnlPaths.get(group.id);
+               const shortPut = strikeDistances ? nearestShortPut(group.trades, strikeDistances) : undefined;
 
                return (
                   <>
                      <TableRow 
                         key={group.id} 
-                        className={cn("cursor-pointer hover:bg-muted/50", isExpanded && "bg-muted/20 border-b-0")}
+                        className={cn("cursor-pointer hover:bg-muted/50", isExpanded && "bg-muted/20 border-b-0", shortPut?.status === 'ITM' && "bg-red-50 dark:bg-red-900/20")}
                         onClick={() => toggle(group.id)}
                      >
                         <TableCell className="p-2 text-center">
@@ -576,6 +590,7 @@ const TradeGroupTable = ({ groups, expanded, toggle, formatMoney }: any) => {
                            <div className="flex items-center gap-2">
                               {group.summary.symbol}
                               {group.isPair && <LinkIcon className="h-3 w-3 text-muted-foreground" />}
+                              {chain && <Badge variant="outline" className="text-[10px]">Roll {chain.position}/{chain.groupIds.length}</Badge>}
                            </div>
                         </TableCell>
                         <TableCell className="text-right font-mono">{formatMoney(group.summary.totalAmount)}</TableCell>
@@ -583,18 +598,62 @@ const TradeGroupTable = ({ groups, expanded, toggle, formatMoney }: any) => {
                         <TableCell className={cn("text-right font-bold font-mono", group.summary.totalPnl >= 0 ? "text-green-600" : "text-red-600")}>
                            {formatMoney(group.summary.totalPnl)}
                         </TableCell>
+                        {strikeDistances && (
+                           shortPut ? (
+                              <>
+                                 <TableCell className="text-right font-mono" title={`Close of ${format(parseISO(shortPut.priceDate), 'MMM d, yyyy')}`}>
+                                    {shortPut.price.toFixed(2)}
+                                    <div className="text-[10px] text-muted-foreground">{format(parseISO(shortPut.priceDate), 'MMM d')}</div>
+                                 </TableCell>
+                                 <TableCell className={cn("text-right font-mono", shortPut.status === 'ITM' ? "text-red-600 font-bold" : shortPut.status === 'ATM' ? "text-amber-600 font-bold" : "")}>
+                                    {shortPut.distancePct.toFixed(1)}%
+                                 </TableCell>
+                                 <TableCell className="text-right">
+                                    <span className="font-mono text-xs mr-1">{shortPut.moneyness.toFixed(3)}</span>
+                                    <Badge variant={shortPut.status === 'ITM' ? 'destructive' : 'outline'} className="text-[10px]">{shortPut.status}</Badge>
+                                 </TableCell>
+                              </>
+                           ) : (
+                              <>
+                                 <TableCell className="text-right text-muted-foreground">-</TableCell>
+                                 <TableCell className="text-right text-muted-foreground">-</TableCell>
+                                 <TableCell className="text-right text-muted-foreground">-</TableCell>
+                              </>
+                           )
+                        )}
                         <TableCell className={cn("text-right font-mono", pctCaptured >= 50 ? "text-green-600 font-bold" : "text-muted-foreground")}>
                            {pctCaptured.toFixed(0)}%
                         </TableCell>
+                        <TableCell>
+                           {pnlPath && (
+                              <div className="flex flex-col items-center" title={`MAE ${formatMoney(pnlPath.mae)} / MFE ${formatMoney(pnlPath.mfe)}`}>
+                                 <PnlSparkline path={pnlPath.path} />
+                                 {pnlPath.path.length > 1 && (
+                                    <span className="text-[10px] font-mono text-muted-foreground">
+                                       <span className="text-red-500">{formatMoney(pnlPath.mae)}</span> / <span className="text-green-500">{formatMoney(pnlPath.mfe)}</span>
+                                    </span>
+                                 )}
+                              </div>
+                           )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                           {chain && chainTotals ? (
+                              <div className="flex flex-col items-end">
+                                 <span className={cn("font-bold", chainTotals.chainPnl >= 0 ? "text-green-600" : "text-red-600")}>{formatMoney(chainTotals.chainPnl)}</span>
+                                 <span className="text-[10px] text-muted-foreground">{formatMoney(chainTotals.cumulativeAmount)} cum. · {chain.rollCount} {chain.rollCount === 1 ? 'roll' : 'rolls'}</span>
+                              </div>
+                           ) : '-'}
+                        </TableCell>
+                        {greeksByLeg && <GreeksCells greeks={greeksOf(group.trades, greeksByLeg)} />}
                      </TableRow>
                      
                      {isExpanded && (
                         <TableRow className="bg-muted/5 hover:bg-muted/5">
-                           <TableCell colSpan={7} className="p-0">
+                           <TableCell colSpan={columnCount} className="p-0">
                               <div className="border-y bg-background/50">
                                  <Table>
                                     <TableBody>
-                                       {group.trades.map((trade: Trade) => (
+                                       {group.trades.map(trade => (
                                           <TableRow key={trade.id} className="border-0 hover:bg-transparent">
                                              <TableCell className="w-8"></TableCell>
                                              <TableCell className="text-xs text-muted-foreground">{format(new Date(trade.date), 'MM/dd')}</TableCell>
@@ -602,9 +661,12 @@ const TradeGroupTable = ({ groups, expanded, toggle, formatMoney }: any) => {
                                                 <span className={trade.action.includes('BUY') ? "text-red-500" : "text-green-500"}>{trade.action}</span> {trade.quantity}x {trade.symbol}
                                              </TableCell>
                                              <TableCell className="text-xs text-right text-muted-foreground">{formatMoney(trade.amount)}</TableCell>
-                                             <TableCell className="text-xs text-right text-muted-foreground">{trade.mark_price ? formatMoney(trade.mark_price * trade.quantity * trade.multiplier * (trade.action.includes('SELL') ? -1 : 1)) : '-'}</TableCell>
+                                             <TableCell className="text-xs text-right text-muted-foreground">{isTradeOpen(ledger, trade.id) && trade.mark_price !== null ? formatMoney(openMarketValue(ledger, trade)) : '-'}</TableCell>
+                                             <TableCell className="text-xs text-right"></TableCell>
+                                             <TableCell className="text-xs text-right"></TableCell>
                                              <TableCell className="text-xs text-right"></TableCell>
                                              <TableCell className="text-xs text-right"></TableCell>
+                                             {greeksByLeg && <GreeksCells greeks={greeksByLeg.get(trade.id)} />}
                                           </TableRow>
                                        ))}
                                     </TableBody>
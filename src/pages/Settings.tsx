@@ -8,6 +8,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { showSuccess, showError } from "@/utils/toast";
 import { Loader2, Save } from "lucide-react";
+import { ContractSpecsCard } from "@/components/ContractSpecsCard";
 
 export default function Settings() {
   const [title, setTitle] = useState("");
@@ -113,6 +114,8 @@ export default function Settings() {
               </Button>
             </CardFooter>
           </Card>
+
+          <ContractSpecsCard />
         </div>
       </div>
     </DashboardLayout>
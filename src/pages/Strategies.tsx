@@ -30,6 +30,12 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { buildPositionLedger } from "@/utils/positionLedger";
+import { groupPositions, summarizePnl, sumPnl, tradeStatistics, type PnlTrade, type TradeStatistics } from "@/utils/pnlEngine";
+
+// PostgREST caps responses at 1000 rows by default
+const TRADES_PAGE = 1000;
+const BENCHMARK_PAGE = 1000;
 
 interface Strategy {
   id: string;
@@ -46,6 +52,7 @@ interface Strategy {
   trade_count: number;
   win_count: number;
   loss_count: number;
+  trade_stats: TradeStatistics;
   days_in_trade: number;
   dashboard_tags?: any[];
   first_trade_date?: string;
@@ -80,13 +87,18 @@ export default function Strategies() {
         }
 
         // 2. Fetch All Trades (needed for accurate aggregation)
-        const { data: tradesData, error: tradesError } = await supabase
-          .from('trades')
-          .select('id, strategy_id, amount, date, mark_price, quantity, multiplier, action, hidden, tag_id');
-
-        if (tradesError) console.error(tradesError);
-
-        const safeTrades = tradesData || [];
+        const safeTrades: (PnlTrade & { strategy_id: string | null; tag_id: string | null; hidden: boolean })[] = [];
+        for (let page = 0; ; page++) {
+          const { data, error } = await supabase
+            .from('trades')
+            .select('id, strategy_id, pair_id, symbol, amount, date, mark_price, quantity, multiplier, action, hidden, tag_id')
+            .order('date', { ascending: true })
+            .order('id', { ascending: true })
+            .range(page * TRADES_PAGE, (page + 1) * TRADES_PAGE - 1);
+          if (error) throw error;
+          safeTrades.push(...(data || []));
+          if (!data || data.length < TRADES_PAGE) break;
+        }
 
         // 3. Fetch Tags (for client-side calculation)
         let tagsData: any[] = [];
@@ -100,96 +112,47 @@ export default function Strategies() {
           console.warn("Could not fetch tags", err);
         }
 
-        // 4. Fetch Benchmark Data
-        const { data: benchmarkData } = await supabase
-          .from('benchmark_prices')
-          .select('*');
+        // 4. Fetch Benchmark Data: only the tickers strategies benchmark against, from the first trade on.
+        // The table also holds daily closes of open-position underlyings, so it's paged.
+        const benchmarkTickers = Array.from(new Set(strategiesData.map(s => s.benchmark_ticker || 'SPY')));
+        const firstDate = safeTrades.map(t => t.date?.slice(0, 10)).filter(Boolean).sort()[0];
+        const benchmarkData: { ticker: string; date: string; price: number }[] = [];
+        for (let page = 0; firstDate; page++) {
+          const { data, error } = await supabase
+            .from('benchmark_prices')
+            .select('ticker, date, price')
+            .in('ticker', benchmarkTickers)
+            .gte('date', firstDate)
+            .order('date', { ascending: true })
+            .order('ticker', { ascending: true })
+            .range(page * BENCHMARK_PAGE, (page + 1) * BENCHMARK_PAGE - 1);
+          if (error) {
+            console.error(error);
+            break;
+          }
+          benchmarkData.push(...(data || []));
+          if (!data || data.length < BENCHMARK_PAGE) break;
+        }
 
         // 5. Calculate Metrics per Strategy
         const calculatedStrategies = strategiesData.map(strategy => {
-          const stratTrades = safeTrades.filter(t => t.strategy_id === strategy.id && !t.hidden);
-
-          let total_pnl = 0;
-          let realized_pnl = 0;
-          let unrealized_pnl = 0;
-          let win_count = 0;
-          let loss_count = 0;
-          let days_in_trade = 0;
-          let first_trade_date = null;
-          let last_trade_date = null;
-
-          // Calculate Days in Trade & Dates
-          if (stratTrades.length > 0) {
-            const dates = stratTrades
-              .map(t => t.date ? new Date(t.date).getTime() : NaN)
-              .filter(d => !isNaN(d));
-
-            if (dates.length > 0) {
-              const minDate = Math.min(...dates);
-              first_trade_date = new Date(minDate).toISOString().split('T')[0];
-              const maxDate = Math.max(...dates);
-              last_trade_date = new Date(maxDate).toISOString().split('T')[0];
-
-              const endDate = strategy.status === 'closed' ? maxDate : Date.now();
-              const diffTime = Math.max(0, endDate - minDate);
-              days_in_trade = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-              if (days_in_trade === 0) days_in_trade = 1;
-            }
-          }
-
-          // Helper logic for P&L calc (reused for Strategy and Tags)
-          // MUST MATCH LOGIC IN StrategyDetail.tsx
-          const calculateTradePnl = (trade: any) => {
-            let amount = Number(trade.amount) || 0;
-            const actionStr = trade.action ? trade.action.toUpperCase() : '';
-            const isBuy = actionStr.includes('BUY') || actionStr.includes('LONG');
-            const isShort = actionStr.includes('SELL') || actionStr.includes('SHORT');
-
-            // Apply sign correction for BUY orders having positive amounts (should be debit/negative)
-            if (isBuy && amount > 0) {
-              amount = -amount;
-            }
-
-            if (trade.mark_price !== null && trade.mark_price !== undefined) {
-              const mark = Math.abs(Number(trade.mark_price));
-              const qty = Number(trade.quantity) || 0;
-              const mult = Number(trade.multiplier) || 1;
-
-              const sign = isShort ? -1 : 1;
-              const marketValue = mark * qty * mult * sign;
-              return marketValue + amount; // Unrealized P&L
-            } else {
-              return amount; // Realized P&L
-            }
-          };
-
-          stratTrades.forEach(trade => {
-            const pnl = calculateTradePnl(trade);
-            const isUnrealized = trade.mark_price !== null && trade.mark_price !== undefined;
-
-            if (isUnrealized) {
-              unrealized_pnl += pnl;
-            } else {
-              realized_pnl += pnl;
-              if (pnl > 0) win_count++;
-              if (pnl < 0) loss_count++;
-            }
-          });
-
-          total_pnl = realized_pnl + unrealized_pnl;
+          // Hidden fills still open and close lots; they're only left out of what's shown
+          const stratFills = safeTrades.filter(t => t.strategy_id === strategy.id);
+          const ledger = buildPositionLedger(stratFills);
+          const stratTrades = stratFills.filter(t => !t.hidden);
+          const summary = summarizePnl(stratTrades, { ledger, endAtLastTrade: strategy.status === 'closed' });
+          const first_trade_date = summary.firstTradeDate;
+          const last_trade_date = summary.lastTradeDate;
 
           // Calculate Tag Performance Client-Side
           const stratTags = tagsData.filter(t => t.strategy_id === strategy.id);
           const dashboard_tags = stratTags.map(tag => {
             const tagTrades = stratTrades.filter(t => t.tag_id === tag.id);
-            let tagTotalPnl = 0;
-            tagTrades.forEach(t => {
-              tagTotalPnl += calculateTradePnl(t);
-            });
             return {
               tag_id: tag.id,
               tag_name: tag.name,
-              total_pnl: tagTotalPnl,
+              total_pnl: sumPnl(ledger, tagTrades).totalPnl,
+              trade_stats: tradeStatistics(groupPositions(tagTrades, ledger)),
               show_on_dashboard: tag.show_on_dashboard
             };
           }).filter(t => t.show_on_dashboard);
@@ -231,13 +194,14 @@ export default function Strategies() {
             start_date: strategy.start_date,
             is_hidden: strategy.is_hidden || false,
             benchmark_ticker: ticker,
-            total_pnl,
-            realized_pnl,
-            unrealized_pnl,
+            total_pnl: summary.totalPnl,
+            realized_pnl: summary.realizedPnl,
+            unrealized_pnl: summary.unrealizedPnl,
             trade_count: stratTrades.length,
-            win_count,
-            loss_count,
-            days_in_trade,
+            win_count: summary.wins,
+            loss_count: summary.losses,
+            trade_stats: tradeStatistics(summary.groups),
+            days_in_trade: summary.daysInTrade,
             dashboard_tags,
             first_trade_date,
             last_trade_date,
@@ -480,6 +444,11 @@ export default function Strategies() {
               </span>
             </div>
 
+            <div className="text-right min-w-[50px] hidden lg:block">
+              <span className="text-[10px] uppercase tracking-wider text-muted-foreground block">Win %</span>
+              <span className="font-medium text-sm">{strategy.trade_stats.trades > 0 ? `${strategy.trade_stats.winRate.toFixed(0)}%` : '-'}</span>
+            </div>
+
             <div className="text-right min-w-[40px] hidden lg:block">
               <span className="text-[10px] uppercase tracking-wider text-muted-foreground block">Days</span>
               <span className="font-medium text-sm">{strategy.days_in_trade}</span>
@@ -557,6 +526,28 @@ export default function Strategies() {
             </div>
           </div>
 
+          {strategy.trade_stats.trades > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+              <div>
+                <span className="text-muted-foreground block text-xs">Win Rate</span>
+                <span className="font-semibold">{strategy.trade_stats.winRate.toFixed(0)}%</span>
+                <span className="text-xs text-muted-foreground ml-1">{strategy.trade_stats.wins}W / {strategy.trade_stats.losses}L</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground block text-xs">Expectancy</span>
+                <span className={`font-semibold ${strategy.trade_stats.expectancy >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(strategy.trade_stats.expectancy)}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground block text-xs">Profit Factor</span>
+                <span className="font-semibold">{strategy.trade_stats.profitFactor !== null ? strategy.trade_stats.profitFactor.toFixed(2) : '-'}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground block text-xs">Payoff</span>
+                <span className="font-semibold">{strategy.trade_stats.payoffRatio !== null ? strategy.trade_stats.payoffRatio.toFixed(2) : '-'}</span>
+              </div>
+            </div>
+          )}
+
           {strategy.dashboard_tags && strategy.dashboard_tags.length > 0 && (
             <div className="bg-muted/30 rounded-lg p-3 space-y-2">
               <div className="text-sm font-medium text-muted-foreground flex items-center gap-1">
@@ -565,8 +556,15 @@ export default function Strategies() {
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                 {strategy.dashboard_tags.map((tag: any) => (
                   <div key={tag.tag_id} className="bg-background/80 p-3 rounded border shadow-sm flex justify-between items-center">
-                    <div className="text-sm text-muted-foreground font-medium truncate" title={tag.tag_name}>
-                      {tag.tag_name}
+                    <div className="min-w-0">
+                      <div className="text-sm text-muted-foreground font-medium truncate" title={tag.tag_name}>
+                        {tag.tag_name}
+                      </div>
+                      {tag.trade_stats.trades > 0 && (
+                        <div className="text-[11px] text-muted-foreground">
+                          {tag.trade_stats.winRate.toFixed(0)}% win · PF {tag.trade_stats.profitFactor !== null ? tag.trade_stats.profitFactor.toFixed(2) : '-'}
+                        </div>
+                      )}
                     </div>
                     <div className={`text-base font-bold font-mono ${tag.total_pnl >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
                       {formatCurrency(tag.total_pnl)}
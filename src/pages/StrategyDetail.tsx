@@ -31,6 +31,25 @@ import {
 } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import { FloatingActionBar } from "@/components/FloatingActionBar";
+import { applyContractSpecsToTrades, fetchContractSpecs } from "@/utils/contractSpecs";
+import { linkRollChains, rollChainTotals } from "@/utils/rollChains";
+import { buildPnlPath, excursions, fetchMarkSnapshots, groupSnapshotsByTrade, type PnlPoint } from "@/utils/markSnapshots";
+import { PnlSparkline } from "@/components/PnlSparkline";
+import { EquityCurveChart } from "@/components/EquityCurveChart";
+import { ReturnsMatrix } from "@/components/ReturnsMatrix";
+import { TradeStatisticsTable } from "@/components/TradeStatisticsTable";
+import { TradeAnalytics } from "@/components/TradeAnalytics";
+import { GreeksCells, GreeksHeads, GreeksSummary } from "@/components/GreeksCells";
+import { buildEquityCurve, withBenchmark } from "@/utils/equityCurve";
+import { buildReturnsMatrix, monthlyReturnsFromPnl, monthlyReturnsFromValues } from "@/utils/returnsMatrix";
+import { tradeOutcomes } from "@/utils/tradeDistribution";
+import { greeksOf, legGreeks } from "@/utils/greeks";
+import { fetchUnderlyingPrices, openUnderlyings, priceValues } from "@/utils/underlyingPrices";
+import { buildPositionLedger } from "@/utils/positionLedger";
+import { groupPositions, summarizePnl, tradePnl, tradeStatistics } from "@/utils/pnlEngine";
+
+// PostgREST caps responses at 1000 rows by default
+const BENCHMARK_PAGE = 1000;
 
 interface Trade {
   id: string;
@@ -45,6 +64,7 @@ interface Trade {
   price: number;
   fees: number;
   pair_id: string | null;
+  order_id: string | null;
   unrealized_pnl: number | null;
   hidden: boolean;
   tags?: { id: string; name: string } | null;
@@ -124,6 +144,8 @@ export default function StrategyDetail() {
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
   const [sortKey, setSortKey] = useState<SortKey>('date');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [equityScope, setEquityScope] = useState<string>('all');
+  const [analyticsScope, setAnalyticsScope] = useState<string>('all');
   
   // Edit Trade State
   const [editingTrade, setEditingTrade] = useState<Trade | null>(null);
@@ -157,8 +179,20 @@ export default function StrategyDetail() {
     queryKey: ['benchmark', strategy?.benchmark_ticker],
     queryFn: async () => {
         if (!strategy?.benchmark_ticker) return null;
-        const { data } = await supabase.from('benchmark_prices').select('*').eq('ticker', strategy.benchmark_ticker).order('date', { ascending: true });
-        return data;
+        const prices: { ticker: string; date: string; price: number }[] = [];
+        for (let page = 0; ; page++) {
+          const { data, error } = await supabase
+            .from('benchmark_prices')
+            .select('*')
+            .eq('ticker', strategy.benchmark_ticker)
+            .order('date', { ascending: true })
+            .order('id', { ascending: true })
+            .range(page * BENCHMARK_PAGE, (page + 1) * BENCHMARK_PAGE - 1);
+          if (error) throw error;
+          prices.push(...(data || []));
+          if (!data || data.length < BENCHMARK_PAGE) break;
+        }
+        return prices;
     },
     enabled: !!strategy?.benchmark_ticker
   });
@@ -172,7 +206,7 @@ export default function StrategyDetail() {
     }
   });
 
-  const { data: assignedTrades, isLoading: assignedTradesLoading } = useQuery<Trade[]>({
+  const { data: strategyFills, isLoading: assignedTradesLoading } = useQuery<Trade[]>({
     queryKey: ['assignedTrades', strategyId],
     queryFn: async () => {
       const { data, error } = await supabase.from('trades')
@@ -184,7 +218,6 @@ export default function StrategyDetail() {
           )
         `)
         .eq('strategy_id', strategyId!)
-        .eq('hidden', false)
         .order('date', { ascending: false });
       if (error) throw error;
       return data as Trade[];
@@ -201,63 +234,38 @@ export default function StrategyDetail() {
     enabled: isAddTradesOpen,
   });
 
+  // Hidden fills still open and close lots; they're only left out of what's shown
+  const ledger = useMemo(() => buildPositionLedger(strategyFills || []), [strategyFills]);
+  const assignedTrades = useMemo(() => strategyFills?.filter(t => !t.hidden), [strategyFills]);
+
+  const underlyings = useMemo(() => openUnderlyings(assignedTrades || [], ledger), [assignedTrades, ledger]);
+
+  const { data: underlyingPrices } = useQuery({
+    queryKey: ['underlying-prices', underlyings],
+    queryFn: () => fetchUnderlyingPrices(underlyings),
+    enabled: underlyings.length > 0
+  });
+
+  const greeksByLeg = useMemo(
+    () => legGreeks(assignedTrades || [], ledger, priceValues(underlyingPrices)),
+    [assignedTrades, ledger, underlyingPrices]
+  );
+
+  const strategyGreeks = useMemo(() => greeksOf(assignedTrades || [], greeksByLeg), [assignedTrades, greeksByLeg]);
+
+  const { data: snapshotsByTrade } = useQuery({
+    queryKey: ['mark-snapshots', strategyId],
+    queryFn: async () => groupSnapshotsByTrade(await fetchMarkSnapshots((assignedTrades || []).map(t => t.id))),
+    enabled: !!assignedTrades && assignedTrades.length > 0
+  });
+
   // --- METRICS CALCULATION ---
   const metrics = useMemo(() => {
     if (!assignedTrades || !strategy) return null;
 
-    let total_pnl = 0;
-    let realized_pnl = 0;
-    let unrealized_pnl = 0;
-    let win_count = 0;
-    let loss_count = 0;
-    let open_count = 0;
-    let days_in_trade = 0;
-    let first_trade_date: string | null = null;
-    let last_trade_date: string | null = null;
-
-    const dates = assignedTrades.map(t => new Date(t.date).getTime()).filter(d => !isNaN(d));
-
-    if (dates.length > 0) {
-        const minDate = Math.min(...dates);
-        first_trade_date = new Date(minDate).toISOString().split('T')[0];
-        const maxDate = Math.max(...dates);
-        last_trade_date = new Date(maxDate).toISOString().split('T')[0];
-        
-        const endDate = strategy.status === 'closed' ? maxDate : Date.now();
-        const diffTime = Math.max(0, endDate - minDate);
-        days_in_trade = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-        if (days_in_trade === 0) days_in_trade = 1;
-    }
-
-    assignedTrades.forEach(trade => {
-        let amount = Number(trade.amount) || 0;
-        const actionStr = trade.action ? trade.action.toUpperCase() : '';
-        const isBuy = actionStr.includes('BUY') || actionStr.includes('LONG');
-        const isShort = actionStr.includes('SELL') || actionStr.includes('SHORT');
-        
-        if (isBuy && amount > 0) amount = -amount;
-
-        if (trade.mark_price !== null && trade.mark_price !== undefined) {
-            open_count++;
-            const mark = Math.abs(Number(trade.mark_price));
-            const qty = Number(trade.quantity) || 0;
-            const mult = Number(trade.multiplier) || 1; 
-            const sign = isShort ? -1 : 1;
-            const marketValue = mark * qty * mult * sign;
-            const pnl = marketValue + amount;
-            unrealized_pnl += pnl;
-        } else {
-            const pnl = amount;
-            realized_pnl += pnl;
-            
-            // Loose approximation for win rate based on realized legs. 
-            // Ideally we'd group by trade chain.
-            if (pnl > 0) win_count++;
-            if (pnl < 0) loss_count++;
-        }
-    });
-    
-    total_pnl = realized_pnl + unrealized_pnl;
+    const summary = summarizePnl(assignedTrades, { ledger, endAtLastTrade: strategy.status === 'closed' });
+    const first_trade_date = summary.firstTradeDate;
+    const last_trade_date = summary.lastTradeDate;
 
     // Benchmark Calculation
     let benchmarkPerformance = 0;
@@ -283,23 +291,41 @@ export default function StrategyDetail() {
     }
 
     const capital = Number(strategy.capital_allocation) || 0;
-    const roi = capital > 0 ? (total_pnl / capital) * 100 : 0;
-    const total_closed = win_count + loss_count;
-    const win_rate = total_closed > 0 ? (win_count / total_closed) * 100 : 0;
+    const roi = capital > 0 ? (summary.totalPnl / capital) * 100 : 0;
 
     return {
-        total_pnl,
-        realized_pnl,
-        unrealized_pnl,
-        days_in_trade,
-        open_count,
+        total_pnl: summary.totalPnl,
+        realized_pnl: summary.realizedPnl,
+        unrealized_pnl: summary.unrealizedPnl,
+        days_in_trade: summary.daysInTrade,
+        open_count: summary.openGroups,
         capital,
         roi,
-        win_rate,
+        win_rate: summary.winRate,
+        wins: summary.wins,
+        losses: summary.losses,
+        trade_stats: tradeStatistics(summary.groups),
         benchmarkPerformance,
         benchmarkTicker: strategy.benchmark_ticker
     };
-  }, [assignedTrades, strategy, benchmarkData]);
+  }, [assignedTrades, strategy, benchmarkData, ledger]);
+
+  // Whole strategy first, then each tag; a tag's roll chains are linked within the tag
+  const tradeStatsRows = useMemo(() => {
+    if (!assignedTrades || !metrics) return [];
+    const byTag = new Map<string, { label: string; trades: Trade[] }>();
+    assignedTrades.forEach(trade => {
+      const tagId = trade.tag_id || 'untagged';
+      if (!byTag.has(tagId)) byTag.set(tagId, { label: trade.tags?.name || 'Untagged Trades', trades: [] });
+      byTag.get(tagId)?.trades.push(trade);
+    });
+    return [
+      { label: 'Whole strategy', stats: metrics.trade_stats },
+      ...Array.from(byTag.values())
+        .map(({ label, trades }) => ({ label, stats: tradeStatistics(groupPositions(trades, ledger)) }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    ];
+  }, [assignedTrades, metrics, ledger]);
 
   // --- MUTATIONS ---
   const updateStrategyMutation = useMutation({
@@ -411,18 +437,15 @@ export default function StrategyDetail() {
     onError: (err) => showError(err.message)
   });
 
-  const bulkUpdateMultiplierMutation = useMutation({
-    mutationFn: async (multiplier: number) => {
-      const { error } = await supabase
-        .from('trades')
-        .update({ multiplier })
-        .eq('strategy_id', strategyId);
-      if (error) throw error;
+  const applyContractSpecsMutation = useMutation({
+    mutationFn: async () => {
+      const specs = await queryClient.fetchQuery({ queryKey: ['contract-specs'], queryFn: fetchContractSpecs });
+      return applyContractSpecsToTrades(specs, strategyId);
     },
-    onSuccess: (_, multiplier) => {
+    onSuccess: (updated) => {
       queryClient.invalidateQueries({ queryKey: ['assignedTrades', strategyId] });
       queryClient.invalidateQueries({ queryKey: ['strategies-calculated'] });
-      showSuccess(`All trade multipliers set to ${multiplier}`);
+      showSuccess(updated > 0 ? `Updated the multiplier on ${updated} futures legs` : "All futures legs already match their specs");
     },
     onError: (err) => showError(err.message)
   });
@@ -497,23 +520,6 @@ export default function StrategyDetail() {
     });
   };
 
-  const isFutures = useMemo(() => {
-    if (!assignedTrades || assignedTrades.length === 0) return false;
-    return assignedTrades.every(t => t.multiplier === 50);
-  }, [assignedTrades]);
-
-  const handleFuturesToggle = (checked: boolean) => {
-    if (checked) {
-      if (confirm("This will update ALL trades in this strategy to have a multiplier of 50. This is typically used for Futures contracts (e.g., /ES). Continue?")) {
-        bulkUpdateMultiplierMutation.mutate(50);
-      }
-    } else {
-      if (confirm("This will revert ALL trades in this strategy to a multiplier of 100 (Standard Options). Continue?")) {
-        bulkUpdateMultiplierMutation.mutate(100);
-      }
-    }
-  };
-
   const filteredUnassignedTrades = useMemo(() => unassignedTrades?.filter(t => t.symbol.toLowerCase().includes(searchTerm.toLowerCase())), [unassignedTrades, searchTerm]);
 
   // --- DATA PROCESSING (Grouping by Tags) ---
@@ -537,107 +543,101 @@ export default function StrategyDetail() {
       return 0;
     });
 
-    const groups: Record<string, { name: string; trades: TradeGroup[]; totalPnl: number }> = {};
-
+    const tradesByTag: Record<string, { name: string; trades: Trade[] }> = {};
     sortedTrades.forEach(trade => {
       const tagId = trade.tag_id || 'untagged';
-      const tagName = trade.tags?.name || 'Untagged Trades';
-
-      if (!groups[tagId]) {
-        groups[tagId] = { name: tagName, trades: [], totalPnl: 0 };
-      }
-
-      const groupId = trade.pair_id || trade.id;
-      const isPair = !!trade.pair_id;
-
-      let existingGroup = groups[tagId].trades.find(g => g.id === groupId);
-      if (!existingGroup) {
-        existingGroup = {
-          id: groupId,
-          isPair,
-          trades: [],
-          summary: {
-            date: trade.date,
-            symbol: trade.symbol,
-            totalAmount: 0,
-            totalMarketValue: 0,
-            totalPnl: 0,
-            isOpen: false
-          }
-        };
-        groups[tagId].trades.push(existingGroup);
-      }
-
-      existingGroup.trades.push(trade);
+      if (!tradesByTag[tagId]) tradesByTag[tagId] = { name: trade.tags?.name || 'Untagged Trades', trades: [] };
+      tradesByTag[tagId].trades.push(trade);
     });
 
-    Object.values(groups).forEach(tagGroup => {
-      let tagTotalPnl = 0;
-
-      tagGroup.trades.forEach(group => {
-        let totalAmount = 0;
-        let totalMarketValue = 0;
-        let totalPnl = 0;
-        let isOpen = false;
-        let symbols = new Set<string>();
-
-        group.trades.forEach(trade => {
-          symbols.add(trade.symbol);
-          
-          const actionUpper = trade.action.toUpperCase();
-          const isSell = actionUpper.includes('SELL') || actionUpper.includes('SHORT');
-          const isBuy = actionUpper.includes('BUY') || actionUpper.includes('LONG');
-          
-          let amount = Number(trade.amount);
-          
-          if (isBuy && amount > 0) {
-            amount = -amount;
-          }
-          
-          totalAmount += amount;
-
-          if (trade.mark_price !== null) {
-            isOpen = true;
-            const cleanMarkPrice = Math.abs(trade.mark_price || 0);
-            const sign = isSell ? -1 : 1;
-            const mv = cleanMarkPrice * trade.quantity * trade.multiplier * sign;
-            totalMarketValue += mv;
-            totalPnl += (mv + amount);
-          } else {
-            totalPnl += amount;
-          }
-          
-          trade.amount = amount;
-        });
-
-        const symbolList = Array.from(symbols);
+    // Positions are grouped within each tag; the strategy-wide ledger still decides what is open
+    const groups: Record<string, { name: string; trades: TradeGroup[]; totalPnl: number }> = {};
+    Object.entries(tradesByTag).forEach(([tagId, tagGroup]) => {
+      const positions: TradeGroup[] = groupPositions(tagGroup.trades, ledger).map(position => {
+        const symbolList = Array.from(new Set(position.trades.map(trade => trade.symbol)));
         const displaySymbol = symbolList.length === 1 
           ? symbolList[0] 
-          : group.isPair 
-            ? `${symbolList[0]} + ${symbolList.length - 1} legs` 
-            : symbolList[0];
-
-        group.trades.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        const displayDate = group.trades[0]?.date;
-
-        group.summary = {
-          date: displayDate,
-          symbol: displaySymbol,
-          totalAmount,
-          totalMarketValue,
-          totalPnl,
-          isOpen
-        };
+          : `${symbolList[0]} + ${symbolList.length - 1} legs`;
 
-        tagTotalPnl += totalPnl;
+        return {
+          id: position.id,
+          isPair: position.isPair,
+          trades: position.trades,
+          summary: {
+            date: position.openDate,
+            symbol: displaySymbol,
+            totalAmount: position.cash,
+            totalMarketValue: position.marketValue,
+            totalPnl: position.totalPnl,
+            isOpen: position.isOpen
+          }
+        };
       });
 
-      tagGroup.totalPnl = tagTotalPnl;
-      tagGroup.trades.sort((a, b) => new Date(b.summary.date).getTime() - new Date(a.summary.date).getTime());
+      groups[tagId] = {
+        name: tagGroup.name,
+        trades: positions,
+        totalPnl: positions.reduce((sum, position) => sum + position.summary.totalPnl, 0)
+      };
     });
 
     return groups;
-  }, [assignedTrades, sortKey, sortDirection]);
+  }, [assignedTrades, sortKey, sortDirection, ledger]);
+
+  // Daily P&L of the whole strategy or one tag, against the benchmark on the strategy's capital
+  const equityCurve = useMemo(() => {
+    if (!assignedTrades || !strategy) return [];
+    const scoped = equityScope === 'all' ? assignedTrades : assignedTrades.filter(t => (t.tag_id || 'untagged') === equityScope);
+    const curve = buildEquityCurve(scoped, snapshotsByTrade || new Map(), ledger);
+    const prices = (benchmarkData || []).map(b => ({ date: b.date, price: Number(b.price) }));
+    return withBenchmark(curve, prices, Number(strategy.capital_allocation) || 0);
+  }, [assignedTrades, strategy, equityScope, snapshotsByTrade, benchmarkData, ledger]);
+
+  // Monthly P&L of the same scope over the strategy's capital, with the benchmark's own monthly returns alongside
+  const { returnRows, benchmarkReturnRows } = useMemo(() => {
+    const capital = Number(strategy?.capital_allocation) || 0;
+    if (equityCurve.length === 0 || capital <= 0) return { returnRows: [], benchmarkReturnRows: [] };
+
+    const firstDate = equityCurve[0].date;
+    const lastDate = equityCurve[equityCurve.length - 1].date;
+    return {
+      returnRows: buildReturnsMatrix(monthlyReturnsFromPnl(equityCurve.map(point => ({ date: point.date, pnl: point.equity })), capital), false),
+      benchmarkReturnRows: buildReturnsMatrix(monthlyReturnsFromValues(
+        (benchmarkData || []).filter(b => b.date >= firstDate && b.date <= lastDate).map(b => ({ date: b.date, value: Number(b.price) }))
+      )),
+    };
+  }, [equityCurve, strategy, benchmarkData]);
+
+  // Closed positions of the whole strategy or one tag, for the analytics tab
+  const outcomes = useMemo(() => {
+    if (!assignedTrades) return [];
+    const scoped = analyticsScope === 'all' ? assignedTrades : assignedTrades.filter(t => (t.tag_id || 'untagged') === analyticsScope);
+    return tradeOutcomes(groupPositions(scoped, ledger));
+  }, [assignedTrades, analyticsScope, ledger]);
+
+  // P&L path of each position from its mark snapshots, ending at today's (or the final) P&L
+  const pnlPaths = useMemo(() => {
+    const paths = new Map<string, { path: PnlPoint[]; mae: number; mfe: number }>();
+    const today = format(new Date(), 'yyyy-MM-dd');
+    Object.values(groupedTradesByTag).forEach(tagGroup => tagGroup.trades.forEach(group => {
+      const lastDate = group.trades[group.trades.length - 1]?.date;
+      const current = {
+        date: group.summary.isOpen || !lastDate ? today : format(new Date(lastDate), 'yyyy-MM-dd'),
+        pnl: group.summary.totalPnl
+      };
+      const path = buildPnlPath(group.trades, snapshotsByTrade || new Map(), current);
+      paths.set(group.id, { path, ...excursions(path) });
+    }));
+    return paths;
+  }, [groupedTradesByTag, snapshotsByTrade]);
+
+  // Roll chains can cross tags, so link positions across every tag group
+  const rollChains = useMemo(() => {
+    const allGroups = Object.values(groupedTradesByTag).flatMap(tagGroup => tagGroup.trades);
+    const links = linkRollChains(allGroups);
+    const totals = rollChainTotals(allGroups, links, g => g.summary.totalAmount, g => g.summary.totalPnl);
+    return { links, totals };
+  }, [groupedTradesByTag]);
 
   const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { 
     style: 'currency', 
@@ -742,17 +742,15 @@ export default function StrategyDetail() {
 
                 <div className="pt-2 border-t mt-4">
                   <Label className="mb-2 block">Advanced</Label>
-                  <div className="flex items-center space-x-2">
-                    <Switch 
-                      id="futures-mode" 
-                      checked={isFutures} 
-                      onCheckedChange={handleFuturesToggle}
-                      disabled={bulkUpdateMultiplierMutation.isPending}
-                    />
+                  <div className="flex items-center justify-between gap-4">
                     <div className="space-y-0.5">
-                      <Label htmlFor="futures-mode" className="text-base cursor-pointer">Futures Strategy (50x)</Label>
-                      <p className="text-xs text-muted-foreground">Force all trade multipliers to 50.</p>
+                      <p className="text-base font-medium">Futures Multipliers</p>
+                      <p className="text-xs text-muted-foreground">Set each futures leg's multiplier from its contract's point value (Settings &rarr; Contract Specifications).</p>
                     </div>
+                    <Button variant="outline" size="sm" onClick={() => applyContractSpecsMutation.mutate()} disabled={applyContractSpecsMutation.isPending}>
+                      {applyContractSpecsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Apply Specs
+                    </Button>
                   </div>
                 </div>
             </TabsContent>
@@ -909,7 +907,7 @@ export default function StrategyDetail() {
               <CardContent>
                 <div className="text-2xl font-bold">{metrics.win_rate.toFixed(0)}%</div>
                 <p className="text-xs text-muted-foreground mt-1">
-                  On realized legs
+                  {metrics.wins}W / {metrics.losses}L closed trades
                 </p>
               </CardContent>
             </Card>
@@ -929,218 +927,331 @@ export default function StrategyDetail() {
           </div>
         )}
 
-        {/* TRADES / POSITIONS TABLE */}
-        <Card className="flex-1">
-          <CardHeader className="flex-row items-center justify-between">
+        {/* EQUITY CURVE */}
+        <Card>
+          <CardHeader className="flex-row items-center justify-between space-y-0">
             <div>
-              <CardTitle>Trades & Positions</CardTitle>
+              <CardTitle>Equity Curve</CardTitle>
               <CardDescription>
-                Grouped by tags. Expand to see leg details and P&L.
+                Realized P&L by close date plus open positions at their stored marks.
               </CardDescription>
             </div>
+            <Select value={equityScope} onValueChange={setEquityScope}>
+              <SelectTrigger className="w-[200px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Whole strategy</SelectItem>
+                {tags?.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                ))}
+                <SelectItem value="untagged">Untagged trades</SelectItem>
+              </SelectContent>
+            </Select>
           </CardHeader>
           <CardContent>
-            {assignedTradesLoading ? <Loader2 className="h-6 w-6 animate-spin mx-auto mt-10" /> : (
-              <div className="space-y-8">
-                {Object.entries(groupedTradesByTag).map(([tagId, tagGroup]) => {
-                  const allIdsInTagGroup = tagGroup.trades.flatMap(g => g.trades.map(t => t.id));
-                  const allSelected = allIdsInTagGroup.length > 0 && allIdsInTagGroup.every(id => selectedTradesForTagging.includes(id));
-                  const someSelected = allIdsInTagGroup.some(id => selectedTradesForTagging.includes(id));
-
-                  return (
-                  <div key={tagId}>
-                    <div className="flex items-center justify-between mb-3 bg-muted/20 p-2 rounded-lg border-l-4 border-primary">
-                      <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
-                        <Tag className="h-4 w-4" />
-                        {tagGroup.name} 
-                        <span className="text-muted-foreground text-sm font-normal ml-1">({tagGroup.trades.length} positions)</span>
-                      </h3>
-                      <div className={cn("text-lg font-bold font-mono", tagGroup.totalPnl >= 0 ? "text-green-600" : "text-red-600")}>
-                        {formatCurrency(tagGroup.totalPnl)}
-                      </div>
-                    </div>
-                    <div className="border rounded-md overflow-hidden">
-                      <Table>
-                        <TableHeader>
-                          <TableRow className="bg-muted/50">
-                            <TableHead className="w-[40px]">
-                              <Checkbox 
-                                checked={allSelected ? true : (someSelected ? 'indeterminate' : false)}
-                                onCheckedChange={(checked) => handleSelectTradeGroup(allIdsInTagGroup, !!checked)}
-                              />
-                            </TableHead>
-                            <TableHead className="w-[50px]"></TableHead>
-                            <SortableTableHead sortKey="date" {...{currentSortKey: sortKey, currentSortDirection: sortDirection, onSort: handleSort}}>Date</SortableTableHead>
-                            <SortableTableHead sortKey="symbol" {...{currentSortKey: sortKey, currentSortDirection: sortDirection, onSort: handleSort}}>Structure / Symbol</SortableTableHead>
-                            <TableHead>Status</TableHead>
-                            <SortableTableHead sortKey="amount" {...{currentSortKey: sortKey, currentSortDirection: sortDirection, onSort: handleSort}} className="text-right">Net Cash Flow</SortableTableHead>
-                            <TableHead className="text-right">Current Value</TableHead>
-                            <TableHead className="text-right">Net P&L</TableHead>
-                            <TableHead>Tag</TableHead>
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {tagGroup.trades.map(group => {
-                            const isExpanded = expandedGroups.has(group.id);
-                            const groupTradeIds = group.trades.map(t => t.id);
-                            const isGroupSelected = groupTradeIds.every(id => selectedTradesForTagging.includes(id));
-                            const isGroupPartiallySelected = !isGroupSelected && groupTradeIds.some(id => selectedTradesForTagging.includes(id));
-                            
-                            const rows = [];
-                            
-                            rows.push(
-                              <TableRow 
-                                key={group.id}
-                                className={cn(
-                                  "cursor-pointer hover:bg-muted/30 transition-colors", 
-                                  isExpanded && "bg-muted/20 border-b-0"
-                                )}
-                                onClick={() => toggleGroup(group.id)}
-                              >
-                                <TableCell onClick={(e) => e.stopPropagation()}>
+            <EquityCurveChart data={equityCurve} benchmarkLabel={strategy?.benchmark_ticker} />
+            <div className="mt-6 space-y-2">
+              <h4 className="text-sm font-semibold">Monthly Returns</h4>
+              <p className="text-xs text-muted-foreground">Realized plus unrealized P&L each month over the allocated capital; YTD is the sum of the months.</p>
+              {Number(strategy?.capital_allocation) > 0 ? (
+                <ReturnsMatrix rows={returnRows} benchmarkRows={benchmarkReturnRows} benchmarkLabel={strategy?.benchmark_ticker} />
+              ) : (
+                <div className="text-sm text-muted-foreground text-center py-6">Set the strategy's allocated capital to see monthly returns.</div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="positions" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="positions">Trades & Positions</TabsTrigger>
+            <TabsTrigger value="analytics">Analytics</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="positions">
+            {/* TRADES / POSITIONS TABLE */}
+            <Card className="flex-1">
+              <CardHeader className="flex-row items-center justify-between">
+                <div>
+                  <CardTitle>Trades & Positions</CardTitle>
+                  <CardDescription>
+                    Grouped by tags. Expand to see leg details and P&L.
+                  </CardDescription>
+                </div>
+                <GreeksSummary greeks={strategyGreeks} unpriced={underlyings.filter(ticker => underlyingPrices && !underlyingPrices.has(ticker))} />
+              </CardHeader>
+              <CardContent>
+                {assignedTradesLoading ? <Loader2 className="h-6 w-6 animate-spin mx-auto mt-10" /> : (
+                  <div className="space-y-8">
+                    {Object.entries(groupedTradesByTag).map(([tagId, tagGroup]) => {
+                      const allIdsInTagGroup = tagGroup.trades.flatMap(g => g.trades.map(t => t.id));
+                      const allSelected = allIdsInTagGroup.length > 0 && allIdsInTagGroup.every(id => selectedTradesForTagging.includes(id));
+                      const someSelected = allIdsInTagGroup.some(id => selectedTradesForTagging.includes(id));
+
+                      return (
+                      <div key={tagId}>
+                        <div className="flex items-center justify-between mb-3 bg-muted/20 p-2 rounded-lg border-l-4 border-primary">
+                          <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                            <Tag className="h-4 w-4" />
+                            {tagGroup.name} 
+                            <span className="text-muted-foreground text-sm font-normal ml-1">({tagGroup.trades.length} positions)</span>
+                          </h3>
+                          <div className={cn("text-lg font-bold font-mono", tagGroup.totalPnl >= 0 ? "text-green-600" : "text-red-600")}>
+                            {formatCurrency(tagGroup.totalPnl)}
+                          </div>
+                        </div>
+                        <div className="border rounded-md overflow-hidden">
+                          <Table>
+                            <TableHeader>
+                              <TableRow className="bg-muted/50">
+                                <TableHead className="w-[40px]">
                                   <Checkbox 
-                                    checked={isGroupSelected ? true : (isGroupPartiallySelected ? 'indeterminate' : false)}
-                                    onCheckedChange={(checked) => handleSelectTradeGroup(groupTradeIds, !!checked)}
+                                    checked={allSelected ? true : (someSelected ? 'indeterminate' : false)}
+                                    onCheckedChange={(checked) => handleSelectTradeGroup(allIdsInTagGroup, !!checked)}
                                   />
-                                </TableCell>
-                                <TableCell className="text-center">
-                                  {group.isPair ? (
-                                    isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />
-                                  ) : (
-                                    <div className="w-4" />
-                                  )}
-                                </TableCell>
-                                <TableCell className="font-medium">{format(new Date(group.summary.date), 'MMM d, yyyy')}</TableCell>
-                                <TableCell>
-                                  <div className="flex items-center gap-2">
-                                    <span className="font-semibold">{group.summary.symbol}</span>
-                                    {group.isPair && <LinkIcon className="h-3 w-3 text-muted-foreground" />}
-                                  </div>
-                                </TableCell>
-                                <TableCell>
-                                  {group.summary.isOpen ? 
-                                    <Badge variant="default" className="bg-green-600 hover:bg-green-700">Open</Badge> : 
-                                    <Badge variant="secondary">Closed</Badge>
-                                  }
-                                </TableCell>
-                                <TableCell className="text-right text-muted-foreground">
-                                    {formatCurrency(group.summary.totalAmount)}
-                                </TableCell>
-                                <TableCell className="text-right font-mono">
-                                    {group.summary.isOpen ? formatCurrency(group.summary.totalMarketValue) : '-'}
-                                </TableCell>
-                                <TableCell className={cn("text-right font-bold", group.summary.totalPnl >= 0 ? "text-green-500" : "text-red-500")}>
-                                    {formatCurrency(group.summary.totalPnl)}
-                                </TableCell>
-                                <TableCell className="min-w-[200px]" onClick={(e) => e.stopPropagation()}>
-                                  <Select 
-                                    defaultValue={group.trades[0]?.tag_id || "none"} 
-                                    onValueChange={(val) => {
-                                      group.trades.forEach(trade => {
-                                        handleTradeTagChange(trade.id, val);
-                                      });
-                                    }} 
-                                    disabled={updateTradeTagMutation.isPending}
-                                  >
-                                    <SelectTrigger className="w-full h-8">
-                                      <SelectValue placeholder="Assign Tag" />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                      <SelectItem value="none" className="text-muted-foreground">No Tag</SelectItem>
-                                      {tags?.map((tag) => (
-                                        <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
-                                      ))}
-                                    </SelectContent>
-                                  </Select>
-                                </TableCell>
-                              </TableRow>
-                            );
-
-                            if (isExpanded) {
-                              rows.push(
-                                <TableRow key={`${group.id}-details`} className="bg-muted/5 hover:bg-muted/5">
-                                  <TableCell colSpan={9} className="p-0">
-                                    <div className="border-t border-b bg-muted/10 py-2">
-                                      <Table>
-                                        <TableHeader>
-                                            <TableRow className="border-none">
-                                                <TableHead className="pl-12 text-xs">Leg Date</TableHead>
-                                                <TableHead className="text-xs">Leg Action</TableHead>
-                                                <TableHead className="text-xs">Symbol</TableHead>
-                                                <TableHead className="text-xs text-right">Entry Price</TableHead>
-                                                <TableHead className="text-xs text-right">Mark Price</TableHead>
-                                                <TableHead className="text-xs text-right">Leg P&L / Val</TableHead>
-                                                <TableHead className="text-xs text-right w-10"></TableHead>
-                                            </TableRow>
-                                        </TableHeader>
-                                        <TableBody>
-                                            {group.trades.map(trade => {
-                                                const amount = Number(trade.amount);
-                                                const cleanMarkPrice = Math.abs(trade.mark_price || 0);
-                                                
-                                                const actionUpper = trade.action.toUpperCase();
-                                                const isSell = actionUpper.includes('SELL') || actionUpper.includes('SHORT');
-                                                const sign = isSell ? -1 : 1;
-                                                
-                                                const mv = cleanMarkPrice * trade.quantity * trade.multiplier * sign;
-                                                const legPnl = (trade.mark_price !== null) ? (mv + amount) : amount;
-                                                
-                                                // Calculate absolute entry price from the cash flow
-                                                const entryPrice = (trade.quantity > 0) ? Math.abs(amount / (trade.quantity * trade.multiplier)) : 0;
-                                                
-                                                return (
-                                                    <TableRow key={trade.id} className="border-none hover:bg-transparent group/row">
-                                                        <TableCell className="pl-12 text-xs text-muted-foreground">{format(new Date(trade.date), 'MM/dd/yy')}</TableCell>
-                                                        <TableCell className="text-xs">
-                                                            <span className={trade.action.includes('BUY') ? "text-red-500" : "text-green-500"}>{trade.action}</span>
-                                                        </TableCell>
-                                                        <TableCell className="text-xs font-mono">{trade.symbol}</TableCell>
-                                                        <TableCell className="text-xs text-right font-mono">${entryPrice.toFixed(2)}</TableCell>
-                                                        <TableCell className="text-xs text-right font-mono">
-                                                            {trade.mark_price ? `$${cleanMarkPrice.toFixed(2)}` : '-'}
-                                                        </TableCell>
-                                                        <TableCell className={cn("text-xs text-right font-bold", legPnl >= 0 ? "text-green-600/70" : "text-red-600/70")}>
-                                                            {formatCurrency(legPnl)}
-                                                        </TableCell>
-                                                        <TableCell>
-                                                          <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover/row:opacity-100 transition-opacity" onClick={() => handleEditTrade(trade)}>
-                                                            <Pencil className="h-3 w-3 text-muted-foreground" />
-                                                          </Button>
-                                                        </TableCell>
-                                                    </TableRow>
-                                                );
-                                            })}
-                                        </TableBody>
-                                      </Table>
-                                    </div>
-                                  </TableCell>
-                                </TableRow>
-                              );
-                            }
-                            return rows;
-                          })}
-                          {tagGroup.trades.length === 0 && (
-                              <TableRow>
-                                  <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
-                                      No trades in this tag yet.
-                                  </TableCell>
+                                </TableHead>
+                                <TableHead className="w-[50px]"></TableHead>
+                                <SortableTableHead sortKey="date" {...{currentSortKey: sortKey, currentSortDirection: sortDirection, onSort: handleSort}}>Date</SortableTableHead>
+                                <SortableTableHead sortKey="symbol" {...{currentSortKey: sortKey, currentSortDirection: sortDirection, onSort: handleSort}}>Structure / Symbol</SortableTableHead>
+                                <TableHead>Status</TableHead>
+                                <SortableTableHead sortKey="amount" {...{currentSortKey: sortKey, currentSortDirection: sortDirection, onSort: handleSort}} className="text-right">Net Cash Flow</SortableTableHead>
+                                <TableHead className="text-right">Current Value</TableHead>
+                                <TableHead className="text-right">Net P&L</TableHead>
+                                <GreeksHeads className="hidden xl:table-cell" />
+                                <TableHead className="text-center">P&L Path</TableHead>
+                                <TableHead>Tag</TableHead>
                               </TableRow>
-                          )}
-                        </TableBody>
-                      </Table>
-                    </div>
-                  </div>
-                  );
-                })}
-                {Object.keys(groupedTradesByTag).length === 0 && (
-                  <div className="text-center py-8 text-muted-foreground">
-                    No trades assigned to this strategy yet.
+                            </TableHeader>
+                            <TableBody>
+                              {tagGroup.trades.map(group => {
+                                const isExpanded = expandedGroups.has(group.id);
+                                const groupTradeIds = group.trades.map(t => t.id);
+                                const isGroupSelected = groupTradeIds.every(id => selectedTradesForTagging.includes(id));
+                                const isGroupPartiallySelected = !isGroupSelected && groupTradeIds.some(id => selectedTradesForTagging.includes(id));
+                                const chain = rollChains.links.get(group.id);
+                                const chainTotals = rollChains.totals.get(group.id);
+                                const pnlPath = pnlPaths.get(group.id);
+                                
+                                const rows = [];
+                                
+                                rows.push(
+                                  <TableRow 
+                                    key={group.id}
+                                    className={cn(
+                                      "cursor-pointer hover:bg-muted/30 transition-colors", 
+                                      isExpanded && "bg-muted/20 border-b-0"
+                                    )}
+                                    onClick={() => toggleGroup(group.id)}
+                                  >
+                                    <TableCell onClick={(e) => e.stopPropagation()}>
+                                      <Checkbox 
+                                        checked={isGroupSelected ? true : (isGroupPartiallySelected ? 'indeterminate' : false)}
+                                        onCheckedChange={(checked) => handleSelectTradeGroup(groupTradeIds, !!checked)}
+                                      />
+                                    </TableCell>
+                                    <TableCell className="text-center">
+                                      {group.isPair ? (
+                                        isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />
+                                      ) : (
+                                        <div className="w-4" />
+                                      )}
+                                    </TableCell>
+                                    <TableCell className="font-medium">{format(new Date(group.summary.date), 'MMM d, yyyy')}</TableCell>
+                                    <TableCell>
+                                      <div className="flex items-center gap-2">
+                                        <span className="font-semibold">{group.summary.symbol}</span>
+                                        {group.isPair && <LinkIcon className="h-3 w-3 text-muted-foreground" />}
+                                        {chain && <Badge variant="outline" className="text-[10px]">Roll {chain.position}/{chain.groupIds.length}</Badge>}
+                                      </div>
+                                    </TableCell>
+                                    <TableCell>
+                                      {group.summary.isOpen ? 
+                                        <Badge variant="default" className="bg-green-600 hover:bg-green-700">Open</Badge> : 
+                                        <Badge variant="secondary">Closed</Badge>
+                                      }
+                                    </TableCell>
+                                    <TableCell className="text-right text-muted-foreground">
+                                        {formatCurrency(group.summary.totalAmount)}
+                                    </TableCell>
+                                    <TableCell className="text-right font-mono">
+                                        {group.summary.isOpen ? formatCurrency(group.summary.totalMarketValue) : '-'}
+                                    </TableCell>
+                                    <TableCell className={cn("text-right font-bold", group.summary.totalPnl >= 0 ? "text-green-500" : "text-red-500")}>
+                                        {formatCurrency(group.summary.totalPnl)}
+                                        {chain && chainTotals && (
+                                          <div className="text-[10px] font-normal text-muted-foreground">
+                                            Chain {formatCurrency(chainTotals.chainPnl)} · {formatCurrency(chainTotals.cumulativeAmount)} cum. · {chain.rollCount} {chain.rollCount === 1 ? 'roll' : 'rolls'}
+                                          </div>
+                                        )}
+                                    </TableCell>
+                                    <GreeksCells greeks={group.summary.isOpen ? greeksOf(group.trades, greeksByLeg) : undefined} className="hidden xl:table-cell" />
+                                    <TableCell>
+                                      {pnlPath && (
+                                        <div className="flex flex-col items-center" title={`MAE ${formatCurrency(pnlPath.mae)} / MFE ${formatCurrency(pnlPath.mfe)}`}>
+                                          <PnlSparkline path={pnlPath.path} />
+                                          {pnlPath.path.length > 1 && (
+                                            <span className="text-[10px] font-mono text-muted-foreground">
+                                              <span className="text-red-500">{formatCurrency(pnlPath.mae)}</span> / <span className="text-green-500">{formatCurrency(pnlPath.mfe)}</span>
+                                            </span>
+                                          )}
+                                        </div>
+                                      )}
+                                    </TableCell>
+                                    <TableCell className="min-w-[200px]" onClick={(e) => e.stopPropagation()}>
+                                      <Select 
+                                        defaultValue={group.trades[0]?.tag_id || "none"} 
+                                        onValueChange={(val) => {
+                                          group.trades.forEach(trade => {
+                                            handleTradeTagChange(trade.id, val);
+                                          });
+                                        }} 
+                                        disabled={updateTradeTagMutation.isPending}
+                                      >
+                                        <SelectTrigger className="w-full h-8">
+                                          <SelectValue placeholder="Assign Tag" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                          <SelectItem value="none" className="text-muted-foreground">No Tag</SelectItem>
+                                          {tags?.map((tag) => (
+                                            <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                    </TableCell>
+                                  </TableRow>
+                                );
+
+                                if (isExpanded) {
+                                  rows.push(
+                                    <TableRow key={`${group.id}-details`} className="bg-muted/5 hover:bg-muted/5">
+                                      <TableCell colSpan={14} className="p-0">
+                                        <div className="border-t border-b bg-muted/10 py-2">
+                                          <Table>
+                                            <TableHeader>
+                                                <TableRow className="border-none">
+                                                    <TableHead className="pl-12 text-xs">Leg Date</TableHead>
+                                                    <TableHead className="text-xs">Leg Action</TableHead>
+                                                    <TableHead className="text-xs">Symbol</TableHead>
+                                                    <TableHead className="text-xs text-right">Entry Price</TableHead>
+                                                    <TableHead className="text-xs text-right">Mark Price</TableHead>
+                                                    <TableHead className="text-xs text-right">Leg P&L / Val</TableHead>
+                                                    <TableHead className="text-xs text-right">IV</TableHead>
+                                                    <GreeksHeads className="text-xs" />
+                                                    <TableHead className="text-xs text-right w-10"></TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {group.trades.map(trade => {
+                                                    const amount = Number(trade.amount);
+                                                    const cleanMarkPrice = Math.abs(trade.mark_price || 0);
+                                                    const legPnl = tradePnl(ledger, trade).totalPnl;
+                                                    const greeks = greeksByLeg.get(trade.id);
+                                                    
+                                                    // Calculate absolute entry price from the cash flow
+                                                    const entryPrice = (trade.quantity > 0) ? Math.abs(amount / (trade.quantity * trade.multiplier)) : 0;
+                                                    
+                                                    return (
+                                                        <TableRow key={trade.id} className="border-none hover:bg-transparent group/row">
+                                                            <TableCell className="pl-12 text-xs text-muted-foreground">{format(new Date(trade.date), 'MM/dd/yy')}</TableCell>
+                                                            <TableCell className="text-xs">
+                                                                <span className={trade.action.includes('BUY') ? "text-red-500" : "text-green-500"}>{trade.action}</span>
+                                                            </TableCell>
+                                                            <TableCell className="text-xs font-mono">{trade.symbol}</TableCell>
+                                                            <TableCell className="text-xs text-right font-mono">${entryPrice.toFixed(2)}</TableCell>
+                                                            <TableCell className="text-xs text-right font-mono">
+                                                                {trade.mark_price ? `$${cleanMarkPrice.toFixed(2)}` : '-'}
+                                                            </TableCell>
+                                                            <TableCell className={cn("text-xs text-right font-bold", legPnl >= 0 ? "text-green-600/70" : "text-red-600/70")}>
+                                                                {formatCurrency(legPnl)}
+                                                            </TableCell>
+                                                            <TableCell className="text-xs text-right font-mono">
+                                                                {greeks?.iv ? `${(greeks.iv * 100).toFixed(1)}%` : '-'}
+                                                            </TableCell>
+                                                            <GreeksCells greeks={greeks} />
+                                                            <TableCell>
+                                                              <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover/row:opacity-100 transition-opacity" onClick={() => handleEditTrade(trade)}>
+                                                                <Pencil className="h-3 w-3 text-muted-foreground" />
+                                                              </Button>
+                                                            </TableCell>
+                                                        </TableRow>
+                                                    );
+                                                })}
+                                            </TableBody>
+                                          </Table>
+                                        </div>
+                                      </TableCell>
+                                    </TableRow>
+                                  );
+                                }
+                                return rows;
+                              })}
+                              {tagGroup.trades.length === 0 && (
+                                  <TableRow>
+                                      <TableCell colSpan={14} className="text-center py-8 text-muted-foreground">
+                                          No trades in this tag yet.
+                                      </TableCell>
+                                  </TableRow>
+                              )}
+                            </TableBody>
+                          </Table>
+                        </div>
+                      </div>
+                      );
+                    })}
+                    {Object.keys(groupedTradesByTag).length === 0 && (
+                      <div className="text-center py-8 text-muted-foreground">
+                        No trades assigned to this strategy yet.
+                      </div>
+                    )}
                   </div>
                 )}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="analytics" className="space-y-4">
+            {/* TRADE STATISTICS */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Trade Statistics</CardTitle>
+                <CardDescription>
+                  Closed positions only, with a pair or a roll chain counted as one trade.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TradeStatisticsTable rows={tradeStatsRows} />
+              </CardContent>
+            </Card>
+
+            {/* DISTRIBUTION ANALYTICS */}
+            <Card>
+              <CardHeader className="flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle>Where the P&L Comes From</CardTitle>
+                  <CardDescription>
+                    Closed positions by entry DTE, days in trade, entry weekday and underlying.
+                  </CardDescription>
+                </div>
+                <Select value={analyticsScope} onValueChange={setAnalyticsScope}>
+                  <SelectTrigger className="w-[200px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Whole strategy</SelectItem>
+                    {tags?.map((tag) => (
+                      <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                    ))}
+                    <SelectItem value="untagged">Untagged trades</SelectItem>
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                <TradeAnalytics outcomes={outcomes} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
 
         {/* Floating Bulk Actions Bar */}
         <FloatingActionBar isOpen={selectedTradesForTagging.length > 0}>
@@ -0,0 +1,49 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface NetLiqLog {
+  id: string;
+  // yyyy-MM-dd
+  date: string;
+  amount: number;
+  created_at: string;
+}
+
+export interface CapitalFlow {
+  id: string;
+  // yyyy-MM-dd
+  date: string;
+  // Positive for deposit, negative for withdrawal
+  amount: number;
+  notes: string | null;
+  // Set for flows imported from a broker CSV
+  import_hash: string | null;
+  created_at: string;
+}
+
+// PostgREST caps responses at 1000 rows by default, and imported balance history easily exceeds that
+const HISTORY_PAGE = 1000;
+
+const fetchAll = async <T>(table: 'net_liquidity_logs' | 'capital_flows'): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .order('date', { ascending: true })
+      .order('created_at', { ascending: true })
+      .range(page * HISTORY_PAGE, (page + 1) * HISTORY_PAGE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < HISTORY_PAGE) break;
+  }
+  return rows;
+};
+
+// Every net liquidity log, oldest first. Shared by the dashboard and the ledger page under ['net-liq-logs'].
+export const fetchNetLiqLogs = () => fetchAll<NetLiqLog>('net_liquidity_logs');
+
+// Every deposit and withdrawal, oldest first. Shared by the dashboard and the ledger page under ['capital-flows'].
+export const fetchCapitalFlows = () => fetchAll<CapitalFlow>('capital_flows');
+
+// Postgres unique_violation, raised when a net liq log is moved onto a day that already has one
+export const isDuplicateDateError = (error: { code?: string } | null) => error?.code === '23505';
@@ -0,0 +1,44 @@
+import { generateLegacyImportHash, hasHeaders, normalizeAction, parseBrokerDate, sanitizeCurrency, toStoredSymbol, unreadableFields } from './helpers';
+import type { AdapterTrade, BrokerAdapter, RawCsvRow } from './types';
+
+// Fidelity "Accounts History" export.
+// Columns: Run Date, Action, Symbol, Description, Type, Quantity, Price ($), Commission ($), Fees ($), Amount ($), ...
+export const fidelityAdapter: BrokerAdapter = {
+  id: 'fidelity',
+  name: 'Fidelity',
+  detect: (headers) => hasHeaders(headers, ['Run Date', 'Action', 'Symbol', 'Price ($)', 'Amount ($)']),
+  mapRow: (row: RawCsvRow): AdapterTrade | null => {
+    const rawAction = (row.Action || '').trim().toUpperCase();
+    // Only fills start with "YOU BOUGHT" / "YOU SOLD"; dividends, transfers, etc are skipped here.
+    if (!rawAction.startsWith('YOU BOUGHT') && !rawAction.startsWith('YOU SOLD')) return null;
+    if (!row.Symbol?.trim()) return null;
+
+    const date = parseBrokerDate(row['Run Date'], ['MM/dd/yyyy']);
+
+    // Options look like '-SPY240119P470' (leading dash, unpadded strike)
+    const { symbol, instrument } = toStoredSymbol(row.Symbol);
+    const multiplier = instrument.assetClass === 'OPTION' ? 100 : 1;
+
+    return {
+      symbol,
+      date: date || '',
+      action: normalizeAction(rawAction),
+      quantity: Math.abs(sanitizeCurrency(row.Quantity)),
+      price: sanitizeCurrency(row['Price ($)']),
+      fees: Math.abs(sanitizeCurrency(row['Commission ($)'])) + Math.abs(sanitizeCurrency(row['Fees ($)'])),
+      amount: sanitizeCurrency(row['Amount ($)']),
+      asset_type: instrument.assetClass,
+      multiplier,
+      order_id: null,
+      legacy_hash: generateLegacyImportHash({
+        Symbol: row.Symbol,
+        Date: row['Run Date'],
+        Action: row.Action,
+        Quantity: row.Quantity,
+        Price: row['Price ($)'],
+        Amount: row['Amount ($)']
+      }),
+      unreadable: unreadableFields({ date }, { date: row['Run Date'] })
+    };
+  }
+};
@@ -0,0 +1,128 @@
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { parseInstrument, type Instrument } from '@/utils/instrument';
+import type { UnreadableFields } from '@/utils/csvParser';
+import type { RawCsvRow } from './types';
+
+// The original 32-bit row hash. No longer used as import_hash (identical fills collide),
+// but kept so trades imported before fingerprints can still be recognized on re-import.
+export const generateLegacyImportHash = (row: RawCsvRow): string => {
+  const str = JSON.stringify({
+    symbol: row.Symbol,
+    date: row.Date || row.Time,
+    action: row.Action,
+    qty: row.Quantity,
+    price: row['Average Price'] || row.Price,
+    amount: row.Value || row.Amount
+  });
+  
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return hash.toString(16);
+};
+
+// cyrb53: fast 53-bit string hash with good distribution.
+const cyrb53 = (str: string, seed: number): number => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+// Collision-resistant fingerprint (~106 bits) of the given parts, prefixed so it can't be confused with legacy hashes.
+export const generateFingerprint = (parts: (string | number | null | undefined)[]): string => {
+  const str = parts.map(part => part ?? '').join('|');
+  return `v2:${cyrb53(str, 1).toString(16).padStart(14, '0')}${cyrb53(str, 2).toString(16).padStart(14, '0')}`;
+};
+
+// Helper to sanitize and parse currency strings like "$1.23", "-$1,125.00" or "($45.67)"
+export const sanitizeCurrency = (value: string | undefined): number => {
+  if (!value) return 0;
+  let sanitized = value.toString().trim();
+
+  const isNegative = sanitized.startsWith('(') && sanitized.endsWith(')');
+
+  // Remove non-numeric characters except for the decimal point and minus sign.
+  // This will strip commas, quotes, dollar signs etc.
+  sanitized = sanitized.replace(/[^0-9.-]+/g, "");
+
+  const number = parseFloat(sanitized);
+
+  if (isNaN(number) || !isFinite(number)) return 0;
+
+  return isNegative ? -Math.abs(number) : number;
+};
+
+// True when every one of the given columns is present in the CSV header row.
+export const hasHeaders = (headers: string[], required: string[]): boolean => {
+  const normalized = new Set(headers.map(h => h.trim().toLowerCase()));
+  return required.every(h => normalized.has(h.toLowerCase()));
+};
+
+// Tries each date format in turn and returns an ISO timestamp, or null if none match.
+export const parseBrokerDate = (value: string | undefined, formats: string[]): string | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  for (const fmt of formats) {
+    const parsed = parse(trimmed, fmt, new Date());
+    if (isValid(parsed)) return parsed.toISOString();
+  }
+
+  const fallback = new Date(trimmed);
+  return isValid(fallback) ? fallback.toISOString() : null;
+};
+
+// The raw values of the fields an adapter couldn't read: a null date, or an UNKNOWN action.
+// Undefined when everything was read.
+export const unreadableFields = (
+  parsed: { date: string | null; action?: string },
+  raw: { date?: string; action?: string }
+): UnreadableFields | undefined => {
+  const unreadable: UnreadableFields = {};
+  if (!parsed.date) unreadable.date = raw.date || '';
+  if (parsed.action === 'UNKNOWN') unreadable.action = raw.action || '';
+  return Object.keys(unreadable).length > 0 ? unreadable : undefined;
+};
+
+// Builds a padded OCC option symbol, the same shape tastytrade exports.
+// Example: ('SPY', 2024-01-19, 'P', 470) -> 'SPY   240119P00470000'
+export const toOccSymbol = (root: string, expiration: Date, right: 'C' | 'P', strike: number): string => {
+  const strikeStr = Math.round(strike * 1000).toString().padStart(8, '0');
+  return `${root.toUpperCase().padEnd(6, ' ')}${format(expiration, 'yyMMdd')}${right}${strikeStr}`;
+};
+
+// Normalizes free-form broker actions ("Sell to Open", "YOU BOUGHT CLOSING TRANSACTION") to
+// the tastytrade vocabulary used throughout the app: BUY_TO_OPEN, SELL_TO_CLOSE, BUY, SELL...
+export const normalizeAction = (action: string | undefined): string => {
+  const upper = (action || '').toUpperCase();
+  const side = upper.includes('SELL') || upper.includes('SOLD')
+    ? 'SELL'
+    : upper.includes('BUY') || upper.includes('BOUGHT')
+      ? 'BUY'
+      : null;
+
+  if (!side) return 'UNKNOWN';
+  if (upper.includes('OPEN')) return `${side}_TO_OPEN`;
+  if (upper.includes('CLOS')) return `${side}_TO_CLOSE`;
+  return side;
+};
+
+// Options are stored as padded OCC so a contract has one symbol whichever broker it came from.
+export const toStoredSymbol = (symbol: string): { symbol: string; instrument: Instrument } => {
+  const instrument = parseInstrument(symbol);
+  if (instrument.assetClass !== 'OPTION') return { symbol: symbol.trim(), instrument };
+  return {
+    symbol: toOccSymbol(instrument.root, parseISO(instrument.expiry!), instrument.right!, instrument.strike!),
+    instrument
+  };
+};
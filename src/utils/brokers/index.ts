@@ -0,0 +1,21 @@
+import { tastytradeAdapter } from './tastytrade';
+import { schwabAdapter } from './schwab';
+import { fidelityAdapter } from './fidelity';
+import { webullAdapter } from './webull';
+import type { BrokerAdapter, BrokerId } from './types';
+
+export type { AdapterCashEvent, AdapterTrade, BrokerAdapter, BrokerId, RawCsvRow } from './types';
+
+// Order matters: detection returns the first adapter whose headers match.
+export const BROKER_ADAPTERS: BrokerAdapter[] = [
+  tastytradeAdapter,
+  schwabAdapter,
+  fidelityAdapter,
+  webullAdapter,
+];
+
+export const getBrokerAdapter = (id: BrokerId): BrokerAdapter | undefined =>
+  BROKER_ADAPTERS.find(adapter => adapter.id === id);
+
+export const detectBrokerAdapter = (headers: string[]): BrokerAdapter | undefined =>
+  BROKER_ADAPTERS.find(adapter => adapter.detect(headers));
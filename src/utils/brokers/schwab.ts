@@ -0,0 +1,50 @@
+import { generateLegacyImportHash, hasHeaders, normalizeAction, parseBrokerDate, sanitizeCurrency, toStoredSymbol, unreadableFields } from './helpers';
+import type { SettlementEvent } from '@/utils/csvParser';
+import type { AdapterTrade, BrokerAdapter, RawCsvRow } from './types';
+
+// Option legs Schwab closes itself: "Expired", "Assigned", "Exchange or Exercise".
+const settlementEvent = (action: string | undefined): SettlementEvent | null => {
+  const value = (action || '').toLowerCase();
+  if (value.includes('expired')) return 'EXPIRATION';
+  if (value.includes('assigned')) return 'ASSIGNMENT';
+  if (value.includes('exercise')) return 'EXERCISE';
+  return null;
+};
+
+// Schwab transaction history export.
+// Columns: Date, Action, Symbol, Description, Quantity, Price, Fees & Comm, Amount
+export const schwabAdapter: BrokerAdapter = {
+  id: 'schwab',
+  name: 'Charles Schwab',
+  detect: (headers) => hasHeaders(headers, ['Date', 'Action', 'Symbol', 'Quantity', 'Price', 'Fees & Comm', 'Amount']),
+  mapRow: (row: RawCsvRow): AdapterTrade | null => {
+    const event = settlementEvent(row.Action);
+    // Settlement rows don't say which side was closed; the import resolves it against the open leg.
+    const action = event ? 'UNKNOWN' : normalizeAction(row.Action);
+    // Dividends, interest and transfers have no quantity. Other actions we can't read are staged so they show up.
+    if (!row.Symbol || (action === 'UNKNOWN' && !event && !sanitizeCurrency(row.Quantity))) return null;
+
+    // Dates can read "01/16/2024 as of 01/12/2024"; the first date is the trade date.
+    const date = parseBrokerDate(row.Date?.split(' as of ')[0], ['MM/dd/yyyy']);
+
+    // Options look like 'SPY 01/19/2024 470.00 P'
+    const { symbol, instrument } = toStoredSymbol(row.Symbol);
+    const multiplier = instrument.assetClass === 'OPTION' ? 100 : 1;
+
+    return {
+      symbol,
+      date: date || '',
+      action,
+      quantity: Math.abs(sanitizeCurrency(row.Quantity)),
+      price: event ? 0 : sanitizeCurrency(row.Price),
+      fees: Math.abs(sanitizeCurrency(row['Fees & Comm'])),
+      amount: event ? 0 : sanitizeCurrency(row.Amount),
+      asset_type: instrument.assetClass,
+      multiplier,
+      order_id: null,
+      legacy_hash: generateLegacyImportHash(row),
+      event,
+      unreadable: unreadableFields({ date, action: event ? undefined : action }, { date: row.Date, action: row.Action })
+    };
+  }
+};
@@ -0,0 +1,102 @@
+import { generateLegacyImportHash, hasHeaders, normalizeAction, parseBrokerDate, sanitizeCurrency, unreadableFields } from './helpers';
+import type { CashEventCategory, SettlementEvent } from '@/utils/csvParser';
+import { isOptionInstrument, parseInstrument } from '@/utils/instrument';
+import type { AdapterCashEvent, AdapterTrade, BrokerAdapter, RawCsvRow } from './types';
+
+// Receive Deliver sub types for option legs the broker closed. The delivered stock rows have ordinary
+// sub types ("Buy to Open") and are imported as regular fills.
+const settlementEvent = (subType: string | undefined): SettlementEvent | null => {
+  const value = (subType || '').toLowerCase();
+  // Cash-settled index options deliver no shares, so they close like an expiration
+  if (value.includes('expiration') || value.includes('cash settled')) return 'EXPIRATION';
+  if (value.includes('assignment')) return 'ASSIGNMENT';
+  if (value.includes('exercise')) return 'EXERCISE';
+  return null;
+};
+
+// Dates are ISO timestamps with an offset: "2024-01-16T09:31:05-0500"
+const DATE_FORMATS = ["yyyy-MM-dd'T'HH:mm:ssxx", "yyyy-MM-dd'T'HH:mm:ssXXX"];
+
+// Money Movement rows are told apart by their Sub Type; fee adjustments only say so in the description.
+const classifyMoneyMovement = (subType: string, description: string): CashEventCategory => {
+  switch (subType.toLowerCase()) {
+    case 'deposit': return 'DEPOSIT';
+    case 'withdrawal': return 'WITHDRAWAL';
+    case 'dividend': return 'DIVIDEND';
+    case 'credit interest': return 'CREDIT_INTEREST';
+    case 'debit interest':
+    case 'margin interest': return 'MARGIN_INTEREST';
+  }
+  if (/fee/i.test(subType) || /regulatory|fee/i.test(description)) return 'REGULATORY_FEE';
+  return 'OTHER';
+};
+
+// tastytrade transaction history export.
+// Columns: Date, Type, Sub Type, Action, Symbol, Instrument Type, Description, Value, Quantity,
+// Average Price, Commissions, Fees, Multiplier, Root Symbol, Underlying Symbol, ...
+export const tastytradeAdapter: BrokerAdapter = {
+  id: 'tastytrade',
+  name: 'tastytrade',
+  detect: (headers) => hasHeaders(headers, ['Type', 'Action', 'Symbol', 'Instrument Type', 'Average Price', 'Value']),
+  mapRow: (row: RawCsvRow): AdapterTrade | null => {
+    // Receive Deliver rows are expirations, assignments and exercises, plus the stock they deliver
+    const isValidTrade = (row.Type === 'Trade' || row.Type === 'Receive Deliver') && !!row.Symbol;
+    console.log(`🔍 Trade filter - Type: "${row.Type}", Symbol: "${row.Symbol}", valid: ${isValidTrade}`);
+    if (!isValidTrade) return null;
+
+    const quantity = parseFloat(row.Quantity || '0');
+    const pricePerContract = sanitizeCurrency(row['Average Price']);
+    const amount = sanitizeCurrency(row.Value);
+    const commissions = sanitizeCurrency(row.Commissions);
+    const fees = sanitizeCurrency(row.Fees);
+
+    const instrument = parseInstrument(row.Symbol);
+
+    let multiplier = parseFloat(row.Multiplier);
+    if (isNaN(multiplier) || multiplier === 0) {
+      multiplier = isOptionInstrument(instrument) ? 100 : 1;
+    }
+
+    const asset_type = instrument.assetClass;
+    const event = settlementEvent(row['Sub Type']);
+    const rawDate = row.Date || row.Time;
+    const date = parseBrokerDate(rawDate, DATE_FORMATS);
+
+    return {
+      symbol: row.Symbol,
+      date: date || '',
+      action: row.Action?.toUpperCase() || (event ? 'UNKNOWN' : normalizeAction(row['Sub Type'])),
+      quantity: Math.abs(quantity),
+      // Options settled by the broker leave (or arrive) at zero; the stock side carries the strike
+      price: event ? 0 : pricePerContract,
+      fees: Math.abs(commissions) + Math.abs(fees),
+      amount,
+      asset_type,
+      multiplier,
+      order_id: row['Order #']?.trim() || null,
+      legacy_hash: generateLegacyImportHash(row),
+      event,
+      unreadable: unreadableFields({ date }, { date: rawDate })
+    };
+  },
+  mapCashRow: (row: RawCsvRow): AdapterCashEvent | null => {
+    if (row.Type !== 'Money Movement') return null;
+
+    const amount = sanitizeCurrency(row.Value);
+    const description = row.Description?.trim() || '';
+    let category = classifyMoneyMovement(row['Sub Type']?.trim() || '', description);
+    // Transfers out are sometimes labelled as deposits with a negative value
+    if (category === 'DEPOSIT' && amount < 0) category = 'WITHDRAWAL';
+
+    const rawDate = row.Date || row.Time;
+    const date = parseBrokerDate(rawDate, DATE_FORMATS);
+
+    return {
+      date: date || '',
+      category,
+      amount,
+      description,
+      unreadable: unreadableFields({ date }, { date: rawDate })
+    };
+  }
+};
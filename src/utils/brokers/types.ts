@@ -0,0 +1,21 @@
+import type { ParsedCashEvent, ParsedTrade } from '@/utils/csvParser';
+
+export type BrokerId = 'tastytrade' | 'schwab' | 'fidelity' | 'webull';
+
+export type RawCsvRow = Record<string, string | undefined>;
+
+export type AdapterTrade = Omit<ParsedTrade, 'import_hash'>;
+
+export type AdapterCashEvent = Omit<ParsedCashEvent, 'import_hash'>;
+
+export interface BrokerAdapter {
+  id: BrokerId;
+  name: string;
+  // Returns true when the CSV header row looks like this broker's export.
+  detect: (headers: string[]) => boolean;
+  // Maps one CSV row to a trade. Returns null for rows that are not fills (cash movements, summaries, etc).
+  // import_hash is assigned afterwards, once every row of the file is known.
+  mapRow: (row: RawCsvRow) => AdapterTrade | null;
+  // Maps a cash movement row (deposit, dividend, interest, fee...). Optional: not every export carries them.
+  mapCashRow?: (row: RawCsvRow) => AdapterCashEvent | null;
+}
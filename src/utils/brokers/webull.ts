@@ -0,0 +1,49 @@
+import { generateLegacyImportHash, hasHeaders, normalizeAction, parseBrokerDate, sanitizeCurrency, toStoredSymbol, unreadableFields } from './helpers';
+import type { AdapterTrade, BrokerAdapter, RawCsvRow } from './types';
+
+// Webull order history export. Only filled orders are imported.
+// Columns: Name, Symbol, Side, Status, Filled, Total Qty, Price, Avg Price, Time-in-Force, Placed Time, Filled Time
+export const webullAdapter: BrokerAdapter = {
+  id: 'webull',
+  name: 'Webull',
+  detect: (headers) => hasHeaders(headers, ['Symbol', 'Side', 'Status', 'Filled', 'Avg Price', 'Filled Time']),
+  mapRow: (row: RawCsvRow): AdapterTrade | null => {
+    if ((row.Status || '').trim().toLowerCase() !== 'filled' || !row.Symbol) return null;
+
+    // Timestamps carry a timezone abbreviation ("01/16/2024 09:31:05 EST") that date-fns can't parse.
+    const rawDate = row['Filled Time'] || row['Placed Time'];
+    const timestamp = (rawDate || '').replace(/\s+[A-Z]{2,4}$/, '');
+    const date = parseBrokerDate(timestamp, ['MM/dd/yyyy HH:mm:ss', 'MM/dd/yyyy']);
+
+    // Webull doesn't say whether a fill opens or closes, so only the side is recorded.
+    const action = normalizeAction(row.Side);
+
+    // Options are unpadded OCC: 'SPY240119P00470000'
+    const { symbol, instrument } = toStoredSymbol(row.Symbol);
+    const multiplier = instrument.assetClass === 'OPTION' ? 100 : 1;
+    const quantity = Math.abs(sanitizeCurrency(row.Filled));
+    const price = sanitizeCurrency(row['Avg Price']);
+    const sign = action.startsWith('SELL') ? 1 : -1;
+
+    return {
+      symbol,
+      date: date || '',
+      action,
+      quantity,
+      price,
+      fees: 0,
+      amount: sign * quantity * price * multiplier,
+      asset_type: instrument.assetClass,
+      multiplier,
+      order_id: null,
+      legacy_hash: generateLegacyImportHash({
+        Symbol: row.Symbol,
+        Date: row['Filled Time'],
+        Action: row.Side,
+        Quantity: row.Filled,
+        Price: row['Avg Price']
+      }),
+      unreadable: unreadableFields({ date, action }, { date: rawDate, action: row.Side })
+    };
+  }
+};
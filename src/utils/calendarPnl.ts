@@ -0,0 +1,100 @@
+import { addDays, endOfMonth, format, startOfMonth, startOfWeek } from 'date-fns';
+import type { PositionLedger } from '@/utils/positionLedger';
+import type { CashFlowPoint, ValuePoint } from '@/utils/performance';
+
+export interface CalendarDay {
+  // yyyy-MM-dd
+  date: string;
+  pnl: number | null;
+}
+
+export interface CalendarWeek {
+  // Monday, yyyy-MM-dd
+  weekStart: string;
+  // Monday to Friday; null for days outside the month
+  days: (CalendarDay | null)[];
+  total: number;
+}
+
+export interface CalendarMonth {
+  // yyyy-MM
+  month: string;
+  weeks: CalendarWeek[];
+  total: number;
+}
+
+const day = (date: string) => format(new Date(date), 'yyyy-MM-dd');
+
+// Change in net liquidity since the previous log, less the deposits and withdrawals in between
+export const netLiqDailyPnl = (values: ValuePoint[], flows: CashFlowPoint[]): Map<string, number> => {
+  const sorted = [...values].sort((a, b) => a.date.localeCompare(b.date));
+  const daily = new Map<string, number>();
+
+  sorted.slice(1).forEach((point, index) => {
+    const previous = sorted[index];
+    const netFlows = flows
+      .filter(flow => flow.date > previous.date && flow.date <= point.date)
+      .reduce((sum, flow) => sum + Number(flow.amount), 0);
+    daily.set(point.date, Number(point.value) - Number(previous.value) - netFlows);
+  });
+  return daily;
+};
+
+// Realized P&L booked on the day of each closing fill; with tradeIds, only the closes by those fills
+export const realizedDailyPnl = (ledger: PositionLedger, tradeIds?: Set<string>): Map<string, number> => {
+  const daily = new Map<string, number>();
+  ledger.lots.forEach(lot => lot.closes.forEach(close => {
+    if (tradeIds && !tradeIds.has(close.tradeId)) return;
+    const closeDay = day(close.date);
+    daily.set(closeDay, (daily.get(closeDay) || 0) + close.realizedPnl);
+  }));
+  return daily;
+};
+
+// Trades behind a day: the fills that opened lots and the fills that closed them, with what each close realized
+export const tradesOnDay = (ledger: PositionLedger, date: string) => {
+  const opened = new Set<string>();
+  const closed = new Map<string, number>();
+
+  ledger.lots.forEach(lot => {
+    if (day(lot.openDate) === date) opened.add(lot.tradeId);
+    lot.closes.forEach(close => {
+      if (day(close.date) === date) closed.set(close.tradeId, (closed.get(close.tradeId) || 0) + close.realizedPnl);
+    });
+  });
+
+  return { opened, closed };
+};
+
+// Weekday grid of each month in a year, with weekly and monthly totals
+export const buildCalendarMonths = (daily: Map<string, number>, year: number): CalendarMonth[] => {
+  return Array.from({ length: 12 }, (_, monthIndex) => {
+    const first = startOfMonth(new Date(year, monthIndex, 1));
+    const last = endOfMonth(first);
+    const month = format(first, 'yyyy-MM');
+    const weeks: CalendarWeek[] = [];
+
+    for (let weekStart = startOfWeek(first, { weekStartsOn: 1 }); weekStart <= last; weekStart = addDays(weekStart, 7)) {
+      const days = Array.from({ length: 5 }, (_, offset) => {
+        const date = addDays(weekStart, offset);
+        if (date < first || date > last) return null;
+        const dateStr = format(date, 'yyyy-MM-dd');
+        return { date: dateStr, pnl: daily.get(dateStr) ?? null };
+      });
+      // A month starting on a weekend has an empty first row
+      if (days.every(d => d === null)) continue;
+
+      // Weekend entries aren't drawn but still count toward the week, as logs can be backdated to any day
+      const total = Array.from({ length: 7 }, (_, offset) => addDays(weekStart, offset))
+        .filter(date => date >= first && date <= last)
+        .reduce((sum, date) => sum + (daily.get(format(date, 'yyyy-MM-dd')) || 0), 0);
+      weeks.push({ weekStart: format(weekStart, 'yyyy-MM-dd'), days, total });
+    }
+
+    const total = Array.from(daily.entries())
+      .filter(([date]) => date.startsWith(month))
+      .reduce((sum, [, pnl]) => sum + pnl, 0);
+
+    return { month, weeks, total };
+  });
+};
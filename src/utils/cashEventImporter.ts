@@ -0,0 +1,94 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { CashEventCategory, ParsedCashEvent } from '@/utils/csvParser';
+
+export const CASH_EVENT_LABELS: Record<CashEventCategory, string> = {
+  DEPOSIT: 'Deposit',
+  WITHDRAWAL: 'Withdrawal',
+  DIVIDEND: 'Dividend',
+  CREDIT_INTEREST: 'Credit Interest',
+  MARGIN_INTEREST: 'Margin Interest',
+  REGULATORY_FEE: 'Regulatory Fee',
+  OTHER: 'Other',
+};
+
+// Deposits and withdrawals are capital flows (they drive the dashboard's flow-adjusted returns);
+// everything else is income or cost and goes to cash_events.
+export const isCapitalFlow = (event: ParsedCashEvent) =>
+  event.category === 'DEPOSIT' || event.category === 'WITHDRAWAL';
+
+export interface CashImportResult {
+  flows: number;
+  events: number;
+  duplicates: number;
+  // Imported deposits/withdrawals that were already entered by hand through the dashboard dialog
+  manualMatches: number;
+}
+
+const toLocalDate = (iso: string) => format(new Date(iso), 'yyyy-MM-dd');
+
+export const importCashEvents = async (events: ParsedCashEvent[], userId: string): Promise<CashImportResult> => {
+  const result: CashImportResult = { flows: 0, events: 0, duplicates: 0, manualMatches: 0 };
+  if (events.length === 0) return result;
+
+  const flows = events.filter(isCapitalFlow);
+  const others = events.filter(event => !isCapitalFlow(event));
+
+  if (flows.length > 0) {
+    // Flows recorded by hand have no import_hash. Skip imported flows that match one on date and amount,
+    // otherwise the dashboard would count the same deposit twice.
+    const dates = flows.map(f => toLocalDate(f.date)).sort();
+    const { data: manual, error: manualError } = await supabase
+      .from('capital_flows')
+      .select('id, date, amount')
+      .is('import_hash', null)
+      .gte('date', dates[0])
+      .lte('date', dates[dates.length - 1]);
+    if (manualError) throw manualError;
+
+    const usedManual = new Set<string>();
+    const newFlows = flows.filter(flow => {
+      const match = manual?.find(m =>
+        !usedManual.has(m.id) && m.date === toLocalDate(flow.date) && Math.abs(Number(m.amount) - flow.amount) < 0.01
+      );
+      if (match) usedManual.add(match.id);
+      return !match;
+    });
+    result.manualMatches = flows.length - newFlows.length;
+
+    if (newFlows.length > 0) {
+      const { data, error } = await supabase
+        .from('capital_flows')
+        .upsert(newFlows.map(flow => ({
+          user_id: userId,
+          date: toLocalDate(flow.date),
+          amount: flow.amount,
+          notes: flow.description || null,
+          import_hash: flow.import_hash
+        })), { onConflict: 'user_id,import_hash', ignoreDuplicates: true })
+        .select('id');
+      if (error) throw error;
+      result.flows = data?.length || 0;
+      result.duplicates += newFlows.length - result.flows;
+    }
+  }
+
+  if (others.length > 0) {
+    const { data, error } = await supabase
+      .from('cash_events')
+      .upsert(others.map(event => ({
+        user_id: userId,
+        date: toLocalDate(event.date),
+        category: event.category,
+        amount: event.amount,
+        description: event.description || null,
+        import_hash: event.import_hash
+      })), { onConflict: 'user_id,import_hash', ignoreDuplicates: true })
+      .select('id');
+    if (error) throw error;
+    result.events = data?.length || 0;
+    result.duplicates += others.length - result.events;
+  }
+
+  return result;
+};
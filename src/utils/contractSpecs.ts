@@ -0,0 +1,108 @@
+import { supabase } from '@/integrations/supabase/client';
+import { parseInstrument } from '@/utils/instrument';
+
+export interface ContractSpec {
+  root: string;
+  // Dollars per one point move of the futures price; the multiplier for the contract and its options.
+  point_value: number;
+  tick_size: number;
+  exchange: string;
+}
+
+export const DEFAULT_CONTRACT_SPECS: ContractSpec[] = [
+  { root: 'ES', point_value: 50, tick_size: 0.25, exchange: 'CME' },
+  { root: 'MES', point_value: 5, tick_size: 0.25, exchange: 'CME' },
+  { root: 'NQ', point_value: 20, tick_size: 0.25, exchange: 'CME' },
+  { root: 'MNQ', point_value: 2, tick_size: 0.25, exchange: 'CME' },
+  { root: 'RTY', point_value: 50, tick_size: 0.1, exchange: 'CME' },
+  { root: 'M2K', point_value: 5, tick_size: 0.1, exchange: 'CME' },
+  { root: 'YM', point_value: 5, tick_size: 1, exchange: 'CBOT' },
+  { root: 'MYM', point_value: 0.5, tick_size: 1, exchange: 'CBOT' },
+  { root: 'ZB', point_value: 1000, tick_size: 0.03125, exchange: 'CBOT' },
+  { root: 'ZN', point_value: 1000, tick_size: 0.015625, exchange: 'CBOT' },
+  { root: 'ZC', point_value: 50, tick_size: 0.25, exchange: 'CBOT' },
+  { root: 'ZS', point_value: 50, tick_size: 0.25, exchange: 'CBOT' },
+  { root: 'CL', point_value: 1000, tick_size: 0.01, exchange: 'NYMEX' },
+  { root: 'MCL', point_value: 100, tick_size: 0.01, exchange: 'NYMEX' },
+  { root: 'NG', point_value: 10000, tick_size: 0.001, exchange: 'NYMEX' },
+  { root: 'GC', point_value: 100, tick_size: 0.1, exchange: 'COMEX' },
+  { root: 'MGC', point_value: 10, tick_size: 0.1, exchange: 'COMEX' },
+  { root: 'SI', point_value: 5000, tick_size: 0.005, exchange: 'COMEX' },
+  { root: '6E', point_value: 125000, tick_size: 0.00005, exchange: 'CME' },
+];
+
+// Keeps the `in (...)` filter well under PostgREST's URL length limit
+const ID_UPDATE_CHUNK = 200;
+
+// PostgREST caps responses at 1000 rows by default
+const TRADES_PAGE = 1000;
+
+export type ContractSpecMap = Map<string, ContractSpec>;
+
+// Defaults overlaid with the user's saved rows, keyed by root.
+export const fetchContractSpecs = async (): Promise<ContractSpecMap> => {
+  const { data, error } = await supabase
+    .from('contract_specs')
+    .select('root, point_value, tick_size, exchange');
+  if (error) throw error;
+
+  const specs: ContractSpecMap = new Map(DEFAULT_CONTRACT_SPECS.map(spec => [spec.root, spec]));
+  data?.forEach(row => specs.set(row.root, {
+    root: row.root,
+    point_value: Number(row.point_value),
+    tick_size: Number(row.tick_size),
+    exchange: row.exchange || '',
+  }));
+  return specs;
+};
+
+// The multiplier a leg should carry: the point value of its root for futures and futures options,
+// otherwise whatever it already has.
+export const contractMultiplier = (symbol: string, current: number, specs: ContractSpecMap): number => {
+  const instrument = parseInstrument(symbol);
+  if (instrument.assetClass !== 'FUTURES' && instrument.assetClass !== 'FUTURES_OPTION') return current;
+  return specs.get(instrument.root)?.point_value ?? current;
+};
+
+export const withContractMultiplier = <T extends { symbol: string; multiplier: number }>(trade: T, specs: ContractSpecMap): T => ({
+  ...trade,
+  multiplier: contractMultiplier(trade.symbol, trade.multiplier, specs),
+});
+
+// Re-applies the specs to stored futures legs, optionally limited to one strategy. Each leg gets its own
+// root's point value, so a strategy mixing /ES and /MES stays correct. Returns the number of legs changed.
+export const applyContractSpecsToTrades = async (specs: ContractSpecMap, strategyId?: string): Promise<number> => {
+  const trades: { id: string; symbol: string; multiplier: number }[] = [];
+  for (let page = 0; ; page++) {
+    let query = supabase
+      .from('trades')
+      .select('id, symbol, multiplier')
+      .in('asset_type', ['FUTURES', 'FUTURES_OPTION']);
+    if (strategyId) query = query.eq('strategy_id', strategyId);
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .range(page * TRADES_PAGE, (page + 1) * TRADES_PAGE - 1);
+    if (error) throw error;
+    trades.push(...(data || []));
+    if (!data || data.length < TRADES_PAGE) break;
+  }
+
+  const idsByMultiplier = new Map<number, string[]>();
+  trades.forEach(trade => {
+    const multiplier = contractMultiplier(trade.symbol, Number(trade.multiplier), specs);
+    if (multiplier === Number(trade.multiplier)) return;
+    idsByMultiplier.set(multiplier, [...(idsByMultiplier.get(multiplier) || []), trade.id]);
+  });
+
+  let updated = 0;
+  for (const [multiplier, ids] of idsByMultiplier) {
+    for (let i = 0; i < ids.length; i += ID_UPDATE_CHUNK) {
+      const chunk = ids.slice(i, i + ID_UPDATE_CHUNK);
+      const { error: updateError } = await supabase.from('trades').update({ multiplier }).in('id', chunk);
+      if (updateError) throw updateError;
+      updated += chunk.length;
+    }
+  }
+  return updated;
+};
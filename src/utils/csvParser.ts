@@ -1,96 +1,15 @@
 import Papa from 'papaparse';
-import { format, parse } from 'date-fns';
+import { BROKER_ADAPTERS, detectBrokerAdapter, getBrokerAdapter, type AdapterCashEvent, type AdapterTrade, type BrokerAdapter, type BrokerId, type RawCsvRow } from './brokers';
+import { generateFingerprint } from './brokers/helpers';
 
-// Helper to create a simple hash for duplicate detection
-export const generateImportHash = (row: any): string => {
-  const str = JSON.stringify({
-    symbol: row.Symbol,
-    date: row.Date || row.Time,
-    action: row.Action,
-    qty: row.Quantity,
-    price: row['Average Price'] || row.Price,
-    amount: row.Value || row.Amount
-  });
-  
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return hash.toString(16);
-};
-
-// Parses tastytrade trade history symbols into a standardized format.
-// Example Input: 'SPY 12/18/26 C670' -> Output: 'SPY:2026-12-18:670.00:C'
-// Example Input: 'NVDA   241220C00140000' -> Output: 'NVDA:2024-12-20:140.00:C'
-// Example Input: './ESH6 EWF6  260130P5925' -> Output: './ESH6 EWF6:2026-01-30:5925.00:P'
-export const parseSymbolToCanonical = (symbol: string, type: string): string => {
-  console.log(`🔍 Trade CSV - Parsing symbol: "${symbol}" of type: "${type}"`);
-  
-  if (type !== 'OPTION' && type !== 'FUTURES_OPTION') {
-    const result = symbol.trim();
-    console.log(`✅ Stock symbol: ${result}`);
-    return result;
-  }
-  
-  const trimmed = symbol.trim();
-  
-  // Updated regex to support complex futures symbols (characters, slashes, numbers, spaces in underlying)
-  // Matches: UNDERLYING + SPACES + YYMMDD + TYPE + STRIKE
-  const occMatch = trimmed.match(/^(.+?)\s+(\d{6})([CP])(\d+)$/);
-  
-  if (occMatch) {
-    try {
-      const [, underlying, dateStr, callPut, strikeStr] = occMatch;
-      
-      console.log(`📊 OCC format - underlying=${underlying}, date=${dateStr}, type=${callPut}, strike=${strikeStr}`);
-      
-      const expDate = parse(dateStr, 'yyMMdd', new Date());
-      const formattedDate = format(expDate, 'yyyy-MM-dd');
-      
-      let strike = 0;
-      if (strikeStr.length === 8) {
-         strike = parseFloat(strikeStr) / 1000;
-      } else {
-         strike = parseFloat(strikeStr);
-      }
-
-      const canonical = `${underlying}:${formattedDate}:${strike.toFixed(2)}:${callPut}`;
-      console.log(`✅ OCC canonical: ${canonical}`);
-      return canonical;
-    } catch (e) {
-      console.warn(`⚠️ Could not parse OCC format: ${symbol}`, e);
-    }
-  }
-  
-  // Try the human-readable format: 'SPY 12/18/26 C670'
-  const parts = trimmed.split(/\s+/);
-  if (parts.length >= 3) {
-    try {
-      const underlying = parts[0];
-      const dateStr = parts[1];
-      const optionPart = parts[2];
-
-      console.log(`📊 Human format - underlying=${underlying}, date=${dateStr}, option=${optionPart}`);
-
-      const expDate = parse(dateStr, 'MM/dd/yy', new Date());
-      const formattedDate = format(expDate, 'yyyy-MM-dd');
-      
-      const callPut = optionPart.charAt(0).toUpperCase();
-      const strike = parseFloat(optionPart.substring(1));
+export type SettlementEvent = 'EXPIRATION' | 'ASSIGNMENT' | 'EXERCISE';
 
-      const canonical = `${underlying}:${formattedDate}:${strike.toFixed(2)}:${callPut}`;
-      console.log(`✅ Human canonical: ${canonical}`);
-      return canonical;
-    } catch (e) {
-      console.warn(`⚠️ Could not parse human format: ${symbol}`);
-    }
-  }
-
-  console.warn(`❌ Could not parse trade symbol: ${symbol}`);
-  return trimmed;
-};
+// Values an adapter couldn't read, as they appeared in the file. The field itself is left empty (date) or
+// UNKNOWN (action) and the row is kept, so staging can show why it's blocked.
+export interface UnreadableFields {
+  date?: string;
+  action?: string;
+}
 
 export interface ParsedTrade {
   symbol: string;
@@ -103,82 +22,100 @@ export interface ParsedTrade {
   asset_type: string;
   import_hash: string;
   multiplier: number;
+  // Broker order number, when the export has one. Fills of the same order share it.
+  order_id?: string | null;
+  // Pre-fingerprint hash of the row; only used to recognize trades imported by older versions.
+  legacy_hash?: string;
+  // Set on option legs closed by the broker rather than by a fill.
+  event?: SettlementEvent | null;
+  notes?: string | null;
+  unreadable?: UnreadableFields;
 }
 
-// Helper to sanitize and parse currency strings like "$1.23" or "($45.67)"
-const sanitizeCurrency = (value: string | undefined): number => {
-  if (!value) return 0;
-  let sanitized = value.trim();
-  
-  const isNegative = sanitized.startsWith('(') && sanitized.endsWith(')');
-  
-  // Remove non-numeric characters except for the decimal point and minus sign.
-  // This will strip commas, quotes, dollar signs etc.
-  sanitized = sanitized.replace(/[^0-9.-]+/g, "");
-  
-  let number = parseFloat(sanitized);
-  
-  if (isNaN(number)) return 0;
-  
-  return isNegative ? -Math.abs(number) : number;
+export type CashEventCategory =
+  | 'DEPOSIT'
+  | 'WITHDRAWAL'
+  | 'DIVIDEND'
+  | 'CREDIT_INTEREST'
+  | 'MARGIN_INTEREST'
+  | 'REGULATORY_FEE'
+  | 'OTHER';
+
+export interface ParsedCashEvent {
+  date: string;
+  category: CashEventCategory;
+  // Signed: positive is cash into the account.
+  amount: number;
+  description: string;
+  import_hash: string;
+  unreadable?: UnreadableFields;
+}
+
+export interface TradeImportResult {
+  adapter: BrokerAdapter;
+  trades: ParsedTrade[];
+  cashEvents: ParsedCashEvent[];
+}
+
+// The fields that identify a fill, normalized so the same fill hashes the same regardless of CSV formatting.
+export const tradeFingerprintKey = (trade: AdapterTrade): string =>
+  [trade.symbol, trade.date, trade.action, trade.quantity, trade.price.toFixed(4), trade.amount.toFixed(2), trade.order_id || '']
+    .join('|');
+
+// Hashes each item by its key plus an occurrence index, so identical rows (fills of one order split
+// at the same price, two same-day deposits of the same size) hash differently instead of being dropped as
+// duplicates. The index follows file order, so re-importing the same export yields the same hashes.
+const withImportHashes = <T>(items: T[], keyOf: (item: T) => string): (T & { import_hash: string })[] => {
+  const occurrences = new Map<string, number>();
+
+  return items.map(item => {
+    const key = keyOf(item);
+    const occurrence = occurrences.get(key) || 0;
+    occurrences.set(key, occurrence + 1);
+    return { ...item, import_hash: generateFingerprint([key, occurrence]) };
+  });
 };
 
-export const parseTradeCSV = (file: File): Promise<ParsedTrade[]> => {
+export const assignImportHashes = (trades: AdapterTrade[]): ParsedTrade[] =>
+  withImportHashes(trades, tradeFingerprintKey);
+
+const assignCashEventHashes = (events: AdapterCashEvent[]): ParsedCashEvent[] =>
+  withImportHashes(events, event => ['cash', event.date, event.category, event.amount.toFixed(2), event.description].join('|'));
+
+// Parses a broker transactions CSV. With adapterId 'auto' the broker is detected from the header row.
+export const parseTradeCSV = (file: File, adapterId: BrokerId | 'auto' = 'auto'): Promise<TradeImportResult> => {
   return new Promise((resolve, reject) => {
     Papa.parse(file, {
       header: true,
       skipEmptyLines: true,
+      transformHeader: (header) => header.trim(),
       complete: (results) => {
         try {
           console.log(`📋 Trade CSV raw data:`, results.data);
-          
-          const trades: ParsedTrade[] = (results.data as any[])
-            .filter((row: any) => {
-              const isValidTrade = row.Type === 'Trade' && row.Symbol;
-              console.log(`🔍 Trade filter - Type: "${row.Type}", Symbol: "${row.Symbol}", valid: ${isValidTrade}`);
-              return isValidTrade;
-            })
-            .map((row: any) => {
-              console.log(`🔄 Processing trade row:`, row);
-              
-              const quantity = parseFloat(row.Quantity || '0');
-              const pricePerContract = sanitizeCurrency(row['Average Price']);
-              const amount = sanitizeCurrency(row.Value);
-              const commissions = sanitizeCurrency(row.Commissions);
-              const fees = sanitizeCurrency(row.Fees);
-              
-              let multiplier = parseFloat(row.Multiplier);
-              if (isNaN(multiplier) || multiplier === 0) {
-                const instrumentType = row['Instrument Type'] || '';
-                if (instrumentType.includes('Option')) {
-                  multiplier = 100;
-                } else {
-                  multiplier = 1;
-                }
-              }
 
-              const price = pricePerContract;
-              const asset_type = multiplier === 100 ? 'OPTION' : 'STOCK';
+          const headers = results.meta.fields || [];
+          const adapter = adapterId === 'auto' ? detectBrokerAdapter(headers) : getBrokerAdapter(adapterId);
+          if (!adapter) {
+            const supported = BROKER_ADAPTERS.map(a => a.name).join(', ');
+            throw new Error(`Unrecognized CSV format. Supported brokers: ${supported}.`);
+          }
+          console.log(`🏦 Using ${adapter.name} import adapter`);
+
+          const rows = results.data as RawCsvRow[];
+          const trades = assignImportHashes(
+            rows
+              .map(row => adapter.mapRow(row))
+              .filter((trade): trade is AdapterTrade => trade !== null)
+          );
+          const cashEvents = assignCashEventHashes(
+            rows
+              .map(row => adapter.mapCashRow?.(row) ?? null)
+              .filter((event): event is AdapterCashEvent => event !== null)
+          );
 
-              const trade = {
-                symbol: row.Symbol,
-                date: new Date(row.Date || row.Time).toISOString(),
-                action: row.Action?.toUpperCase() || 'UNKNOWN',
-                quantity: Math.abs(quantity),
-                price,
-                fees: Math.abs(commissions) + Math.abs(fees),
-                amount,
-                asset_type,
-                multiplier,
-                import_hash: generateImportHash(row)
-              };
-              
-              console.log(`✅ Parsed trade:`, trade);
-              return trade;
-            });
-          
           console.log(`🎉 Final trades array:`, trades);
-          resolve(trades);
+          console.log(`💵 Cash events:`, cashEvents);
+          resolve({ adapter, trades, cashEvents });
         } catch (err) {
           console.error(`💥 Error parsing trade CSV:`, err);
           reject(err);
@@ -190,6 +127,4 @@ export const parseTradeCSV = (file: File): Promise<ParsedTrade[]> => {
       }
     });
   });
-}; 
-
-
+};
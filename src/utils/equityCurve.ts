@@ -0,0 +1,100 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { buildPositionLedger, type LedgerFill, type PositionLedger } from '@/utils/positionLedger';
+import type { MarkSnapshot } from '@/utils/markSnapshots';
+
+export interface EquityPoint {
+  // yyyy-MM-dd
+  date: string;
+  // Cumulative P&L of lots closed up to this day
+  realized: number;
+  // P&L of lots open at the end of this day, at their latest stored mark
+  unrealized: number;
+  equity: number;
+  // Benchmark P&L on the same capital, when a benchmark series is given
+  benchmark?: number;
+}
+
+export interface BenchmarkPrice {
+  date: string;
+  price: number;
+}
+
+const day = (date: string) => format(new Date(date), 'yyyy-MM-dd');
+
+// Daily P&L of a set of trades: realized P&L on the day each lot closes, plus the unrealized P&L of the lots still
+// open that evening. A lot is valued at the last snapshot on or before the day; without one it sits at cost, except
+// today, which falls back to the trade's current mark. Pass a ledger built over a wider set of fills to chart a subset
+// of them; the curve then follows the lots those trades opened, whichever fills closed them.
+export const buildEquityCurve = (
+  trades: LedgerFill[],
+  snapshotsByTrade: Map<string, MarkSnapshot[]>,
+  ledger: PositionLedger = buildPositionLedger(trades),
+  endDate: Date = new Date()
+): EquityPoint[] => {
+  if (trades.length === 0) return [];
+
+  const tradesById = new Map(trades.map(trade => [trade.id, trade]));
+  const ownLots = ledger.lots.filter(lot => tradesById.has(lot.tradeId));
+  const start = parseISO(trades.map(trade => day(trade.date)).sort()[0]);
+  if (start > endDate) return [];
+  const today = format(endDate, 'yyyy-MM-dd');
+
+  const realizedByDay = new Map<string, number>();
+  ownLots.forEach(lot => lot.closes.forEach(close => {
+    const closeDay = day(close.date);
+    realizedByDay.set(closeDay, (realizedByDay.get(closeDay) || 0) + close.realizedPnl);
+  }));
+
+  const lots = ownLots.map(lot => ({
+    lot,
+    openDay: day(lot.openDate),
+    closes: lot.closes.map(close => ({ day: day(close.date), quantity: close.quantity })),
+    snapshots: [...(snapshotsByTrade.get(lot.tradeId) || [])].sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date)),
+    snapshotIndex: -1,
+  }));
+
+  let realized = 0;
+  return eachDayOfInterval({ start, end: endDate }).map(date => {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    realized += realizedByDay.get(dateStr) || 0;
+
+    let unrealized = 0;
+    lots.forEach(entry => {
+      if (entry.openDay > dateStr) return;
+      while (entry.snapshotIndex + 1 < entry.snapshots.length && entry.snapshots[entry.snapshotIndex + 1].snapshot_date <= dateStr) {
+        entry.snapshotIndex++;
+      }
+
+      const closed = entry.closes.filter(close => close.day <= dateStr).reduce((sum, close) => sum + close.quantity, 0);
+      const openQuantity = entry.lot.quantity - closed;
+      if (openQuantity <= 0) return;
+
+      const snapshot = entry.snapshots[entry.snapshotIndex];
+      const currentMark = dateStr === today ? tradesById.get(entry.lot.tradeId)?.mark_price : null;
+      const mark = currentMark !== null && currentMark !== undefined ? Number(currentMark) : snapshot?.mark;
+      if (mark === undefined) return;
+
+      const sign = entry.lot.side === 'LONG' ? 1 : -1;
+      unrealized += openQuantity * (entry.lot.cashPerUnit + Math.abs(mark) * entry.lot.multiplier * sign);
+    });
+
+    return { date: dateStr, realized, unrealized, equity: realized + unrealized };
+  });
+};
+
+// Adds what the same capital would have made in the benchmark since the curve's first day.
+// Days without a price carry the last one forward.
+export const withBenchmark = (curve: EquityPoint[], prices: BenchmarkPrice[], capital: number): EquityPoint[] => {
+  const sorted = [...prices].sort((a, b) => a.date.localeCompare(b.date));
+  if (curve.length === 0 || sorted.length === 0 || capital <= 0) return curve;
+
+  let index = -1;
+  let basePrice: number | null = null;
+  return curve.map(point => {
+    while (index + 1 < sorted.length && sorted[index + 1].date <= point.date) index++;
+    const price = index >= 0 ? Number(sorted[index].price) : null;
+    if (price && basePrice === null) basePrice = price;
+    if (!price || !basePrice) return point;
+    return { ...point, benchmark: capital * (price / basePrice - 1) };
+  });
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { impliedVolatility, optionGreeks, optionPrice, type OptionInputs } from '@/utils/greeks';
+
+// The normal CDF approximation is good to about 1e-7 of the underlying, so prices are checked to four places
+
+describe('Black-Scholes', () => {
+  // The textbook case: S = K = 100, a year out, r = 5%, vol = 20%, so d1 = 0.35 and d2 = 0.15
+  const call: OptionInputs = { model: 'black-scholes', right: 'C', underlyingPrice: 100, strike: 100, years: 1, volatility: 0.2, rate: 0.05 };
+  const put: OptionInputs = { ...call, right: 'P' };
+
+  it('prices the call and the put', () => {
+    expect(optionPrice(call)).toBeCloseTo(10.4506, 4);
+    expect(optionPrice(put)).toBeCloseTo(5.5735, 4);
+    // Put-call parity: C - P = S - K e^-rT
+    expect(optionPrice(call) - optionPrice(put)).toBeCloseTo(100 - 100 * Math.exp(-0.05), 4);
+  });
+
+  it('gives delta, gamma, theta per day and vega per point', () => {
+    const callGreeks = optionGreeks(call);
+    expect(callGreeks.delta).toBeCloseTo(0.636831, 6);
+    expect(callGreeks.gamma).toBeCloseTo(0.018762, 6);
+    expect(callGreeks.theta).toBeCloseTo(-6.414028 / 365, 6);
+    expect(callGreeks.vega).toBeCloseTo(0.375240, 6);
+
+    const putGreeks = optionGreeks(put);
+    expect(putGreeks.delta).toBeCloseTo(-0.363169, 6);
+    expect(putGreeks.gamma).toBeCloseTo(callGreeks.gamma, 12);
+    expect(putGreeks.theta).toBeCloseTo(-1.657880 / 365, 6);
+    expect(putGreeks.vega).toBeCloseTo(callGreeks.vega, 12);
+  });
+
+  it('backs the volatility out of a price', () => {
+    const { volatility, ...inputs } = call;
+    expect(impliedVolatility(optionPrice(call), inputs)).toBeCloseTo(volatility, 5);
+    expect(impliedVolatility(optionPrice(put), { ...inputs, right: 'P' })).toBeCloseTo(volatility, 5);
+  });
+
+  it('has no volatility for a price below intrinsic value', () => {
+    const { volatility: _volatility, ...inputs } = call;
+    expect(impliedVolatility(1, { ...inputs, underlyingPrice: 120 })).toBeNull();
+  });
+});
+
+describe('Black-76', () => {
+  // Hull's crude oil futures put: F = K = 20, four months out, r = 9%, vol = 25%, worth about 1.12
+  const put: OptionInputs = { model: 'black-76', right: 'P', underlyingPrice: 20, strike: 20, years: 4 / 12, volatility: 0.25, rate: 0.09 };
+  const call: OptionInputs = { ...put, right: 'C' };
+
+  it('prices the put and, at the money, an equal call', () => {
+    expect(optionPrice(put)).toBeCloseTo(1.1166, 4);
+    expect(optionPrice(call)).toBeCloseTo(optionPrice(put), 6);
+  });
+
+  it('discounts delta, gamma and vega', () => {
+    const greeks = optionGreeks(put);
+    expect(greeks.delta).toBeCloseTo(-0.457307, 6);
+    expect(greeks.gamma).toBeCloseTo(0.133765, 6);
+    expect(greeks.vega).toBeCloseTo(0.044588, 6);
+  });
+
+  it('backs the volatility out of a price', () => {
+    const { volatility, ...inputs } = put;
+    expect(impliedVolatility(optionPrice(put), inputs)).toBeCloseTo(volatility, 5);
+  });
+});
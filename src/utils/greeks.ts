@@ -0,0 +1,227 @@
+import { parseISO } from 'date-fns';
+import { isOptionInstrument, parseInstrument, priceTicker, type Instrument, type OptionRight } from '@/utils/instrument';
+import type { LedgerFill, PositionLedger } from '@/utils/positionLedger';
+
+// Black-Scholes for equity options and Black-76 for futures options, no dividends. Implied volatility is backed out
+// of each open leg's stored mark against a stored underlying price, so the greeks are only as fresh as both.
+
+export type PricingModel = 'black-scholes' | 'black-76';
+
+export interface OptionInputs {
+  model: PricingModel;
+  right: OptionRight;
+  // Stock price for Black-Scholes, futures price for Black-76
+  underlyingPrice: number;
+  strike: number;
+  // Time to expiry in years
+  years: number;
+  // Annualized, e.g. 0.2 for 20%
+  volatility: number;
+  // Continuously compounded risk-free rate
+  rate: number;
+}
+
+export interface Greeks {
+  delta: number;
+  gamma: number;
+  // Per calendar day
+  theta: number;
+  // Per volatility point (1%)
+  vega: number;
+}
+
+export interface LegGreeks extends Greeks {
+  tradeId: string;
+  symbol: string;
+  // Ticker the underlying is priced under, so SPX and SPXW legs net together
+  underlying: string;
+  // Implied volatility of the mark; null when it couldn't be solved
+  iv: number | null;
+  // Open quantity, negative when short
+  quantity: number;
+}
+
+// Roughly the short T-bill yield; moves theta and the call/put split a little, not the picture
+export const DEFAULT_RISK_FREE_RATE = 0.04;
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// Options stop trading at the 4pm close on expiry day
+const EXPIRY_HOUR = 16;
+
+export const ZERO_GREEKS: Greeks = { delta: 0, gamma: 0, theta: 0, vega: 0 };
+
+const normPdf = (x: number) => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+// Abramowitz and Stegun 26.2.17, accurate to about 1e-7
+const normCdf = (x: number): number => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normPdf(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+};
+
+export const pricingModel = (instrument: Instrument): PricingModel =>
+  instrument.assetClass === 'FUTURES_OPTION' ? 'black-76' : 'black-scholes';
+
+export const yearsToExpiry = (expiry: string, asOf: Date = new Date()): number => {
+  const close = parseISO(expiry);
+  close.setHours(EXPIRY_HOUR, 0, 0, 0);
+  return Math.max(0, (close.getTime() - asOf.getTime()) / MS_PER_YEAR);
+};
+
+const d1d2 = ({ underlyingPrice, strike, years, volatility, rate, model }: OptionInputs) => {
+  const sqrtT = Math.sqrt(years);
+  const carry = model === 'black-76' ? 0 : rate;
+  const d1 = (Math.log(underlyingPrice / strike) + (carry + 0.5 * volatility * volatility) * years) / (volatility * sqrtT);
+  return { d1, d2: d1 - volatility * sqrtT, sqrtT };
+};
+
+// Per-unit price (per share, or per point for futures options)
+export const optionPrice = (inputs: OptionInputs): number => {
+  const { model, right, underlyingPrice, strike, years, rate } = inputs;
+  const discount = Math.exp(-rate * years);
+  // Black-76 discounts the forward as well; Black-Scholes carries the stock at the risk-free rate
+  const forwardValue = model === 'black-76' ? underlyingPrice * discount : underlyingPrice;
+  if (years <= 0 || inputs.volatility <= 0) {
+    return Math.max(0, right === 'C' ? forwardValue - strike * discount : strike * discount - forwardValue);
+  }
+
+  const { d1, d2 } = d1d2(inputs);
+  return right === 'C'
+    ? forwardValue * normCdf(d1) - strike * discount * normCdf(d2)
+    : strike * discount * normCdf(-d2) - forwardValue * normCdf(-d1);
+};
+
+// Per-unit greeks; all zero at or past expiry
+export const optionGreeks = (inputs: OptionInputs): Greeks => {
+  const { model, right, underlyingPrice, strike, years, volatility, rate } = inputs;
+  if (years <= 0 || volatility <= 0 || underlyingPrice <= 0 || strike <= 0) return ZERO_GREEKS;
+
+  const { d1, d2, sqrtT } = d1d2(inputs);
+  const discount = Math.exp(-rate * years);
+  const isCall = right === 'C';
+  const pdf = normPdf(d1);
+
+  if (model === 'black-76') {
+    const thetaYear = -underlyingPrice * discount * pdf * volatility / (2 * sqrtT)
+      + (isCall
+        ? rate * underlyingPrice * discount * normCdf(d1) - rate * strike * discount * normCdf(d2)
+        : rate * strike * discount * normCdf(-d2) - rate * underlyingPrice * discount * normCdf(-d1));
+    return {
+      delta: discount * (isCall ? normCdf(d1) : normCdf(d1) - 1),
+      gamma: discount * pdf / (underlyingPrice * volatility * sqrtT),
+      theta: thetaYear / 365,
+      vega: underlyingPrice * discount * pdf * sqrtT / 100,
+    };
+  }
+
+  const thetaYear = -underlyingPrice * pdf * volatility / (2 * sqrtT)
+    + (isCall ? -rate * strike * discount * normCdf(d2) : rate * strike * discount * normCdf(-d2));
+  return {
+    delta: isCall ? normCdf(d1) : normCdf(d1) - 1,
+    gamma: pdf / (underlyingPrice * volatility * sqrtT),
+    theta: thetaYear / 365,
+    vega: underlyingPrice * pdf * sqrtT / 100,
+  };
+};
+
+// Volatility at which the model price equals the given price. Null when the price is outside what any volatility
+// can produce, e.g. below intrinsic value after a stale mark. Newton steps, falling back to bisection.
+export const impliedVolatility = (price: number, inputs: Omit<OptionInputs, 'volatility'>): number | null => {
+  const MIN_VOL = 1e-4;
+  const MAX_VOL = 5;
+  if (!(price > 0) || inputs.years <= 0 || inputs.underlyingPrice <= 0 || inputs.strike <= 0) return null;
+
+  const priceAt = (volatility: number) => optionPrice({ ...inputs, volatility });
+  if (price <= priceAt(MIN_VOL) || price >= priceAt(MAX_VOL)) return null;
+
+  let volatility = 0.3;
+  for (let i = 0; i < 20; i++) {
+    const diff = priceAt(volatility) - price;
+    if (Math.abs(diff) < 1e-6) return volatility;
+    const vega = optionGreeks({ ...inputs, volatility }).vega * 100;
+    if (vega < 1e-8) break;
+    const next = volatility - diff / vega;
+    if (next <= MIN_VOL || next >= MAX_VOL) break;
+    volatility = next;
+  }
+
+  let low = MIN_VOL;
+  let high = MAX_VOL;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (priceAt(mid) > price) high = mid;
+    else low = mid;
+    if (high - low < 1e-6) break;
+  }
+  return (low + high) / 2;
+};
+
+export const addGreeks = (a: Greeks, b: Greeks): Greeks => ({
+  delta: a.delta + b.delta,
+  gamma: a.gamma + b.gamma,
+  theta: a.theta + b.theta,
+  vega: a.vega + b.vega,
+});
+
+export const sumGreeks = (greeks: Greeks[]): Greeks => greeks.reduce(addGreeks, ZERO_GREEKS);
+
+// Position greeks of every open leg: per-unit greeks times the signed open quantity and multiplier, so delta and
+// gamma are dollars per point of the underlying and theta and vega are dollars. Stock and futures legs carry delta
+// only. Option legs need a mark and an underlying price; without them they're left out.
+export const legGreeks = (
+  trades: LedgerFill[],
+  ledger: PositionLedger,
+  underlyingPrices: Map<string, number>,
+  options: { asOf?: Date; rate?: number } = {}
+): Map<string, LegGreeks> => {
+  const asOf = options.asOf || new Date();
+  const rate = options.rate ?? DEFAULT_RISK_FREE_RATE;
+  const sideByTrade = new Map(ledger.lots.map(lot => [lot.tradeId, lot.side]));
+  const legs = new Map<string, LegGreeks>();
+
+  trades.forEach(trade => {
+    const openQuantity = ledger.openQuantityByTrade.get(trade.id) || 0;
+    if (openQuantity <= 0) return;
+
+    const quantity = sideByTrade.get(trade.id) === 'SHORT' ? -openQuantity : openQuantity;
+    const size = quantity * (Number(trade.multiplier) || 1);
+    const instrument = parseInstrument(trade.symbol);
+    const underlying = priceTicker(instrument.underlying);
+    if (!isOptionInstrument(instrument)) {
+      legs.set(trade.id, { ...ZERO_GREEKS, tradeId: trade.id, symbol: trade.symbol, underlying, iv: null, quantity, delta: size });
+      return;
+    }
+
+    if (trade.mark_price === null || trade.mark_price === undefined) return;
+    if (!instrument.expiry || !instrument.strike || !instrument.right) return;
+    const underlyingPrice = underlyingPrices.get(underlying);
+    if (!underlyingPrice) return;
+
+    const years = yearsToExpiry(instrument.expiry, asOf);
+    const inputs = { model: pricingModel(instrument), right: instrument.right, underlyingPrice, strike: instrument.strike, years, rate };
+    const iv = impliedVolatility(Math.abs(Number(trade.mark_price)), inputs);
+    const perUnit = iv === null ? ZERO_GREEKS : optionGreeks({ ...inputs, volatility: iv });
+
+    legs.set(trade.id, {
+      tradeId: trade.id,
+      symbol: trade.symbol,
+      underlying,
+      iv,
+      quantity,
+      delta: perUnit.delta * size,
+      gamma: perUnit.gamma * size,
+      theta: perUnit.theta * size,
+      vega: perUnit.vega * size,
+    });
+  });
+
+  return legs;
+};
+
+// Greeks of the open legs among these trades; undefined when none of them is open
+export const greeksOf = (trades: { id: string }[], legs: Map<string, LegGreeks>): Greeks | undefined => {
+  const open = trades.map(trade => legs.get(trade.id)).filter((leg): leg is LegGreeks => !!leg);
+  return open.length > 0 ? sumGreeks(open) : undefined;
+};
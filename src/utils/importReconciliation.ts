@@ -0,0 +1,83 @@
+import type { ParsedTrade } from '@/utils/csvParser';
+
+// The subset of a stored trade needed to match it against a re-imported file.
+export interface ExistingTrade {
+  id: string;
+  symbol: string;
+  date: string;
+  action: string;
+  quantity: number;
+  amount: number;
+  import_hash: string | null;
+}
+
+export type MatchMethod = 'fingerprint' | 'legacy' | 'fields';
+
+export interface ReconciledMatch {
+  // Index into the parsed trades array.
+  index: number;
+  tradeId: string;
+  method: MatchMethod;
+}
+
+export interface ReconciliationResult {
+  matches: ReconciledMatch[];
+  // Indexes of parsed trades with no counterpart in the database.
+  newIndexes: number[];
+  // Stored trades inside the file's date range that the file doesn't contain.
+  missing: ExistingTrade[];
+}
+
+const sameDay = (a: string, b: string) => a.slice(0, 10) === b.slice(0, 10);
+
+const fieldsMatch = (trade: ParsedTrade, existing: ExistingTrade) =>
+  existing.symbol === trade.symbol &&
+  existing.action === trade.action &&
+  Number(existing.quantity) === trade.quantity &&
+  Math.abs(Number(existing.amount) - trade.amount) < 0.01 &&
+  sameDay(existing.date, trade.date);
+
+// Matches a parsed file against stored trades one-to-one: first by fingerprint, then by the legacy
+// row hash (trades imported before fingerprints), then by symbol/action/quantity/amount on the same day
+// (trades entered by hand or imported from another broker export).
+export const reconcileImport = (trades: ParsedTrade[], existing: ExistingTrade[]): ReconciliationResult => {
+  const matched = new Map<number, ReconciledMatch>();
+  const used = new Set<string>();
+
+  const claim = (index: number, candidate: ExistingTrade | undefined, method: MatchMethod) => {
+    if (!candidate) return;
+    matched.set(index, { index, tradeId: candidate.id, method });
+    used.add(candidate.id);
+  };
+
+  const byHash = new Map<string, ExistingTrade[]>();
+  existing.forEach(trade => {
+    if (!trade.import_hash) return;
+    byHash.set(trade.import_hash, [...(byHash.get(trade.import_hash) || []), trade]);
+  });
+
+  trades.forEach((trade, index) => {
+    claim(index, byHash.get(trade.import_hash)?.find(t => !used.has(t.id)), 'fingerprint');
+  });
+
+  trades.forEach((trade, index) => {
+    if (matched.has(index) || !trade.legacy_hash) return;
+    claim(index, byHash.get(trade.legacy_hash)?.find(t => !used.has(t.id)), 'legacy');
+  });
+
+  trades.forEach((trade, index) => {
+    if (matched.has(index)) return;
+    claim(index, existing.find(t => !used.has(t.id) && fieldsMatch(trade, t)), 'fields');
+  });
+
+  const dates = trades.map(t => t.date.slice(0, 10)).filter(Boolean).sort();
+  const [first, last] = [dates[0], dates[dates.length - 1]];
+
+  return {
+    matches: Array.from(matched.values()).sort((a, b) => a.index - b.index),
+    newIndexes: trades.map((_, index) => index).filter(index => !matched.has(index)),
+    missing: existing.filter(t =>
+      !used.has(t.id) && t.import_hash && t.date.slice(0, 10) >= first && t.date.slice(0, 10) <= last
+    )
+  };
+};
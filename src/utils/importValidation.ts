@@ -0,0 +1,87 @@
+import { tradeFingerprintKey, type ParsedTrade } from '@/utils/csvParser';
+
+export const KNOWN_ACTIONS = ['BUY_TO_OPEN', 'SELL_TO_OPEN', 'BUY_TO_CLOSE', 'SELL_TO_CLOSE', 'BUY', 'SELL'];
+
+export type StagedIssueCode = 'INVALID_DATE' | 'ZERO_QUANTITY' | 'UNKNOWN_ACTION' | 'DUPLICATE_IN_FILE' | 'ALREADY_IMPORTED';
+
+export interface StagedIssue {
+  code: StagedIssueCode;
+  // Errors block the import until the row is fixed or excluded; warnings are informational.
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface StagedTrade {
+  rowNumber: number;
+  trade: ParsedTrade;
+  excluded: boolean;
+  issues: StagedIssue[];
+}
+
+const validateTrade = (
+  trade: ParsedTrade,
+  seenKeys: Map<string, number>,
+  alreadyImported: boolean
+): StagedIssue[] => {
+  const issues: StagedIssue[] = [];
+
+  const time = new Date(trade.date).getTime();
+  if (!trade.date || isNaN(time)) {
+    const raw = trade.unreadable?.date;
+    issues.push({ code: 'INVALID_DATE', severity: 'error', message: raw ? `Date "${raw}" could not be parsed` : 'Date could not be parsed' });
+  } else if (time > Date.now() + 86400000) {
+    issues.push({ code: 'INVALID_DATE', severity: 'error', message: 'Date is in the future' });
+  }
+
+  if (!trade.quantity || isNaN(trade.quantity)) {
+    issues.push({ code: 'ZERO_QUANTITY', severity: 'error', message: 'Quantity is zero' });
+  }
+
+  if (!KNOWN_ACTIONS.includes(trade.action)) {
+    issues.push({ code: 'UNKNOWN_ACTION', severity: 'error', message: `Unknown action "${trade.unreadable?.action || trade.action}"` });
+  }
+
+  const identicalTo = seenKeys.get(tradeFingerprintKey(trade));
+  if (alreadyImported) {
+    issues.push({ code: 'ALREADY_IMPORTED', severity: 'warning', message: 'Already in your trades' });
+  } else if (identicalTo !== undefined) {
+    // Identical fills get their own fingerprint and are imported; this is only a heads-up.
+    issues.push({ code: 'DUPLICATE_IN_FILE', severity: 'warning', message: `Identical to row ${identicalTo}` });
+  }
+
+  return issues;
+};
+
+// Builds the staging rows for a freshly parsed file. alreadyImported holds the row numbers the
+// reconciliation matched to stored trades; those rows start excluded.
+export const stageTrades = (trades: ParsedTrade[], alreadyImported: Set<number>): StagedTrade[] => {
+  const seenKeys = new Map<string, number>();
+
+  return trades.map((trade, index) => {
+    const rowNumber = index + 1;
+    const issues = validateTrade(trade, seenKeys, alreadyImported.has(rowNumber));
+    const key = tradeFingerprintKey(trade);
+    if (!seenKeys.has(key)) seenKeys.set(key, rowNumber);
+    return {
+      rowNumber,
+      trade,
+      excluded: issues.some(i => i.code === 'ALREADY_IMPORTED'),
+      issues
+    };
+  });
+};
+
+// Re-runs validation after an edit. Duplicate checks only consider rows that are still included.
+export const revalidateStagedTrades = (rows: StagedTrade[], alreadyImported: Set<number>): StagedTrade[] => {
+  const seenKeys = new Map<string, number>();
+
+  return rows.map(row => {
+    const issues = validateTrade(row.trade, seenKeys, alreadyImported.has(row.rowNumber));
+    const key = tradeFingerprintKey(row.trade);
+    if (!row.excluded && !seenKeys.has(key)) seenKeys.set(key, row.rowNumber);
+    return { ...row, issues };
+  });
+};
+
+export const hasBlockingIssues = (row: StagedTrade): boolean =>
+  row.issues.some(issue => issue.severity === 'error');
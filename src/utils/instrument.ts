@@ -0,0 +1,146 @@
+import { format, isValid, parse } from 'date-fns';
+
+export type AssetClass = 'STOCK' | 'OPTION' | 'FUTURES' | 'FUTURES_OPTION';
+
+export type OptionRight = 'C' | 'P';
+
+export interface Instrument {
+  symbol: string;
+  assetClass: AssetClass;
+  // What the position moves with: the stock for equity options, the futures contract ('/ESH6') for futures options.
+  underlying: string;
+  // Product root used for contract lookups: 'SPY', 'ES'.
+  root: string;
+  // yyyy-MM-dd. Null for stocks and outright futures.
+  expiry: string | null;
+  strike: number | null;
+  right: OptionRight | null;
+  // Comparable key, identical for the same instrument across broker formats.
+  // Options: 'SPY:2024-01-19:470.00:P'. Futures options: './ESH6 EWF6:2026-01-30:5925.00:P'. Others: the symbol.
+  canonical: string;
+}
+
+const FUTURES_REGEX = /^\/([A-Z0-9]{1,4}?)([FGHJKMNQUVXZ])(\d{1,2})$/;
+
+const formatDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const option = (
+  symbol: string,
+  assetClass: AssetClass,
+  underlying: string,
+  root: string,
+  expiration: Date,
+  right: OptionRight,
+  strike: number,
+  canonicalPrefix = underlying
+): Instrument | null => {
+  if (!isValid(expiration) || isNaN(strike)) return null;
+  const expiry = formatDate(expiration);
+  return {
+    symbol,
+    assetClass,
+    underlying,
+    root,
+    expiry,
+    strike,
+    right,
+    canonical: `${canonicalPrefix}:${expiry}:${strike.toFixed(2)}:${right}`,
+  };
+};
+
+// Returns the root of a futures contract ('/ESZ5' -> 'ES'), or null if it isn't one.
+export const parseFuturesRoot = (symbol: string): string | null => {
+  const match = symbol.trim().toUpperCase().match(FUTURES_REGEX);
+  return match ? match[1] : null;
+};
+
+// Parses any symbol we store or receive from a broker:
+//   'SPY   240119P00470000' / 'SPY240119P00470000'   OCC equity option (strike in thousandths)
+//   'SPY 12/18/26 C670'                              tastytrade human-readable option
+//   'SPY 01/19/2024 470.00 P'                        Schwab option
+//   '-SPY240119P470'                                 Fidelity option
+//   './ESH6 EWF6  260130P5925'                       futures option (strike as-is)
+//   '/ESZ5'                                          futures contract
+//   'SPY:2024-01-19:470.00:P'                        our own canonical form
+// Anything else is treated as a stock.
+export const parseInstrument = (rawSymbol: string): Instrument => {
+  const symbol = rawSymbol.trim().toUpperCase();
+
+  // Futures option: './ESH6 EWF6  260130P5925'
+  const futuresOption = symbol.match(/^\.(\/\S+)\s+(\S+)\s+(\d{6})([CP])([\d.]+)$/);
+  if (futuresOption) {
+    const [, future, product, dateStr, right, strikeStr] = futuresOption;
+    const parsed = option(
+      symbol, 'FUTURES_OPTION', future, parseFuturesRoot(future) || product,
+      parse(dateStr, 'yyMMdd', new Date()), right as OptionRight, parseFloat(strikeStr),
+      `.${future} ${product}`
+    );
+    if (parsed) return parsed;
+  }
+
+  // OCC, padded or not: 'SPY   240119P00470000'
+  const occ = symbol.match(/^([A-Z][A-Z0-9.]*)\s*(\d{6})([CP])(\d{8})$/);
+  if (occ) {
+    const [, root, dateStr, right, strikeStr] = occ;
+    const parsed = option(symbol, 'OPTION', root, root, parse(dateStr, 'yyMMdd', new Date()), right as OptionRight, parseInt(strikeStr, 10) / 1000);
+    if (parsed) return parsed;
+  }
+
+  // Fidelity: '-SPY240119P470' (unpadded strike)
+  const fidelity = symbol.match(/^-([A-Z][A-Z0-9.]*)(\d{6})([CP])([\d.]+)$/);
+  if (fidelity) {
+    const [, root, dateStr, right, strikeStr] = fidelity;
+    const parsed = option(symbol, 'OPTION', root, root, parse(dateStr, 'yyMMdd', new Date()), right as OptionRight, parseFloat(strikeStr));
+    if (parsed) return parsed;
+  }
+
+  // tastytrade human-readable: 'SPY 12/18/26 C670'
+  const human = symbol.match(/^(\S+)\s+(\d{1,2}\/\d{1,2}\/\d{2})\s+([CP])([\d.]+)$/);
+  if (human) {
+    const [, root, dateStr, right, strikeStr] = human;
+    const parsed = option(symbol, 'OPTION', root, root, parse(dateStr, 'MM/dd/yy', new Date()), right as OptionRight, parseFloat(strikeStr));
+    if (parsed) return parsed;
+  }
+
+  // Schwab: 'SPY 01/19/2024 470.00 P'
+  const schwab = symbol.match(/^(\S+)\s+(\d{2}\/\d{2}\/\d{4})\s+([\d.]+)\s+([CP])$/);
+  if (schwab) {
+    const [, root, dateStr, strikeStr, right] = schwab;
+    const parsed = option(symbol, 'OPTION', root, root, parse(dateStr, 'MM/dd/yyyy', new Date()), right as OptionRight, parseFloat(strikeStr));
+    if (parsed) return parsed;
+  }
+
+  // Canonical: 'SPY:2024-01-19:470.00:P'
+  const canonical = symbol.match(/^(.+):(\d{4}-\d{2}-\d{2}):([\d.]+):([CP])$/);
+  if (canonical) {
+    const [, underlying, dateStr, strikeStr, right] = canonical;
+    const isFuturesOption = underlying.startsWith('./');
+    const future = isFuturesOption ? underlying.slice(1).split(/\s+/)[0] : underlying;
+    const parsed = option(
+      symbol, isFuturesOption ? 'FUTURES_OPTION' : 'OPTION', future, parseFuturesRoot(future) || future,
+      parse(dateStr, 'yyyy-MM-dd', new Date()), right as OptionRight, parseFloat(strikeStr), underlying
+    );
+    if (parsed) return parsed;
+  }
+
+  const futuresRoot = parseFuturesRoot(symbol);
+  if (futuresRoot) {
+    return { symbol, assetClass: 'FUTURES', underlying: symbol, root: futuresRoot, expiry: null, strike: null, right: null, canonical: symbol };
+  }
+
+  return { symbol, assetClass: 'STOCK', underlying: symbol, root: symbol, expiry: null, strike: null, right: null, canonical: symbol };
+};
+
+export const isOptionInstrument = (instrument: Instrument) =>
+  instrument.assetClass === 'OPTION' || instrument.assetClass === 'FUTURES_OPTION';
+
+// Option roots that settle against an index of another name: SPXW options are on SPX
+const INDEX_ROOT_ALIASES: Record<string, string> = {
+  SPXW: 'SPX',
+  NDXP: 'NDX',
+  RUTW: 'RUT',
+  VIXW: 'VIX',
+};
+
+// Ticker an underlying's price is stored and looked up under
+export const priceTicker = (underlying: string): string => INDEX_ROOT_ALIASES[underlying] || underlying;
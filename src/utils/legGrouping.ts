@@ -0,0 +1,162 @@
+import { supabase } from '@/integrations/supabase/client';
+import { parseInstrument } from '@/utils/instrument';
+
+export interface GroupableTrade {
+  id: string;
+  symbol: string;
+  date: string;
+  action: string;
+  quantity: number;
+  order_id: string | null;
+  pair_id: string | null;
+  // Already shown in a suggestion the user applied or dismissed
+  grouping_reviewed: boolean;
+}
+
+export interface SuggestedGroup {
+  // Existing pair_id when ungrouped legs join a group that already exists; null for a new group.
+  pairId: string | null;
+  underlying: string;
+  expiry: string | null;
+  openDate: string;
+  // Every leg in the group, including ones already in it.
+  trades: GroupableTrade[];
+  // The legs this suggestion would add to the group.
+  newTradeIds: string[];
+}
+
+interface Cluster {
+  pairId: string | null;
+  underlying: string;
+  expiry: string | null;
+  openDate: string;
+  trades: GroupableTrade[];
+  newTradeIds: string[];
+  // Open quantity per symbol, reduced as closing fills join.
+  remaining: Map<string, number>;
+}
+
+const isOpening = (action: string) => action.includes('OPEN');
+
+// Legs of one multi-leg order share the order number; without one, fall back to the fill time to the second.
+export const orderKey = (trade: { date: string; order_id?: string | null }) => trade.order_id || new Date(trade.date).toISOString().slice(0, 19);
+
+// Suggests pair_id groups for ungrouped legs:
+// 1. Opening legs with the same underlying, order (or timestamp) and expiry form one group.
+// 2. Closing fills join the earliest group, new or existing, that still has that symbol open.
+// Only groups that gain legs, end up with at least two and would add a leg not reviewed before are suggested.
+export const suggestLegGroups = (trades: GroupableTrade[]): SuggestedGroup[] => {
+  const sorted = [...trades].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const clusters: Cluster[] = [];
+  const byPairId = new Map<string, Cluster>();
+  const byOpeningKey = new Map<string, Cluster>();
+
+  const addOpen = (cluster: Cluster, trade: GroupableTrade) => {
+    cluster.remaining.set(trade.symbol, (cluster.remaining.get(trade.symbol) || 0) + Number(trade.quantity));
+  };
+
+  const consume = (cluster: Cluster, trade: GroupableTrade) => {
+    cluster.remaining.set(trade.symbol, Math.max(0, (cluster.remaining.get(trade.symbol) || 0) - Number(trade.quantity)));
+  };
+
+  for (const trade of sorted) {
+    const instrument = parseInstrument(trade.symbol);
+
+    if (trade.pair_id) {
+      let cluster = byPairId.get(trade.pair_id);
+      if (!cluster) {
+        cluster = {
+          pairId: trade.pair_id, underlying: instrument.underlying, expiry: instrument.expiry,
+          openDate: trade.date, trades: [], newTradeIds: [], remaining: new Map()
+        };
+        byPairId.set(trade.pair_id, cluster);
+        clusters.push(cluster);
+      }
+      cluster.trades.push(trade);
+      if (isOpening(trade.action)) addOpen(cluster, trade);
+      else consume(cluster, trade);
+      continue;
+    }
+
+    if (isOpening(trade.action)) {
+      const key = [instrument.underlying, orderKey(trade), instrument.expiry || ''].join('|');
+      let cluster = byOpeningKey.get(key);
+      if (!cluster) {
+        cluster = {
+          pairId: null, underlying: instrument.underlying, expiry: instrument.expiry,
+          openDate: trade.date, trades: [], newTradeIds: [], remaining: new Map()
+        };
+        byOpeningKey.set(key, cluster);
+        clusters.push(cluster);
+      }
+      cluster.trades.push(trade);
+      cluster.newTradeIds.push(trade.id);
+      addOpen(cluster, trade);
+      continue;
+    }
+
+    // Closing fill: the earliest group still holding this symbol
+    const target = clusters.find(c => (c.remaining.get(trade.symbol) || 0) > 0);
+    if (!target) continue;
+    target.trades.push(trade);
+    target.newTradeIds.push(trade.id);
+    consume(target, trade);
+  }
+
+  return clusters
+    .filter(c => c.newTradeIds.length > 0 && c.trades.length >= 2)
+    .filter(c => c.trades.some(trade => !trade.grouping_reviewed && c.newTradeIds.includes(trade.id)))
+    .map(({ pairId, underlying, expiry, openDate, trades, newTradeIds }) => ({ pairId, underlying, expiry, openDate, trades, newTradeIds }))
+    .sort((a, b) => new Date(b.openDate).getTime() - new Date(a.openDate).getTime());
+};
+
+// PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000;
+
+// Keeps the `in (...)` filter well under PostgREST's URL length limit
+const ID_UPDATE_CHUNK = 200;
+
+// Visible trades only; hidden fills are never suggested for grouping
+export const fetchGroupableTrades = async (): Promise<GroupableTrade[]> => {
+  const trades: GroupableTrade[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('trades')
+      .select('id, symbol, date, action, quantity, order_id, pair_id, grouping_reviewed')
+      .eq('hidden', false)
+      .order('date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw error;
+    trades.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return trades;
+};
+
+// Stamps each accepted group's legs with its pair_id (a new one for new groups).
+// tradeIds are the legs the user kept; legs split off during review stay ungrouped.
+export const applyLegGroups = async (groups: { pairId: string | null; tradeIds: string[] }[]): Promise<number> => {
+  let grouped = 0;
+  for (const group of groups) {
+    if (group.tradeIds.length === 0) continue;
+    const { error } = await supabase
+      .from('trades')
+      .update({ pair_id: group.pairId || crypto.randomUUID() })
+      .in('id', group.tradeIds);
+    if (error) throw error;
+    grouped++;
+  }
+  return grouped;
+};
+
+// Marks the legs of suggestions the user has seen, so they are only suggested again alongside a leg not yet reviewed
+export const markLegsReviewed = async (tradeIds: string[]): Promise<void> => {
+  for (let i = 0; i < tradeIds.length; i += ID_UPDATE_CHUNK) {
+    const { error } = await supabase
+      .from('trades')
+      .update({ grouping_reviewed: true })
+      .in('id', tradeIds.slice(i, i + ID_UPDATE_CHUNK));
+    if (error) throw error;
+  }
+};
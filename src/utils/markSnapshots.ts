@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+import { signedAmount } from '@/utils/positionLedger';
+
+export interface MarkSnapshot {
+  trade_id: string;
+  // yyyy-MM-dd
+  snapshot_date: string;
+  mark: number;
+  quantity: number;
+  pnl_open: number | null;
+}
+
+export interface PnlPoint {
+  date: string;
+  pnl: number;
+}
+
+export interface Excursions {
+  // Worst unrealized P&L the position reached, zero or negative
+  mae: number;
+  // Best unrealized P&L the position reached, zero or positive
+  mfe: number;
+}
+
+interface SnapshotTrade {
+  id: string;
+  date: string;
+  action: string;
+  amount: number;
+  multiplier: number;
+}
+
+// Keeps the `in (...)` filter well under PostgREST's URL length limit
+const ID_LOOKUP_CHUNK = 200;
+
+// One row per leg per day; uploading twice on the same day keeps the later marks.
+export const saveMarkSnapshots = async (snapshots: MarkSnapshot[], userId: string): Promise<void> => {
+  if (snapshots.length === 0) return;
+  const { error } = await supabase
+    .from('mark_snapshots')
+    .upsert(snapshots.map(snapshot => ({ ...snapshot, user_id: userId })), { onConflict: 'user_id,trade_id,snapshot_date' });
+  if (error) throw error;
+};
+
+export const fetchMarkSnapshots = async (tradeIds: string[]): Promise<MarkSnapshot[]> => {
+  const snapshots: MarkSnapshot[] = [];
+  for (let i = 0; i < tradeIds.length; i += ID_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('mark_snapshots')
+      .select('trade_id, snapshot_date, mark, quantity, pnl_open')
+      .in('trade_id', tradeIds.slice(i, i + ID_LOOKUP_CHUNK))
+      .order('snapshot_date', { ascending: true });
+    if (error) throw error;
+    snapshots.push(...(data || []).map(row => ({
+      trade_id: row.trade_id,
+      snapshot_date: row.snapshot_date,
+      mark: Number(row.mark),
+      quantity: Number(row.quantity),
+      pnl_open: row.pnl_open === null ? null : Number(row.pnl_open),
+    })));
+  }
+  return snapshots;
+};
+
+export const groupSnapshotsByTrade = (snapshots: MarkSnapshot[]): Map<string, MarkSnapshot[]> => {
+  const byTrade = new Map<string, MarkSnapshot[]>();
+  snapshots.forEach(snapshot => byTrade.set(snapshot.trade_id, [...(byTrade.get(snapshot.trade_id) || []), snapshot]));
+  return byTrade;
+};
+
+// P&L of one position on each snapshot date: the cash of every fill up to that day plus the marked value of its open legs.
+// `current` ends the path (today's P&L, or the final P&L of a closed position) and replaces any later snapshot.
+export const buildPnlPath = (
+  trades: SnapshotTrade[],
+  snapshotsByTrade: Map<string, MarkSnapshot[]>,
+  current?: PnlPoint
+): PnlPoint[] => {
+  const byDate = new Map<string, MarkSnapshot[]>();
+  trades.forEach(trade => (snapshotsByTrade.get(trade.id) || []).forEach(snapshot => {
+    byDate.set(snapshot.snapshot_date, [...(byDate.get(snapshot.snapshot_date) || []), snapshot]);
+  }));
+
+  const tradesById = new Map(trades.map(trade => [trade.id, trade]));
+  const path = Array.from(byDate.keys()).sort().map(date => {
+    const endOfDay = new Date(`${date}T23:59:59`).getTime();
+    const cash = trades
+      .filter(trade => new Date(trade.date).getTime() <= endOfDay)
+      .reduce((sum, trade) => sum + signedAmount(trade), 0);
+    const value = byDate.get(date)!.reduce((sum, snapshot) => {
+      const trade = tradesById.get(snapshot.trade_id)!;
+      const sign = trade.action.toUpperCase().includes('SELL') || trade.action.toUpperCase().includes('SHORT') ? -1 : 1;
+      return sum + Math.abs(snapshot.mark) * snapshot.quantity * (Number(trade.multiplier) || 1) * sign;
+    }, 0);
+    return { date, pnl: cash + value };
+  });
+
+  if (!current) return path;
+  return [...path.filter(point => point.date < current.date), current];
+};
+
+export const excursions = (path: PnlPoint[]): Excursions => ({
+  mae: Math.min(0, ...path.map(point => point.pnl)),
+  mfe: Math.max(0, ...path.map(point => point.pnl)),
+});
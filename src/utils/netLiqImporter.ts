@@ -0,0 +1,100 @@
+import Papa from 'papaparse';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { parseBrokerDate, sanitizeCurrency } from '@/utils/brokers/helpers';
+
+export interface ParsedNetLiq {
+  // yyyy-MM-dd
+  date: string;
+  amount: number;
+}
+
+export interface NetLiqConflict {
+  date: string;
+  existing: number;
+  incoming: number;
+}
+
+export interface NetLiqImportPreview {
+  // Dates with no log yet
+  newRows: ParsedNetLiq[];
+  // Dates already logged with a different value; only overwritten when the user picks them
+  conflicts: NetLiqConflict[];
+  // Dates already logged with the same value
+  unchanged: number;
+}
+
+// tastytrade's net liq history first, then the generic names other brokers use for a daily account value
+const DATE_HEADERS = ['Time', 'Date', 'Date/Time', 'As Of Date'];
+const VALUE_HEADERS = ['Close', 'Net Liquidating Value', 'Net Liq', 'Net Liquidation Value', 'Account Value', 'Total Account Value', 'Total Value', 'Balance'];
+const DATE_FORMATS = ['yyyy-MM-dd HH:mm:ss', "yyyy-MM-dd'T'HH:mm:ssXXX", 'yyyy-MM-dd', 'MM/dd/yyyy HH:mm', 'MM/dd/yyyy', 'MM/dd/yy'];
+
+// Values differing by less than a cent are the same entry
+const SAME_VALUE_TOLERANCE = 0.005;
+
+const findHeader = (headers: string[], candidates: string[]) =>
+  candidates.map(name => headers.find(h => h.trim().toLowerCase() === name.toLowerCase())).find(Boolean);
+
+// Reads a balance-history export into one value per day. Intraday rows keep the last value of the day.
+export const parseNetLiqCSV = (file: File): Promise<ParsedNetLiq[]> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.trim(),
+      complete: (results) => {
+        const headers = results.meta.fields || [];
+        const dateHeader = findHeader(headers, DATE_HEADERS);
+        const valueHeader = findHeader(headers, VALUE_HEADERS);
+        if (!dateHeader || !valueHeader) {
+          reject(new Error(`Unrecognized balance history format. Expected a date column (${DATE_HEADERS.join(', ')}) and a value column (${VALUE_HEADERS.join(', ')}).`));
+          return;
+        }
+
+        const byDate = new Map<string, { time: number; amount: number }>();
+        (results.data as Record<string, string>[]).forEach(row => {
+          const iso = parseBrokerDate(row[dateHeader], DATE_FORMATS);
+          const rawValue = row[valueHeader];
+          if (!iso || !rawValue || rawValue.trim() === '') return;
+
+          const time = new Date(iso).getTime();
+          const date = format(new Date(iso), 'yyyy-MM-dd');
+          const previous = byDate.get(date);
+          if (!previous || time >= previous.time) byDate.set(date, { time, amount: sanitizeCurrency(rawValue) });
+        });
+
+        resolve(Array.from(byDate.entries())
+          .map(([date, { amount }]) => ({ date, amount }))
+          .sort((a, b) => a.date.localeCompare(b.date)));
+      },
+      error: (error) => reject(error),
+    });
+  });
+};
+
+export const previewNetLiqImport = (rows: ParsedNetLiq[], existing: ParsedNetLiq[]): NetLiqImportPreview => {
+  const existingByDate = new Map(existing.map(log => [log.date, Number(log.amount)]));
+  const preview: NetLiqImportPreview = { newRows: [], conflicts: [], unchanged: 0 };
+
+  rows.forEach(row => {
+    const current = existingByDate.get(row.date);
+    if (current === undefined) preview.newRows.push(row);
+    else if (Math.abs(current - row.amount) < SAME_VALUE_TOLERANCE) preview.unchanged++;
+    else preview.conflicts.push({ date: row.date, existing: current, incoming: row.amount });
+  });
+
+  return preview;
+};
+
+// Rows per request, matching the trade importer
+const UPSERT_CHUNK_SIZE = 500;
+
+export const upsertNetLiqLogs = async (rows: ParsedNetLiq[], userId: string): Promise<number> => {
+  for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('net_liquidity_logs')
+      .upsert(rows.slice(i, i + UPSERT_CHUNK_SIZE).map(row => ({ ...row, user_id: userId })), { onConflict: 'user_id, date' });
+    if (error) throw error;
+  }
+  return rows.length;
+};
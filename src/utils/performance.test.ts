@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildPeriodReturns, chainReturns, measurePerformance, xirr } from '@/utils/performance';
+
+describe('xirr', () => {
+  it('matches the spreadsheet XIRR example', () => {
+    // The worked example in the spreadsheet XIRR documentation, which gives 0.373362535
+    const rate = xirr([
+      { date: '2008-01-01', amount: -10000 },
+      { date: '2008-03-01', amount: 2750 },
+      { date: '2008-10-30', amount: 4250 },
+      { date: '2009-02-15', amount: 3250 },
+      { date: '2009-04-01', amount: 2750 },
+    ]);
+
+    expect(rate).toBeCloseTo(0.373362535, 8);
+  });
+
+  it('needs money both in and out', () => {
+    expect(xirr([{ date: '2024-01-01', amount: -100 }, { date: '2024-06-01', amount: -50 }])).toBeNull();
+    expect(xirr([{ date: '2024-01-01', amount: -100 }])).toBeNull();
+  });
+});
+
+describe('a deposit halfway through a stretch', () => {
+  // 100,000 on Jan 1, 10,000 deposited on Jan 16, 115,000 on Jan 31
+  const values = [
+    { date: '2024-01-01', value: 100000 },
+    { date: '2024-01-31', value: 115000 },
+  ];
+  const flows = [{ date: '2024-01-16', amount: 10000 }];
+
+  it('weights the deposit by the half of the stretch it was invested for', () => {
+    // Modified Dietz: (115,000 - 100,000 - 10,000) / (100,000 + 15/30 * 10,000)
+    const [period] = buildPeriodReturns(values, flows);
+
+    expect(period).toMatchObject({ date: '2024-01-31', value: 115000, flows: 10000 });
+    expect(period.return).toBeCloseTo(5000 / 105000, 12);
+  });
+
+  it('solves the money-weighted return from the dated flows', () => {
+    const result = measurePerformance(values, flows, '2024-01-01', '2024-01-31')!;
+
+    expect(result).toMatchObject({ days: 30, startValue: 100000, endValue: 115000, netFlows: 10000, pnl: 5000 });
+    expect(result.twr).toBeCloseTo(5000 / 105000, 12);
+    // 100,000 g^2 + 10,000 g = 115,000 with g the growth over 15 days, so the 30-day return is g^2 - 1
+    expect(result.mwr).toBeCloseTo(0.0476454472, 8);
+    // A month is too short to annualize
+    expect(result.xirr).toBeNull();
+    expect(result.twrAnnualized).toBeNull();
+  });
+});
+
+describe('chained stretches', () => {
+  it('compounds the return of each stretch between logs', () => {
+    const values = [
+      { date: '2024-01-01', value: 100 },
+      { date: '2024-01-02', value: 110 },
+      { date: '2024-01-03', value: 154 },
+    ];
+    // Dated on a log, the deposit arrives at that day's close
+    const flows = [{ date: '2024-01-03', amount: 55 }];
+
+    const returns = buildPeriodReturns(values, flows).map(period => period.return);
+    expect(returns[0]).toBeCloseTo(0.1, 12);
+    expect(returns[1]).toBeCloseTo(-0.1, 12);
+    expect(chainReturns(returns)).toBeCloseTo(-0.01, 12);
+  });
+});
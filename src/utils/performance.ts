@@ -0,0 +1,210 @@
+import {
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subDays,
+  subMonths,
+  subYears,
+} from 'date-fns';
+
+export interface ValuePoint {
+  // yyyy-MM-dd
+  date: string;
+  value: number;
+}
+
+export interface CashFlowPoint {
+  // yyyy-MM-dd
+  date: string;
+  // Positive for deposit, negative for withdrawal
+  amount: number;
+}
+
+export interface PeriodReturn {
+  // The log this return ends on; it starts at the previous log
+  date: string;
+  value: number;
+  // Net deposits after the previous log, up to and including this one
+  flows: number;
+  return: number;
+}
+
+export type PerformancePeriod = 'MTD' | 'QTD' | 'YTD' | '1M' | '3M' | '6M' | '1Y' | '3Y' | 'ALL';
+
+export const PERFORMANCE_PERIODS: { value: PerformancePeriod; label: string }[] = [
+  { value: 'MTD', label: 'Month to date' },
+  { value: 'QTD', label: 'Quarter to date' },
+  { value: 'YTD', label: 'Year to date' },
+  { value: '1M', label: '1 month' },
+  { value: '3M', label: '3 months' },
+  { value: '6M', label: '6 months' },
+  { value: '1Y', label: '1 year' },
+  { value: '3Y', label: '3 years' },
+  { value: 'ALL', label: 'All time' },
+];
+
+export interface PeriodPerformance {
+  // The log the period is measured from, i.e. the close before the period starts
+  startDate: string;
+  endDate: string;
+  days: number;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  // Change in value not explained by deposits and withdrawals
+  pnl: number;
+  // Time-weighted: what a dollar held through the whole period returned, whatever the timing of flows
+  twr: number;
+  // Money-weighted: the return on the money actually invested, over the period
+  mwr: number | null;
+  // Annualized figures are only given for periods of a year or more
+  twrAnnualized: number | null;
+  xirr: number | null;
+  // History doesn't reach back to the period's start, so the figures cover less than the period
+  partial: boolean;
+}
+
+const DAYS_PER_YEAR = 365;
+
+const sumFlows = (flows: CashFlowPoint[], after: string, upTo: string) =>
+  flows.filter(flow => flow.date > after && flow.date <= upTo).reduce((sum, flow) => sum + Number(flow.amount), 0);
+
+// Return of each stretch between consecutive logs. Flows are netted out with Modified Dietz, each weighted by the part
+// of the stretch it was invested for; a flow dated on a log counts as arriving at that day's close, so with daily
+// logs this is the plain (value - flows) / previous value.
+export const buildPeriodReturns = (values: ValuePoint[], flows: CashFlowPoint[]): PeriodReturn[] => {
+  const sorted = [...values].sort((a, b) => a.date.localeCompare(b.date));
+
+  return sorted.slice(1).map((point, index) => {
+    const previous = sorted[index];
+    const stretch = flows.filter(flow => flow.date > previous.date && flow.date <= point.date);
+    const netFlows = stretch.reduce((sum, flow) => sum + Number(flow.amount), 0);
+    const length = differenceInCalendarDays(parseISO(point.date), parseISO(previous.date));
+    const weighted = stretch.reduce((sum, flow) => {
+      const weight = length > 0 ? differenceInCalendarDays(parseISO(point.date), parseISO(flow.date)) / length : 0;
+      return sum + weight * Number(flow.amount);
+    }, 0);
+
+    const base = Number(previous.value) + weighted;
+    const gain = Number(point.value) - Number(previous.value) - netFlows;
+    return { date: point.date, value: Number(point.value), flows: netFlows, return: base > 0 ? gain / base : 0 };
+  });
+};
+
+// Chains the period returns into one
+export const chainReturns = (returns: number[]) => returns.reduce((growth, r) => growth * (1 + r), 1) - 1;
+
+export const annualize = (totalReturn: number, days: number): number | null => {
+  if (days < DAYS_PER_YEAR || totalReturn <= -1) return null;
+  return Math.pow(1 + totalReturn, DAYS_PER_YEAR / days) - 1;
+};
+
+// Annualized internal rate of return of dated cash flows (negative = money in, positive = money out), as spreadsheet
+// XIRR computes it. Newton's method, falling back to bisection when it doesn't converge.
+export const xirr = (cashFlows: { date: string; amount: number }[]): number | null => {
+  if (cashFlows.length < 2) return null;
+  if (!cashFlows.some(cf => cf.amount > 0) || !cashFlows.some(cf => cf.amount < 0)) return null;
+
+  const first = parseISO(cashFlows[0].date);
+  const flows = cashFlows.map(cf => ({ years: differenceInCalendarDays(parseISO(cf.date), first) / DAYS_PER_YEAR, amount: cf.amount }));
+  if (flows.every(flow => flow.years === 0)) return null;
+
+  const npv = (rate: number) => flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.years), 0);
+  const derivative = (rate: number) => flows.reduce((sum, flow) => sum - flow.years * flow.amount / Math.pow(1 + rate, flow.years + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    const slope = derivative(rate);
+    if (!isFinite(slope) || slope === 0) break;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const value = npv(mid);
+    if (Math.abs(value) < 1e-7) return mid;
+    if (npv(low) * value < 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+// The close a period is measured from: the day before it starts, or a fixed span back from asOf
+export const periodBaselineDate = (period: PerformancePeriod, asOf: Date): string | null => {
+  switch (period) {
+    case 'MTD': return format(subDays(startOfMonth(asOf), 1), 'yyyy-MM-dd');
+    case 'QTD': return format(subDays(startOfQuarter(asOf), 1), 'yyyy-MM-dd');
+    case 'YTD': return format(subDays(startOfYear(asOf), 1), 'yyyy-MM-dd');
+    case '1M': return format(subMonths(asOf, 1), 'yyyy-MM-dd');
+    case '3M': return format(subMonths(asOf, 3), 'yyyy-MM-dd');
+    case '6M': return format(subMonths(asOf, 6), 'yyyy-MM-dd');
+    case '1Y': return format(subYears(asOf, 1), 'yyyy-MM-dd');
+    case '3Y': return format(subYears(asOf, 3), 'yyyy-MM-dd');
+    case 'ALL': return null;
+  }
+};
+
+// TWR and XIRR between two logs. Flows on or before the first log are part of its value.
+export const measurePerformance = (values: ValuePoint[], flows: CashFlowPoint[], startDate: string, endDate: string) => {
+  const window = [...values]
+    .filter(point => point.date >= startDate && point.date <= endDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (window.length === 0) return null;
+
+  const start = window[0];
+  const end = window[window.length - 1];
+  const days = differenceInCalendarDays(parseISO(end.date), parseISO(start.date));
+  const netFlows = sumFlows(flows, start.date, end.date);
+  const twr = chainReturns(buildPeriodReturns(window, flows).map(period => period.return));
+
+  const rate = xirr([
+    { date: start.date, amount: -Number(start.value) },
+    ...flows
+      .filter(flow => flow.date > start.date && flow.date <= end.date)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(flow => ({ date: flow.date, amount: -Number(flow.amount) })),
+    { date: end.date, amount: Number(end.value) },
+  ]);
+
+  return {
+    startDate: start.date,
+    endDate: end.date,
+    days,
+    startValue: Number(start.value),
+    endValue: Number(end.value),
+    netFlows,
+    pnl: Number(end.value) - Number(start.value) - netFlows,
+    twr,
+    mwr: rate === null ? null : Math.pow(1 + rate, days / DAYS_PER_YEAR) - 1,
+    twrAnnualized: annualize(twr, days),
+    xirr: days >= DAYS_PER_YEAR ? rate : null,
+  };
+};
+
+export const periodPerformance = (
+  values: ValuePoint[],
+  flows: CashFlowPoint[],
+  period: PerformancePeriod,
+  asOf: Date = new Date()
+): PeriodPerformance | null => {
+  const sorted = [...values].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) return null;
+
+  const baselineDate = periodBaselineDate(period, asOf);
+  const baseline = baselineDate ? sorted.filter(point => point.date <= baselineDate).pop() : sorted[0];
+  const start = baseline || sorted[0];
+
+  const result = measurePerformance(sorted, flows, start.date, sorted[sorted.length - 1].date);
+  return result && { ...result, partial: !baseline };
+};
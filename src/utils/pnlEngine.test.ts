@@ -0,0 +1,216 @@
+import Papa from 'papaparse';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { tastytradeAdapter } from '@/utils/brokers/tastytrade';
+import type { AdapterTrade, RawCsvRow } from '@/utils/brokers/types';
+import { assignImportHashes } from '@/utils/csvParser';
+import { buildPositionLedger } from '@/utils/positionLedger';
+import { planSettlements } from '@/utils/settlements';
+import { groupPositions, summarizePnl, tradePnl, tradeStatistics, type PnlTrade } from '@/utils/pnlEngine';
+import partialCloseCsv from './__fixtures__/tastytrade/partial-close.csv?raw';
+import rollCsv from './__fixtures__/tastytrade/roll.csv?raw';
+import expirationCsv from './__fixtures__/tastytrade/expiration.csv?raw';
+import assignmentCsv from './__fixtures__/tastytrade/assignment.csv?raw';
+import openCsv from './__fixtures__/tastytrade/open.csv?raw';
+
+// The engine is pure; this only keeps the client from reading localStorage when settlements.ts loads
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const AS_OF = new Date('2024-06-01T12:00:00Z');
+
+// Runs export rows through the same steps as an import: the tastytrade adapter, import hashes, then settlement
+// planning. Settled legs get a shared pair_id the way applySettlementPlans links them once saved.
+const importTastytrade = (...csvs: string[]): PnlTrade[] => {
+  const rows = csvs.flatMap(csv => Papa.parse<RawCsvRow>(csv.trim(), { header: true, skipEmptyLines: true }).data);
+  const parsed = assignImportHashes(
+    rows.map(row => tastytradeAdapter.mapRow(row)).filter((trade): trade is AdapterTrade => trade !== null)
+  );
+  const { trades, plans } = planSettlements(parsed, new Set(), []);
+
+  const pairByHash = new Map<string, string>();
+  plans.forEach((plan, index) => {
+    [plan.importHash, plan.stockImportHash, ...plan.closes.map(leg => leg.importHash)]
+      .forEach(hash => hash && pairByHash.set(hash, `settlement-${index + 1}`));
+  });
+
+  return trades.map(trade => ({
+    id: trade.import_hash,
+    symbol: trade.symbol,
+    date: trade.date,
+    action: trade.action,
+    quantity: trade.quantity,
+    amount: trade.amount,
+    multiplier: trade.multiplier,
+    mark_price: null,
+    order_id: trade.order_id,
+    pair_id: pairByHash.get(trade.import_hash) || null,
+  }));
+};
+
+// Stands in for a positions upload, which stores the mark on the open legs
+const withMark = (trades: PnlTrade[], symbol: string, mark: number) =>
+  trades.map(trade => trade.symbol === symbol && trade.action.includes('OPEN') ? { ...trade, mark_price: mark } : trade);
+
+const find = (trades: PnlTrade[], action: string, symbol: string) =>
+  trades.find(trade => trade.action === action && trade.symbol === symbol)!;
+
+beforeAll(() => {
+  // The adapter logs every row it looks at
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('partial closes', () => {
+  const SYMBOL = 'SPY   240216P00460000';
+
+  it('realizes each close against the same lot', () => {
+    const trades = importTastytrade(partialCloseCsv);
+    const ledger = buildPositionLedger(trades);
+    const [lot] = ledger.lots;
+
+    expect(ledger.lots).toHaveLength(1);
+    expect(lot.closes.map(close => close.realizedPnl)).toEqual([130, 420]);
+    expect(lot.openQuantity).toBe(0);
+    expect(ledger.unmatchedCloses).toEqual([]);
+
+    const summary = summarizePnl(trades, { ledger, asOf: AS_OF });
+    expect(summary.realizedPnl).toBe(550);
+    expect(summary.unrealizedPnl).toBe(0);
+    expect(summary.totalPnl).toBe(550);
+    expect(summary.groups).toHaveLength(1);
+    expect(summary.groups[0].trades).toHaveLength(3);
+    expect(summary.groups[0].isOpen).toBe(false);
+    expect(summary.groups[0].credit).toBe(750);
+  });
+
+  it('splits an open fill into realized and unrealized while part of it is open', () => {
+    const trades = withMark(importTastytrade(partialCloseCsv), SYMBOL, 0.9)
+      .filter(trade => trade.date < '2024-02-01');
+    const ledger = buildPositionLedger(trades);
+
+    const open = tradePnl(ledger, find(trades, 'SELL_TO_OPEN', SYMBOL));
+    expect(open.openQuantity).toBe(2);
+    expect(open.realizedPnl).toBe(250);
+    expect(open.unrealizedPnl).toBeCloseTo(320, 6);
+    expect(open.marketValue).toBeCloseTo(-180, 6);
+
+    const summary = summarizePnl(trades, { ledger, asOf: AS_OF });
+    expect(summary.realizedPnl).toBe(130);
+    expect(summary.unrealizedPnl).toBeCloseTo(320, 6);
+    expect(summary.totalPnl).toBeCloseTo(450, 6);
+    expect(summary.openGroups).toBe(1);
+    expect(summary.trades).toBe(0);
+  });
+});
+
+describe('rolls', () => {
+  it('keeps each rolled position as its own group', () => {
+    const trades = importTastytrade(rollCsv);
+    const groups = groupPositions(trades, buildPositionLedger(trades), AS_OF);
+
+    expect(groups.map(group => [group.trades[0].symbol, group.totalPnl])).toEqual([
+      ['QQQ   240216P00395000', 515],
+      ['QQQ   240119P00400000', -210],
+    ]);
+    expect(groups.every(group => !group.isOpen)).toBe(true);
+  });
+
+  it('counts the roll chain as one trade', () => {
+    const trades = importTastytrade(rollCsv);
+    const groups = groupPositions(trades, buildPositionLedger(trades), AS_OF);
+
+    const byChain = tradeStatistics(groups);
+    expect(byChain).toMatchObject({ trades: 1, wins: 1, losses: 0, expectancy: 305, largestWin: 305 });
+
+    const byGroup = tradeStatistics(groups, false);
+    expect(byGroup).toMatchObject({ trades: 2, wins: 1, losses: 1, winRate: 50, expectancy: 152.5, largestWin: 515, largestLoss: -210 });
+    expect(byGroup.profitFactor).toBeCloseTo(515 / 210, 10);
+    expect(byGroup.payoffRatio).toBeCloseTo(515 / 210, 10);
+  });
+});
+
+describe('expirations', () => {
+  it('closes the short at zero and keeps the whole credit', () => {
+    const trades = importTastytrade(expirationCsv);
+    const ledger = buildPositionLedger(trades);
+    const expiration = find(trades, 'BUY_TO_CLOSE', 'IWM   240315P00190000');
+
+    expect(expiration.amount).toBe(0);
+    expect(ledger.openQuantityByTrade.size).toBe(0);
+
+    const summary = summarizePnl(trades, { ledger, asOf: AS_OF });
+    expect(summary.realizedPnl).toBe(220);
+    expect(summary.groups).toHaveLength(1);
+    expect(summary).toMatchObject({ trades: 1, wins: 1, losses: 0, winRate: 100, expectancy: 220 });
+  });
+});
+
+describe('assignments', () => {
+  it('links the put, the delivered shares and their sale into one losing trade', () => {
+    const trades = importTastytrade(assignmentCsv);
+    const ledger = buildPositionLedger(trades);
+    const summary = summarizePnl(trades, { ledger, asOf: AS_OF });
+
+    expect(summary.groups).toHaveLength(1);
+    // The assignment and the delivered shares share a timestamp, so only the set of legs is fixed
+    expect(summary.groups[0].trades.map(trade => `${trade.action} ${trade.symbol}`).sort()).toEqual([
+      'BUY_TO_CLOSE AAPL  240209P00185000',
+      'BUY_TO_OPEN AAPL',
+      'SELL_TO_CLOSE AAPL',
+      'SELL_TO_OPEN AAPL  240209P00185000',
+    ]);
+    expect(summary.realizedPnl).toBe(-30);
+    expect(summary.unrealizedPnl).toBe(0);
+    expect(ledger.positions.get('AAPL')?.realizedPnl).toBeCloseTo(-270, 6);
+    expect(ledger.positions.get('AAPL  240209P00185000')?.realizedPnl).toBe(240);
+    expect(summary).toMatchObject({ trades: 1, wins: 0, losses: 1, expectancy: -30, largestLoss: -30, profitFactor: 0 });
+  });
+});
+
+describe('whole account', () => {
+  const trades = withMark(
+    importTastytrade(partialCloseCsv, rollCsv, expirationCsv, assignmentCsv, openCsv),
+    'SPY   240621P00480000',
+    2.15
+  );
+
+  it('skips money movements', () => {
+    expect(trades).toHaveLength(14);
+  });
+
+  it('adds up realized and unrealized P&L across every position', () => {
+    const summary = summarizePnl(trades, { asOf: AS_OF });
+
+    expect(summary.realizedPnl).toBe(1045);
+    expect(summary.unrealizedPnl).toBeCloseTo(210, 6);
+    expect(summary.totalPnl).toBeCloseTo(1255, 6);
+    expect(summary.openGroups).toBe(1);
+    expect(summary.closedGroups).toBe(5);
+    expect(summary.openPositions).toBe(1);
+    expect(summary.firstTradeDate).toBe('2023-12-01');
+  });
+
+  it('counts wins, losses and expectancy over closed trades only', () => {
+    const summary = summarizePnl(trades, { asOf: AS_OF });
+
+    expect(summary).toMatchObject({
+      trades: 4,
+      wins: 3,
+      losses: 1,
+      scratches: 0,
+      winRate: 75,
+      averageWin: 1075 / 3,
+      averageLoss: -30,
+      expectancy: 261.25,
+      largestWin: 550,
+      largestLoss: -30,
+    });
+    expect(summary.profitFactor).toBeCloseTo(1075 / 30, 10);
+  });
+
+  it('matches the per-group totals', () => {
+    const ledger = buildPositionLedger(trades);
+    const groups = groupPositions(trades, ledger, AS_OF);
+
+    expect(groups.map(group => group.totalPnl).sort((a, b) => a - b)).toEqual([-210, -30, 210, 220, 515, 550]);
+    expect(tradeStatistics(groups, false)).toMatchObject({ trades: 5, wins: 3, losses: 2, expectancy: 209 });
+  });
+});
@@ -0,0 +1,241 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import {
+  buildPositionLedger,
+  openMarketValue,
+  signedAmount,
+  type LedgerFill,
+  type PositionLedger,
+} from '@/utils/positionLedger';
+import { linkRollChains, type RollChainLink } from '@/utils/rollChains';
+
+// The one place P&L is computed. Every figure is cash-basis: what the fills paid or received, plus what is still
+// open valued at its stored mark. The FIFO ledger decides what is open.
+
+export interface PnlTrade extends LedgerFill {
+  pair_id?: string | null;
+  order_id?: string | null;
+}
+
+export interface PnlTotals {
+  // Signed cash of the fills, fees included
+  cash: number;
+  // Open quantity at its stored mark; unmarked open quantity counts as zero
+  marketValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+}
+
+export interface TradePnl extends PnlTotals {
+  isOpen: boolean;
+  openQuantity: number;
+}
+
+export interface PositionGroup<T extends PnlTrade = PnlTrade> extends PnlTotals {
+  // pair_id, or the trade id of an unpaired fill
+  id: string;
+  // More than one fill: legs sharing a pair_id, or unpaired closes that joined the fill they closed
+  isPair: boolean;
+  // Oldest first
+  trades: T[];
+  isOpen: boolean;
+  openDate: string;
+  // Last fill of a closed group; null while open
+  closeDate: string | null;
+  daysInTrade: number;
+  // Premium taken in: the sum of the group's credits
+  credit: number;
+}
+
+export interface TradeStatistics {
+  // Closed trades: position groups, with a roll chain counted once
+  trades: number;
+  wins: number;
+  losses: number;
+  // Closed at exactly zero; left out of the win rate
+  scratches: number;
+  // Percent of closed trades that made money, scratches excluded
+  winRate: number;
+  averageWin: number;
+  // Negative
+  averageLoss: number;
+  // Average P&L per closed trade
+  expectancy: number;
+  // Gross profit over gross loss; null without losses
+  profitFactor: number | null;
+  // Average winner over average loser; null without both
+  payoffRatio: number | null;
+  largestWin: number;
+  // Negative
+  largestLoss: number;
+}
+
+export interface PnlSummary extends PnlTotals, TradeStatistics {
+  groups: PositionGroup[];
+  openGroups: number;
+  closedGroups: number;
+  // Open instruments across all groups
+  openPositions: number;
+  firstTradeDate: string | null;
+  lastTradeDate: string | null;
+  daysInTrade: number;
+}
+
+const ZERO_TOTALS: PnlTotals = { cash: 0, marketValue: 0, realizedPnl: 0, unrealizedPnl: 0, totalPnl: 0 };
+
+const addTotals = (a: PnlTotals, b: PnlTotals): PnlTotals => ({
+  cash: a.cash + b.cash,
+  marketValue: a.marketValue + b.marketValue,
+  realizedPnl: a.realizedPnl + b.realizedPnl,
+  unrealizedPnl: a.unrealizedPnl + b.unrealizedPnl,
+  totalPnl: a.totalPnl + b.totalPnl,
+});
+
+const byDate = (a: { date: string }, b: { date: string }) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// Calendar days from entry to exit (or asOf), counting a same-day round trip as one
+export const daysInTrade = (start: string | Date, end: string | Date): number =>
+  Math.max(1, differenceInCalendarDays(new Date(end), new Date(start)));
+
+// A fill's share of P&L. The cash of its still-open quantity plus that quantity's market value is unrealized;
+// the rest of its cash is realized. Summed over fills, realized is exactly what the ledger matched.
+export const tradePnl = (ledger: PositionLedger, trade: LedgerFill): TradePnl => {
+  const cash = signedAmount(trade);
+  const quantity = Math.abs(Number(trade.quantity)) || 0;
+  const openQuantity = ledger.openQuantityByTrade.get(trade.id) || 0;
+  const openCash = quantity > 0 ? cash * (openQuantity / quantity) : 0;
+  const marketValue = openMarketValue(ledger, trade);
+
+  return {
+    cash,
+    marketValue,
+    realizedPnl: cash - openCash,
+    unrealizedPnl: openCash + marketValue,
+    totalPnl: cash + marketValue,
+    isOpen: openQuantity > 0,
+    openQuantity,
+  };
+};
+
+export const sumPnl = (ledger: PositionLedger, trades: LedgerFill[]): PnlTotals =>
+  trades.reduce((totals, trade) => addTotals(totals, tradePnl(ledger, trade)), ZERO_TOTALS);
+
+// Group of each fill: its pair_id, else the group of the fill whose lot it closed, else its own id. Without the
+// second rule an unpaired open and its unpaired close would count as one win and one loss.
+const positionGroupIds = (trades: PnlTrade[], ledger: PositionLedger): Map<string, string> => {
+  const tradesById = new Map(trades.map(trade => [trade.id, trade]));
+  const groupIds = new Map(trades.map(trade => [trade.id, trade.pair_id || trade.id]));
+
+  ledger.lots.forEach(lot => {
+    const opening = tradesById.get(lot.tradeId);
+    if (!opening) return;
+    lot.closes.forEach(close => {
+      const closing = tradesById.get(close.tradeId);
+      if (!closing || closing.pair_id || groupIds.get(closing.id) !== closing.id) return;
+      groupIds.set(closing.id, groupIds.get(opening.id) || opening.id);
+    });
+  });
+  return groupIds;
+};
+
+// Position groups, newest first. Pass the ledger of the wider set of trades when grouping a subset, so closes
+// in other groups still count.
+export const groupPositions = <T extends PnlTrade>(
+  trades: T[],
+  ledger: PositionLedger = buildPositionLedger(trades),
+  asOf: Date = new Date()
+): PositionGroup<T>[] => {
+  const groupIds = positionGroupIds(trades, ledger);
+  const grouped = new Map<string, T[]>();
+  trades.forEach(trade => {
+    const groupId = groupIds.get(trade.id) || trade.id;
+    grouped.set(groupId, [...(grouped.get(groupId) || []), trade]);
+  });
+
+  return Array.from(grouped.entries()).map(([id, groupTrades]) => {
+    const sorted = [...groupTrades].sort(byDate);
+    const pnls = sorted.map(trade => tradePnl(ledger, trade));
+    const totals = pnls.reduce(addTotals, ZERO_TOTALS);
+    const isOpen = pnls.some(pnl => pnl.isOpen);
+    const openDate = sorted[0].date;
+    const closeDate = isOpen ? null : sorted[sorted.length - 1].date;
+
+    return {
+      ...totals,
+      id,
+      isPair: sorted.length > 1 || sorted.some(trade => !!trade.pair_id),
+      trades: sorted,
+      isOpen,
+      openDate,
+      closeDate,
+      daysInTrade: daysInTrade(openDate, closeDate || asOf),
+      credit: pnls.reduce((sum, pnl) => sum + Math.max(0, pnl.cash), 0),
+    };
+  }).sort((a, b) => new Date(b.openDate).getTime() - new Date(a.openDate).getTime());
+};
+
+// Statistics over closed trades, never individual legs or closing fills. A trade is a position group or, with
+// byRollChain, every position in a roll chain together; a chain counts once it is closed all the way through.
+export const tradeStatistics = (groups: PositionGroup[], byRollChain = true): TradeStatistics => {
+  const outcomes = new Map<string, { pnl: number; isOpen: boolean }>();
+  const links = byRollChain ? linkRollChains(groups) : new Map<string, RollChainLink>();
+  groups.forEach(group => {
+    const key = links.get(group.id)?.chainId || group.id;
+    const outcome = outcomes.get(key) || { pnl: 0, isOpen: false };
+    outcomes.set(key, { pnl: outcome.pnl + group.totalPnl, isOpen: outcome.isOpen || group.isOpen });
+  });
+
+  const closed = Array.from(outcomes.values()).filter(outcome => !outcome.isOpen).map(outcome => outcome.pnl);
+  const winners = closed.filter(pnl => pnl > 0);
+  const losers = closed.filter(pnl => pnl < 0);
+  const decided = winners.length + losers.length;
+  const grossProfit = winners.reduce((sum, pnl) => sum + pnl, 0);
+  const grossLoss = losers.reduce((sum, pnl) => sum + pnl, 0);
+  const averageWin = winners.length > 0 ? grossProfit / winners.length : 0;
+  const averageLoss = losers.length > 0 ? grossLoss / losers.length : 0;
+
+  return {
+    trades: closed.length,
+    wins: winners.length,
+    losses: losers.length,
+    scratches: closed.length - decided,
+    winRate: decided > 0 ? (winners.length / decided) * 100 : 0,
+    averageWin,
+    averageLoss,
+    expectancy: closed.length > 0 ? (grossProfit + grossLoss) / closed.length : 0,
+    profitFactor: grossLoss < 0 ? grossProfit / Math.abs(grossLoss) : null,
+    payoffRatio: winners.length > 0 && losers.length > 0 ? averageWin / Math.abs(averageLoss) : null,
+    largestWin: winners.length > 0 ? Math.max(...winners) : 0,
+    largestLoss: losers.length > 0 ? Math.min(...losers) : 0,
+  };
+};
+
+// Everything a strategy, tag or account page shows about a set of trades. With endAtLastTrade (a closed strategy),
+// days in trade stop at the last fill instead of running to asOf.
+export const summarizePnl = (
+  trades: PnlTrade[],
+  options: { ledger?: PositionLedger; endAtLastTrade?: boolean; asOf?: Date } = {}
+): PnlSummary => {
+  const ledger = options.ledger || buildPositionLedger(trades);
+  const asOf = options.asOf || new Date();
+  const groups = groupPositions(trades, ledger, asOf);
+  const totals = groups.reduce<PnlTotals>(addTotals, ZERO_TOTALS);
+
+  const dated = trades.filter(trade => !isNaN(new Date(trade.date).getTime())).sort(byDate);
+  const first = dated[0]?.date;
+  const last = dated[dated.length - 1]?.date;
+  const tradeIds = new Set(trades.map(trade => trade.id));
+  const openSymbols = new Set(ledger.lots.filter(lot => lot.openQuantity > 0 && tradeIds.has(lot.tradeId)).map(lot => lot.symbol));
+
+  return {
+    ...totals,
+    ...tradeStatistics(groups),
+    groups,
+    openGroups: groups.filter(group => group.isOpen).length,
+    closedGroups: groups.filter(group => !group.isOpen).length,
+    openPositions: openSymbols.size,
+    firstTradeDate: first ? format(new Date(first), 'yyyy-MM-dd') : null,
+    lastTradeDate: last ? format(new Date(last), 'yyyy-MM-dd') : null,
+    daysInTrade: first ? daysInTrade(first, options.endAtLastTrade ? last : asOf) : 0,
+  };
+};
@@ -0,0 +1,169 @@
+export interface LedgerFill {
+  id: string;
+  symbol: string;
+  date: string;
+  action: string;
+  quantity: number;
+  amount: number;
+  multiplier: number;
+  mark_price?: number | null;
+}
+
+export type LotSide = 'LONG' | 'SHORT';
+
+export interface LotClose {
+  tradeId: string;
+  date: string;
+  quantity: number;
+  realizedPnl: number;
+}
+
+export interface Lot {
+  // The opening fill
+  tradeId: string;
+  symbol: string;
+  side: LotSide;
+  openDate: string;
+  quantity: number;
+  openQuantity: number;
+  multiplier: number;
+  // Signed cash per unit at entry, fees included: negative for a long, positive for a short
+  cashPerUnit: number;
+  realizedPnl: number;
+  closes: LotClose[];
+}
+
+export interface InstrumentPosition {
+  symbol: string;
+  // Side of the open lots; null once flat
+  side: LotSide | null;
+  openQuantity: number;
+  // Average entry price per share/contract of the open lots, fees included
+  averageCost: number;
+  realizedPnl: number;
+  lots: Lot[];
+}
+
+export interface PositionLedger {
+  lots: Lot[];
+  positions: Map<string, InstrumentPosition>;
+  // Quantity still open per opening fill; closing fills and fully closed opens aren't in it
+  openQuantityByTrade: Map<string, number>;
+  // Closing quantity that found no open lot, usually because the opening fill predates the imported history
+  unmatchedCloses: { tradeId: string; symbol: string; quantity: number }[];
+}
+
+// Buy amounts are stored positive by some imports; cash out is always negative here.
+export const signedAmount = (trade: { action: string; amount: number }): number => {
+  const amount = Number(trade.amount) || 0;
+  const action = trade.action.toUpperCase();
+  const isBuy = action.includes('BUY') || action.includes('LONG');
+  return isBuy && amount > 0 ? -amount : amount;
+};
+
+const isBuyAction = (action: string) => {
+  const upper = action.toUpperCase();
+  return upper.includes('BUY') || upper.includes('LONG');
+};
+
+// Opening fills first when an open and a close share a timestamp, so the close has a lot to match
+const fillOrder = (a: LedgerFill, b: LedgerFill) => {
+  const byDate = new Date(a.date).getTime() - new Date(b.date).getTime();
+  if (byDate !== 0) return byDate;
+  return Number(b.action.toUpperCase().includes('OPEN')) - Number(a.action.toUpperCase().includes('OPEN'));
+};
+
+// Matches closing fills to opening fills FIFO per instrument.
+// Actions that say OPEN or CLOSE are taken at their word. Plain BUY/SELL (stock) reduces lots on the other side
+// first and opens a new lot with whatever is left.
+export const buildPositionLedger = (fills: LedgerFill[]): PositionLedger => {
+  const lots: Lot[] = [];
+  const openLots = new Map<string, Lot[]>();
+  const unmatchedCloses: PositionLedger['unmatchedCloses'] = [];
+
+  const openLot = (fill: LedgerFill, quantity: number, cashPerUnit: number) => {
+    const lot: Lot = {
+      tradeId: fill.id,
+      symbol: fill.symbol,
+      side: isBuyAction(fill.action) ? 'LONG' : 'SHORT',
+      openDate: fill.date,
+      quantity,
+      openQuantity: quantity,
+      multiplier: Number(fill.multiplier) || 1,
+      cashPerUnit,
+      realizedPnl: 0,
+      closes: [],
+    };
+    lots.push(lot);
+    openLots.set(fill.symbol, [...(openLots.get(fill.symbol) || []), lot]);
+  };
+
+  // Reduces lots on the side this fill closes; returns the quantity left over
+  const closeLots = (fill: LedgerFill, quantity: number, cashPerUnit: number): number => {
+    const closingSide: LotSide = isBuyAction(fill.action) ? 'SHORT' : 'LONG';
+    let remaining = quantity;
+    for (const lot of openLots.get(fill.symbol) || []) {
+      if (remaining <= 0) break;
+      if (lot.side !== closingSide || lot.openQuantity <= 0) continue;
+      const matched = Math.min(lot.openQuantity, remaining);
+      const realizedPnl = matched * (lot.cashPerUnit + cashPerUnit);
+      lot.openQuantity -= matched;
+      lot.realizedPnl += realizedPnl;
+      lot.closes.push({ tradeId: fill.id, date: fill.date, quantity: matched, realizedPnl });
+      remaining -= matched;
+    }
+    openLots.set(fill.symbol, (openLots.get(fill.symbol) || []).filter(lot => lot.openQuantity > 0));
+    return remaining;
+  };
+
+  [...fills].sort(fillOrder).forEach(fill => {
+    const quantity = Math.abs(Number(fill.quantity)) || 0;
+    if (quantity === 0) return;
+    const cashPerUnit = signedAmount(fill) / quantity;
+    const action = fill.action.toUpperCase();
+
+    if (action.includes('OPEN')) {
+      openLot(fill, quantity, cashPerUnit);
+    } else if (action.includes('CLOSE')) {
+      const left = closeLots(fill, quantity, cashPerUnit);
+      if (left > 0) unmatchedCloses.push({ tradeId: fill.id, symbol: fill.symbol, quantity: left });
+    } else {
+      const left = closeLots(fill, quantity, cashPerUnit);
+      if (left > 0) openLot(fill, left, cashPerUnit);
+    }
+  });
+
+  const positions = new Map<string, InstrumentPosition>();
+  lots.forEach(lot => {
+    const position = positions.get(lot.symbol) || { symbol: lot.symbol, side: null, openQuantity: 0, averageCost: 0, realizedPnl: 0, lots: [] };
+    position.lots.push(lot);
+    position.realizedPnl += lot.realizedPnl;
+    positions.set(lot.symbol, position);
+  });
+  positions.forEach(position => {
+    const open = position.lots.filter(lot => lot.openQuantity > 0);
+    position.openQuantity = open.reduce((sum, lot) => sum + lot.openQuantity, 0);
+    position.side = open[0]?.side ?? null;
+    const units = open.reduce((sum, lot) => sum + lot.openQuantity * lot.multiplier, 0);
+    const cost = open.reduce((sum, lot) => sum + Math.abs(lot.cashPerUnit) * lot.openQuantity, 0);
+    position.averageCost = units > 0 ? cost / units : 0;
+  });
+
+  const openQuantityByTrade = new Map<string, number>();
+  lots.forEach(lot => {
+    if (lot.openQuantity > 0) openQuantityByTrade.set(lot.tradeId, (openQuantityByTrade.get(lot.tradeId) || 0) + lot.openQuantity);
+  });
+
+  return { lots, positions, openQuantityByTrade, unmatchedCloses };
+};
+
+export const isTradeOpen = (ledger: PositionLedger, tradeId: string): boolean =>
+  (ledger.openQuantityByTrade.get(tradeId) || 0) > 0;
+
+// Market value of what's still open from this fill, at its stored mark. Zero when closed or unmarked.
+export const openMarketValue = (ledger: PositionLedger, trade: LedgerFill): number => {
+  const openQuantity = ledger.openQuantityByTrade.get(trade.id) || 0;
+  if (openQuantity === 0 || trade.mark_price === null || trade.mark_price === undefined) return 0;
+  const sign = isBuyAction(trade.action) ? 1 : -1;
+  return Math.abs(Number(trade.mark_price)) * openQuantity * (Number(trade.multiplier) || 1) * sign;
+};
@@ -0,0 +1,171 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toStoredSymbol } from '@/utils/brokers/helpers';
+import { contractMultiplier, type ContractSpecMap } from '@/utils/contractSpecs';
+import { isOptionInstrument, parseInstrument } from '@/utils/instrument';
+import type { InstrumentPosition, LedgerFill, LotSide, PositionLedger } from '@/utils/positionLedger';
+import type { ParsedPosition } from '@/utils/positionsCsvParser';
+
+export interface ReconcilableTrade extends LedgerFill {
+  pair_id: string | null;
+  strategy_id: string | null;
+  tag_id: string | null;
+}
+
+export interface MatchedPosition {
+  position: ParsedPosition;
+  // Usually one; more when the same instrument was stored under different symbol formats
+  ledgerPositions: InstrumentPosition[];
+  brokerQuantity: number;
+  // Signed like broker exports: negative when short
+  ledgerQuantity: number;
+}
+
+export interface PositionReconciliation {
+  matched: MatchedPosition[];
+  // Held at the broker, nothing open in our trades
+  brokerOnly: ParsedPosition[];
+  // Open in our trades, not held at the broker any more
+  ledgerOnly: InstrumentPosition[];
+  // Matched, but the open quantity or side disagrees
+  quantityMismatches: MatchedPosition[];
+}
+
+export type LedgerCloseMode = 'CLOSED' | 'EXPIRED';
+
+const signedOpenQuantity = (position: InstrumentPosition) =>
+  position.side === 'SHORT' ? -position.openQuantity : position.openQuantity;
+
+// Matches the ledger's open instruments to a positions snapshot, by symbol and then by canonical instrument.
+export const reconcilePositions = (positions: ParsedPosition[], ledger: PositionLedger): PositionReconciliation => {
+  const bySymbol = new Map(positions.map(position => [position.symbol, position]));
+  const byCanonical = new Map(positions.map(position => [position.canonicalSymbol, position]));
+  // Some exports report shorts as positive quantities; only compare sides when the file uses signs
+  const brokerUsesSigns = positions.some(position => position.quantity < 0);
+
+  const matchedByPosition = new Map<ParsedPosition, InstrumentPosition[]>();
+  const ledgerOnly: InstrumentPosition[] = [];
+
+  ledger.positions.forEach(ledgerPosition => {
+    if (ledgerPosition.openQuantity <= 0) return;
+    const position = bySymbol.get(ledgerPosition.symbol) || byCanonical.get(parseInstrument(ledgerPosition.symbol).canonical);
+    if (!position) {
+      ledgerOnly.push(ledgerPosition);
+      return;
+    }
+    matchedByPosition.set(position, [...(matchedByPosition.get(position) || []), ledgerPosition]);
+  });
+
+  const matched: MatchedPosition[] = Array.from(matchedByPosition.entries()).map(([position, ledgerPositions]) => ({
+    position,
+    ledgerPositions,
+    brokerQuantity: position.quantity,
+    ledgerQuantity: ledgerPositions.reduce((sum, ledgerPosition) => sum + signedOpenQuantity(ledgerPosition), 0),
+  }));
+
+  const quantityMismatches = matched.filter(match =>
+    Math.abs(match.brokerQuantity) !== Math.abs(match.ledgerQuantity) ||
+    (brokerUsesSigns && Math.sign(match.brokerQuantity) !== Math.sign(match.ledgerQuantity))
+  );
+
+  const brokerOnly = positions.filter(position => position.quantity !== 0 && !matchedByPosition.has(position));
+
+  return { matched, brokerOnly, ledgerOnly, quantityMismatches };
+};
+
+// Records broker positions we have no trades for as opening trades at the current mark, so their P&L starts at zero.
+export const createOpeningTrades = async (
+  entries: { position: ParsedPosition; side: LotSide }[],
+  userId: string,
+  specs: ContractSpecMap
+): Promise<number> => {
+  if (entries.length === 0) return 0;
+  const date = new Date().toISOString();
+
+  const rows = entries.map(({ position, side }) => {
+    const { symbol, instrument } = toStoredSymbol(position.symbol);
+    const quantity = Math.abs(position.quantity);
+    const mark = Math.abs(position.mark);
+    const multiplier = contractMultiplier(symbol, isOptionInstrument(instrument) ? 100 : 1, specs);
+    const value = mark * quantity * multiplier;
+    return {
+      user_id: userId,
+      symbol,
+      date,
+      action: side === 'SHORT' ? 'SELL_TO_OPEN' : 'BUY_TO_OPEN',
+      quantity,
+      price: mark,
+      fees: 0,
+      amount: side === 'SHORT' ? value : -value,
+      asset_type: instrument.assetClass,
+      multiplier,
+      mark_price: mark,
+      notes: 'Opened from positions snapshot',
+    };
+  });
+
+  const { error } = await supabase.from('trades').insert(rows);
+  if (error) throw error;
+  return rows.length;
+};
+
+// Books a closing trade for every lot still open in these positions: at zero on the expiry date when they
+// expired, otherwise today at the last stored mark. Each close joins its opening leg's group, strategy and tag.
+export const closeLedgerPositions = async (
+  positions: InstrumentPosition[],
+  trades: Map<string, ReconcilableTrade>,
+  userId: string,
+  mode: LedgerCloseMode
+): Promise<number> => {
+  const rows = [];
+  const pairUpdates: { id: string; pair_id: string }[] = [];
+  const openedIds: string[] = [];
+
+  for (const position of positions) {
+    const instrument = parseInstrument(position.symbol);
+    const date = mode === 'EXPIRED' && instrument.expiry
+      ? new Date(`${instrument.expiry}T16:00:00`).toISOString()
+      : new Date().toISOString();
+
+    for (const lot of position.lots) {
+      if (lot.openQuantity <= 0) continue;
+      const opening = trades.get(lot.tradeId);
+      const price = mode === 'EXPIRED' ? 0 : Math.abs(Number(opening?.mark_price) || 0);
+      const value = price * lot.openQuantity * lot.multiplier;
+      const pairId = opening?.pair_id || crypto.randomUUID();
+      if (!opening?.pair_id) pairUpdates.push({ id: lot.tradeId, pair_id: pairId });
+      openedIds.push(lot.tradeId);
+
+      rows.push({
+        user_id: userId,
+        symbol: position.symbol,
+        date,
+        action: lot.side === 'SHORT' ? 'BUY_TO_CLOSE' : 'SELL_TO_CLOSE',
+        quantity: lot.openQuantity,
+        price,
+        fees: 0,
+        amount: lot.side === 'SHORT' ? -value : value,
+        asset_type: instrument.assetClass,
+        multiplier: lot.multiplier,
+        pair_id: pairId,
+        strategy_id: opening?.strategy_id ?? null,
+        tag_id: opening?.tag_id ?? null,
+        notes: mode === 'EXPIRED' ? 'Expired' : 'Closed from positions snapshot',
+      });
+    }
+  }
+
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase.from('trades').insert(rows);
+  if (error) throw error;
+
+  for (const update of pairUpdates) {
+    const { error: pairError } = await supabase.from('trades').update({ pair_id: update.pair_id }).eq('id', update.id);
+    if (pairError) throw pairError;
+  }
+
+  const { error: markError } = await supabase.from('trades').update({ mark_price: null }).in('id', openedIds);
+  if (markError) throw markError;
+
+  return rows.length;
+};
@@ -0,0 +1,51 @@
+import { buildPeriodReturns, type CashFlowPoint, type ValuePoint } from '@/utils/performance';
+
+export interface ReturnsMatrixRow {
+  year: number;
+  // January to December; null where there's no data for the month
+  months: (number | null)[];
+  ytd: number | null;
+}
+
+// Return of each calendar month (yyyy-MM), chaining the flow-adjusted returns between values that end in it
+export const monthlyReturnsFromValues = (values: ValuePoint[], flows: CashFlowPoint[] = []): Map<string, number> => {
+  const growth = new Map<string, number>();
+  buildPeriodReturns(values, flows).forEach(period => {
+    const month = period.date.slice(0, 7);
+    growth.set(month, (growth.get(month) ?? 1) * (1 + period.return));
+  });
+  return new Map(Array.from(growth.entries()).map(([month, g]) => [month, g - 1]));
+};
+
+// Change in cumulative P&L over each calendar month, as a fraction of a fixed capital base
+export const monthlyReturnsFromPnl = (points: { date: string; pnl: number }[], capital: number): Map<string, number> => {
+  const monthly = new Map<string, number>();
+  if (capital <= 0) return monthly;
+
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  let previousClose = 0;
+  sorted.forEach((point, index) => {
+    const month = point.date.slice(0, 7);
+    const isMonthEnd = index === sorted.length - 1 || sorted[index + 1].date.slice(0, 7) !== month;
+    if (!isMonthEnd) return;
+    monthly.set(month, (point.pnl - previousClose) / capital);
+    previousClose = point.pnl;
+  });
+  return monthly;
+};
+
+// Years newest first. Compounded YTD suits returns on a changing balance; on a fixed capital base the months add up.
+export const buildReturnsMatrix = (monthly: Map<string, number>, compound = true): ReturnsMatrixRow[] => {
+  const years = Array.from(new Set(Array.from(monthly.keys()).map(month => Number(month.slice(0, 4))))).sort((a, b) => b - a);
+
+  return years.map(year => {
+    const months = Array.from({ length: 12 }, (_, index) => monthly.get(`${year}-${String(index + 1).padStart(2, '0')}`) ?? null);
+    const present = months.filter((value): value is number => value !== null);
+    const ytd = present.length === 0
+      ? null
+      : compound
+        ? present.reduce((growth, value) => growth * (1 + value), 1) - 1
+        : present.reduce((sum, value) => sum + value, 0);
+    return { year, months, ytd };
+  });
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { riskMetrics } from '@/utils/riskMetrics';
+
+// Four quarterly returns of +10%, -10%, +10%, +10% over exactly a year, so they annualize by sqrt(4) = 2.
+// Returns have mean 0.05 and sample deviation 0.1; the downside deviation is sqrt(0.01 / 4) = 0.05.
+const values = [
+  { date: '2023-01-01', value: 100 },
+  { date: '2023-04-01', value: 110 },
+  { date: '2023-07-01', value: 99 },
+  { date: '2023-10-01', value: 108.9 },
+  { date: '2024-01-01', value: 119.79 },
+];
+
+describe('riskMetrics', () => {
+  it('annualizes volatility, Sharpe and Sortino by the number of returns a year', () => {
+    const metrics = riskMetrics(values)!;
+
+    expect(metrics).toMatchObject({ startDate: '2023-01-01', endDate: '2024-01-01', observations: 4 });
+    expect(metrics.volatility).toBeCloseTo(0.2, 10);
+    expect(metrics.sharpe).toBeCloseTo(1, 10);
+    expect(metrics.sortino).toBeCloseTo(2, 10);
+    expect(metrics.cagr).toBeCloseTo(0.1979, 10);
+    expect(metrics.calmar).toBeCloseTo(1.979, 10);
+  });
+
+  it('takes the risk-free rate out of each return', () => {
+    // 1.01^4 - 1 a year is 1% a quarter: excess returns of 9%, -11%, 9%, 9%
+    const metrics = riskMetrics(values, [], Math.pow(1.01, 4) - 1)!;
+
+    expect(metrics.sharpe).toBeCloseTo(0.8, 10);
+    expect(metrics.sortino).toBeCloseTo(0.04 / 0.055 * 2, 10);
+    expect(metrics.volatility).toBeCloseTo(0.2, 10);
+  });
+
+  it('dates the worst drawdown from its peak to its trough and recovery', () => {
+    const metrics = riskMetrics(values)!;
+
+    expect(metrics.maxDrawdown!.depth).toBeCloseTo(-0.1, 10);
+    expect(metrics.maxDrawdown).toMatchObject({ peakDate: '2023-04-01', troughDate: '2023-07-01', recoveryDate: '2024-01-01' });
+    expect(metrics.underwater.map(point => point.drawdown)).toEqual([
+      0,
+      0,
+      expect.closeTo(-0.1, 10),
+      expect.closeTo(-0.01, 10),
+      0,
+    ]);
+    expect(metrics.currentDrawdown).toBe(0);
+  });
+
+  it('leaves a drawdown open until the peak is regained', () => {
+    const metrics = riskMetrics(values.slice(0, 4))!;
+
+    expect(metrics.maxDrawdown).toMatchObject({ peakDate: '2023-04-01', troughDate: '2023-07-01', recoveryDate: null });
+    expect(metrics.currentDrawdown).toBeCloseTo(-0.01, 10);
+  });
+
+  it('nets deposits out so they do not read as gains', () => {
+    // The same returns with 50 deposited at the close of Jul 1
+    const withDeposit = [
+      { date: '2023-01-01', value: 100 },
+      { date: '2023-04-01', value: 110 },
+      { date: '2023-07-01', value: 149 },
+      { date: '2023-10-01', value: 163.9 },
+      { date: '2024-01-01', value: 180.29 },
+    ];
+    const metrics = riskMetrics(withDeposit, [{ date: '2023-07-01', amount: 50 }])!;
+
+    expect(metrics.sharpe).toBeCloseTo(1, 10);
+    expect(metrics.maxDrawdown!.depth).toBeCloseTo(-0.1, 10);
+    expect(metrics.cagr).toBeCloseTo(0.1979, 10);
+  });
+});
@@ -0,0 +1,116 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { buildPeriodReturns, type CashFlowPoint, type ValuePoint } from '@/utils/performance';
+
+export interface DrawdownPoint {
+  date: string;
+  // Fraction below the running peak, 0 at a new high and negative below it
+  drawdown: number;
+}
+
+export interface MaxDrawdown {
+  depth: number;
+  peakDate: string;
+  troughDate: string;
+  // First date back at the peak; null while still under water
+  recoveryDate: string | null;
+}
+
+export interface RiskMetrics {
+  startDate: string;
+  endDate: string;
+  observations: number;
+  cagr: number | null;
+  volatility: number;
+  sharpe: number | null;
+  sortino: number | null;
+  calmar: number | null;
+  maxDrawdown: MaxDrawdown | null;
+  currentDrawdown: number;
+  underwater: DrawdownPoint[];
+}
+
+const DAYS_PER_YEAR = 365;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Growth of 1 through the flow-adjusted returns, so deposits don't read as gains or withdrawals as losses
+const growthIndex = (values: ValuePoint[], flows: CashFlowPoint[]) => {
+  const sorted = [...values].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) return { index: [], returns: [] };
+
+  const periods = buildPeriodReturns(sorted, flows);
+  let level = 1;
+  const index = [{ date: sorted[0].date, level }];
+  periods.forEach(period => {
+    level *= 1 + period.return;
+    index.push({ date: period.date, level });
+  });
+  return { index, returns: periods.map(period => period.return) };
+};
+
+export const underwaterSeries = (index: { date: string; level: number }[]): DrawdownPoint[] => {
+  let peak = -Infinity;
+  return index.map(point => {
+    peak = Math.max(peak, point.level);
+    return { date: point.date, drawdown: peak > 0 ? point.level / peak - 1 : 0 };
+  });
+};
+
+export const maxDrawdown = (index: { date: string; level: number }[]): MaxDrawdown | null => {
+  if (index.length === 0) return null;
+
+  let peak = index[0];
+  let worst: { depth: number; peak: typeof peak; troughDate: string } | null = null;
+  for (const point of index) {
+    if (point.level >= peak.level) {
+      peak = point;
+      continue;
+    }
+    const depth = point.level / peak.level - 1;
+    if (!worst || depth < worst.depth) worst = { depth, peak, troughDate: point.date };
+  }
+  if (!worst) return null;
+
+  const { depth, troughDate } = worst;
+  const peakLevel = worst.peak.level;
+  const recovery = index.find(point => point.date > troughDate && point.level >= peakLevel);
+  return { depth, peakDate: worst.peak.date, troughDate, recoveryDate: recovery ? recovery.date : null };
+};
+
+// Annualized risk statistics of an account valued at each date, net of deposits and withdrawals. The number of
+// returns per year is taken from the data, so daily logs annualize like trading days and weekly ones like weeks.
+// riskFreeRate is annual.
+export const riskMetrics = (values: ValuePoint[], flows: CashFlowPoint[] = [], riskFreeRate = 0): RiskMetrics | null => {
+  const { index, returns } = growthIndex(values, flows);
+  if (returns.length < 2) return null;
+
+  const startDate = index[0].date;
+  const endDate = index[index.length - 1].date;
+  const days = differenceInCalendarDays(parseISO(endDate), parseISO(startDate));
+  const periodsPerYear = days > 0 ? returns.length / (days / DAYS_PER_YEAR) : returns.length;
+  const periodRiskFree = Math.pow(1 + riskFreeRate, 1 / periodsPerYear) - 1;
+
+  const excess = returns.map(r => r - periodRiskFree);
+  const average = mean(excess);
+  const deviation = Math.sqrt(excess.reduce((sum, r) => sum + Math.pow(r - average, 2), 0) / (excess.length - 1));
+  const downside = Math.sqrt(excess.reduce((sum, r) => sum + Math.pow(Math.min(r, 0), 2), 0) / excess.length);
+
+  const totalGrowth = index[index.length - 1].level;
+  const cagr = days > 0 && totalGrowth > 0 ? Math.pow(totalGrowth, DAYS_PER_YEAR / days) - 1 : null;
+  const underwater = underwaterSeries(index);
+  const worst = maxDrawdown(index);
+
+  return {
+    startDate,
+    endDate,
+    observations: returns.length,
+    cagr,
+    volatility: deviation * Math.sqrt(periodsPerYear),
+    sharpe: deviation > 0 ? (average / deviation) * Math.sqrt(periodsPerYear) : null,
+    sortino: downside > 0 ? (average / downside) * Math.sqrt(periodsPerYear) : null,
+    calmar: cagr !== null && worst && worst.depth < 0 ? cagr / Math.abs(worst.depth) : null,
+    maxDrawdown: worst,
+    currentDrawdown: underwater[underwater.length - 1].drawdown,
+    underwater,
+  };
+};
@@ -0,0 +1,125 @@
+import { parseInstrument } from '@/utils/instrument';
+import { orderKey } from '@/utils/legGrouping';
+
+export interface RollChainTrade {
+  id: string;
+  date: string;
+  action: string;
+  symbol: string;
+  order_id?: string | null;
+}
+
+// A position as the pages group it: the legs sharing a pair_id, or a single unpaired trade.
+export interface RollChainGroup {
+  id: string;
+  trades: RollChainTrade[];
+}
+
+export interface RollChainLink {
+  // Id of the first position in the chain
+  chainId: string;
+  // Positions in the chain, oldest first
+  groupIds: string[];
+  // 1-based place of this position in the chain
+  position: number;
+  // Rolls across the whole chain, including ones made inside a single pair that holds both the old and new legs
+  rollCount: number;
+}
+
+export interface RollChainTotals {
+  // Net credit (or debit) of the chain up to and including this position
+  cumulativeAmount: number;
+  // Net P&L of every position in the chain
+  chainPnl: number;
+}
+
+const isOpening = (action: string) => action.toUpperCase().includes('OPEN');
+
+// A roll closes and opens legs on the same underlying in one order
+const rollKey = (trade: RollChainTrade) => `${parseInstrument(trade.symbol).underlying}|${orderKey(trade)}`;
+
+const firstTrade = (group: RollChainGroup) =>
+  group.trades.reduce((first, trade) => new Date(trade.date) < new Date(first.date) ? trade : first, group.trades[0]);
+
+// Orders after the opening one that both close and open legs of this group
+const rollsWithinGroup = (group: RollChainGroup): number => {
+  const opening = orderKey(firstTrade(group));
+  const orders = new Map<string, { opens: boolean; closes: boolean }>();
+  group.trades.forEach(trade => {
+    const key = orderKey(trade);
+    const order = orders.get(key) || { opens: false, closes: false };
+    if (isOpening(trade.action)) order.opens = true;
+    else order.closes = true;
+    orders.set(key, order);
+  });
+  return Array.from(orders.entries()).filter(([key, order]) => key !== opening && order.opens && order.closes).length;
+};
+
+// Links positions into roll chains: when a closing fill of one position shares its order with an opening fill
+// of another on the same underlying, the second is a roll of the first. Only positions that are part of a
+// chain (or were rolled within their own pair) get an entry.
+export const linkRollChains = (groups: RollChainGroup[]): Map<string, RollChainLink> => {
+  const populated = groups.filter(group => group.trades.length > 0);
+  const parent = new Map(populated.map(group => [group.id, group.id]));
+
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) {
+      parent.set(id, parent.get(parent.get(id)!)!);
+      id = parent.get(id)!;
+    }
+    return id;
+  };
+
+  const openedBy = new Map<string, Set<string>>();
+  populated.forEach(group => group.trades.forEach(trade => {
+    if (!isOpening(trade.action)) return;
+    const key = rollKey(trade);
+    openedBy.set(key, (openedBy.get(key) || new Set()).add(group.id));
+  }));
+
+  populated.forEach(group => group.trades.forEach(trade => {
+    if (isOpening(trade.action)) return;
+    openedBy.get(rollKey(trade))?.forEach(other => {
+      if (other !== group.id) parent.set(find(other), find(group.id));
+    });
+  }));
+
+  const chains = new Map<string, RollChainGroup[]>();
+  populated.forEach(group => {
+    const root = find(group.id);
+    chains.set(root, [...(chains.get(root) || []), group]);
+  });
+
+  const links = new Map<string, RollChainLink>();
+  chains.forEach(members => {
+    members.sort((a, b) => new Date(firstTrade(a).date).getTime() - new Date(firstTrade(b).date).getTime());
+    const rollCount = members.length - 1 + members.reduce((sum, group) => sum + rollsWithinGroup(group), 0);
+    if (rollCount === 0) return;
+
+    const groupIds = members.map(group => group.id);
+    members.forEach((group, index) => {
+      links.set(group.id, { chainId: groupIds[0], groupIds, position: index + 1, rollCount });
+    });
+  });
+  return links;
+};
+
+// Cumulative credit and whole-chain P&L for each chained position, from the per-position figures the page already has.
+export const rollChainTotals = <G extends { id: string }>(
+  groups: G[],
+  links: Map<string, RollChainLink>,
+  amount: (group: G) => number,
+  pnl: (group: G) => number
+): Map<string, RollChainTotals> => {
+  const byId = new Map(groups.map(group => [group.id, group]));
+  const totals = new Map<string, RollChainTotals>();
+
+  links.forEach((link, groupId) => {
+    const members = link.groupIds.map(id => byId.get(id)).filter((group): group is G => !!group);
+    totals.set(groupId, {
+      cumulativeAmount: members.slice(0, link.position).reduce((sum, group) => sum + amount(group), 0),
+      chainPnl: members.reduce((sum, group) => sum + pnl(group), 0),
+    });
+  });
+  return totals;
+};
@@ -0,0 +1,251 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ParsedTrade, SettlementEvent } from '@/utils/csvParser';
+import { generateFingerprint } from '@/utils/brokers/helpers';
+import { parseInstrument } from '@/utils/instrument';
+
+// A stored trade, as needed to work out which legs a settlement closes.
+export interface LedgerTrade {
+  id: string;
+  symbol: string;
+  date: string;
+  action: string;
+  quantity: number;
+  pair_id: string | null;
+  strategy_id: string | null;
+  tag_id: string | null;
+}
+
+// An opening leg is either already stored (tradeId) or part of the file being imported (importHash).
+export interface ClosedLeg {
+  tradeId?: string;
+  importHash?: string;
+  quantity: number;
+  fullyClosed: boolean;
+}
+
+export interface SettlementPlan {
+  importHash: string;
+  event: SettlementEvent;
+  symbol: string;
+  closes: ClosedLeg[];
+  stockImportHash?: string;
+  // Taken from the stored opening leg so the outcome lands in the same pair, strategy and tag.
+  pairId: string | null;
+  strategyId: string | null;
+  tagId: string | null;
+}
+
+export interface SettlementPlanResult {
+  trades: ParsedTrade[];
+  plans: SettlementPlan[];
+}
+
+const EVENT_NOTES: Record<SettlementEvent, string> = {
+  EXPIRATION: 'Expired',
+  ASSIGNMENT: 'Assigned',
+  EXERCISE: 'Exercised',
+};
+
+const KNOWN_CLOSES = ['BUY_TO_CLOSE', 'SELL_TO_CLOSE'];
+
+interface Lot {
+  leg: Omit<ClosedLeg, 'quantity' | 'fullyClosed'>;
+  short: boolean;
+  remaining: number;
+  stored?: LedgerTrade;
+}
+
+const isOpening = (action: string) => action.includes('OPEN');
+const isShortSide = (action: string) => action.startsWith('SELL');
+const sameDay = (a: string, b: string) => a.slice(0, 10) === b.slice(0, 10);
+
+// Consumes lots first-in first-out; returns what was taken from each.
+const consume = (lots: Lot[], quantity: number, short?: boolean) => {
+  const taken: { lot: Lot; quantity: number }[] = [];
+  let left = quantity;
+  for (const lot of lots) {
+    if (left <= 0) break;
+    if (lot.remaining <= 0 || (short !== undefined && lot.short !== short)) continue;
+    const qty = Math.min(lot.remaining, left);
+    lot.remaining -= qty;
+    left -= qty;
+    taken.push({ lot, quantity: qty });
+  }
+  return taken;
+};
+
+// Works out what each expiration / assignment / exercise row closes. Open legs come from stored trades and
+// from new rows earlier in the file, matched first-in first-out by symbol. Assignment and exercise rows are
+// paired with the stock fill they produced (same day, same underlying and share count), and a stock trade at
+// the strike is added when the export doesn't contain one. skipIndexes are rows already in the database.
+export const planSettlements = (
+  parsed: ParsedTrade[],
+  skipIndexes: Set<number>,
+  stored: LedgerTrade[]
+): SettlementPlanResult => {
+  const trades = parsed.map(trade => ({ ...trade }));
+  const plans: SettlementPlan[] = [];
+  const settlementSymbols = new Set(
+    trades.filter((t, i) => t.event && !skipIndexes.has(i)).map(t => t.symbol)
+  );
+  if (settlementSymbols.size === 0) return { trades, plans };
+
+  type Entry = { date: string; stored?: LedgerTrade; index?: number };
+  const entries: Entry[] = [
+    ...stored.filter(t => settlementSymbols.has(t.symbol)).map(t => ({ date: t.date, stored: t })),
+    ...trades
+      .map((t, index) => ({ date: t.date, index }))
+      // Rows with an unreadable date can't be ordered; staging blocks them
+      .filter(e => !skipIndexes.has(e.index) && !!e.date && settlementSymbols.has(trades[e.index].symbol)),
+  ];
+  entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const lotsBySymbol = new Map<string, Lot[]>();
+  const usedStockRows = new Set<number>();
+
+  for (const entry of entries) {
+    const trade = entry.stored || trades[entry.index!];
+    const lots = lotsBySymbol.get(trade.symbol) || [];
+    lotsBySymbol.set(trade.symbol, lots);
+    const quantity = Number(trade.quantity);
+    const fileTrade = entry.index !== undefined ? trades[entry.index] : undefined;
+
+    if (!fileTrade?.event) {
+      if (isOpening(trade.action)) {
+        lots.push({
+          leg: entry.stored ? { tradeId: entry.stored.id } : { importHash: fileTrade!.import_hash },
+          short: isShortSide(trade.action),
+          remaining: quantity,
+          stored: entry.stored,
+        });
+      } else {
+        // A closing buy closes shorts, a closing sell closes longs
+        consume(lots, quantity, trade.action.startsWith('BUY'));
+      }
+      continue;
+    }
+
+    // Assignment only happens to short options and exercise to long ones; expirations go either way.
+    const short = fileTrade.event === 'ASSIGNMENT' ? true : fileTrade.event === 'EXERCISE' ? false : undefined;
+    const taken = consume(lots, quantity, short);
+    const closedShort = short ?? (taken.length > 0 ? taken[0].lot.short : undefined);
+
+    if (closedShort !== undefined && !KNOWN_CLOSES.includes(fileTrade.action)) {
+      fileTrade.action = closedShort ? 'BUY_TO_CLOSE' : 'SELL_TO_CLOSE';
+    }
+    fileTrade.notes = fileTrade.notes || EVENT_NOTES[fileTrade.event];
+
+    const source = taken.find(t => t.lot.stored)?.lot.stored;
+    const plan: SettlementPlan = {
+      importHash: fileTrade.import_hash,
+      event: fileTrade.event,
+      symbol: fileTrade.symbol,
+      closes: taken.map(t => ({ ...t.lot.leg, quantity: t.quantity, fullyClosed: t.lot.remaining <= 0 })),
+      pairId: source?.pair_id || null,
+      strategyId: source?.strategy_id || null,
+      tagId: source?.tag_id || null,
+    };
+
+    // Futures options deliver futures, which the broker reports as ordinary fills
+    const option = parseInstrument(fileTrade.symbol);
+    if (fileTrade.event !== 'EXPIRATION' && option.assetClass === 'OPTION' && closedShort !== undefined) {
+      const shares = quantity * (fileTrade.multiplier || 100);
+      // Short put assigned or long call exercised buys shares; the other two sell them
+      const buysStock = (option.right === 'P') === closedShort;
+      const stockIndex = trades.findIndex((t, i) =>
+        !skipIndexes.has(i) && !usedStockRows.has(i) && !t.event &&
+        t.symbol === option.underlying && sameDay(t.date, fileTrade.date) &&
+        Number(t.quantity) === shares && t.action.startsWith(buysStock ? 'BUY' : 'SELL')
+      );
+
+      if (stockIndex >= 0) {
+        usedStockRows.add(stockIndex);
+        trades[stockIndex].notes = trades[stockIndex].notes || `${EVENT_NOTES[fileTrade.event]} from ${fileTrade.symbol.replace(/\s+/g, ' ')}`;
+        plan.stockImportHash = trades[stockIndex].import_hash;
+      } else {
+        const stock: ParsedTrade = {
+          symbol: option.underlying,
+          date: fileTrade.date,
+          action: buysStock ? 'BUY_TO_OPEN' : 'SELL_TO_OPEN',
+          quantity: shares,
+          price: option.strike!,
+          fees: 0,
+          amount: (buysStock ? -1 : 1) * option.strike! * shares,
+          asset_type: 'STOCK',
+          multiplier: 1,
+          order_id: null,
+          notes: `${EVENT_NOTES[fileTrade.event]} from ${fileTrade.symbol.replace(/\s+/g, ' ')}`,
+          import_hash: generateFingerprint([fileTrade.import_hash, 'stock']),
+        };
+        usedStockRows.add(trades.push(stock) - 1);
+        plan.stockImportHash = stock.import_hash;
+      }
+    }
+
+    plans.push(plan);
+  }
+
+  return { trades, plans };
+};
+
+// Keeps the `in (...)` filter well under PostgREST's URL length limit
+const HASH_LOOKUP_CHUNK = 200;
+
+// Links imported settlements to their opening legs once everything is saved: all legs share a pair_id
+// (the opening leg's, when it had one) and inherit its strategy and tag. Fully closed opening legs get
+// their mark cleared so they stop counting as open. Returns the number of settlements linked.
+export const applySettlementPlans = async (plans: SettlementPlan[]): Promise<number> => {
+  if (plans.length === 0) return 0;
+
+  const hashes = Array.from(new Set(plans.flatMap(plan => [
+    plan.importHash,
+    ...(plan.stockImportHash ? [plan.stockImportHash] : []),
+    ...plan.closes.flatMap(leg => leg.importHash ? [leg.importHash] : []),
+  ])));
+
+  const idsByHash = new Map<string, string>();
+  for (let i = 0; i < hashes.length; i += HASH_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('trades')
+      .select('id, import_hash')
+      .in('import_hash', hashes.slice(i, i + HASH_LOOKUP_CHUNK));
+    if (error) throw error;
+    data?.forEach(row => idsByHash.set(row.import_hash, row.id));
+  }
+
+  let linked = 0;
+  for (const plan of plans) {
+    const settlementId = idsByHash.get(plan.importHash);
+    // The row was excluded during review or failed to save
+    if (!settlementId) continue;
+
+    const legIds = plan.closes
+      .map(leg => leg.tradeId || (leg.importHash ? idsByHash.get(leg.importHash) : undefined))
+      .filter((id): id is string => !!id);
+    const stockId = plan.stockImportHash ? idsByHash.get(plan.stockImportHash) : undefined;
+    const ids = [settlementId, ...legIds, ...(stockId ? [stockId] : [])];
+
+    const { error } = await supabase
+      .from('trades')
+      .update({
+        pair_id: plan.pairId || crypto.randomUUID(),
+        ...(plan.strategyId ? { strategy_id: plan.strategyId } : {}),
+        ...(plan.tagId ? { tag_id: plan.tagId } : {}),
+      })
+      .in('id', ids);
+    if (error) throw error;
+
+    const closedIds = plan.closes
+      .filter(leg => leg.fullyClosed)
+      .map(leg => leg.tradeId || (leg.importHash ? idsByHash.get(leg.importHash) : undefined))
+      .filter((id): id is string => !!id);
+    if (closedIds.length > 0) {
+      const { error: markError } = await supabase.from('trades').update({ mark_price: null }).in('id', closedIds);
+      if (markError) throw markError;
+    }
+
+    linked++;
+  }
+
+  return linked;
+};
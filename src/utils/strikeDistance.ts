@@ -0,0 +1,65 @@
+import { isOptionInstrument, parseInstrument, priceTicker } from '@/utils/instrument';
+import type { LedgerFill, PositionLedger } from '@/utils/positionLedger';
+import type { UnderlyingPrice } from '@/utils/underlyingPrices';
+
+export type Moneyness = 'ITM' | 'ATM' | 'OTM';
+
+export interface ShortPutDistance {
+  tradeId: string;
+  symbol: string;
+  underlying: string;
+  strike: number;
+  price: number;
+  priceDate: string;
+  // (price - strike) / price in percent: how far the underlying can fall before the put is in the money.
+  // Negative once it is.
+  distancePct: number;
+  // Strike over price
+  moneyness: number;
+  status: Moneyness;
+}
+
+// Less than this percent above the strike counts as at the money; any amount below it is in the money
+export const ATM_BAND_PCT = 1;
+
+// Distance to strike of every open short put whose underlying has a stored price
+export const shortPutDistances = (
+  trades: LedgerFill[],
+  ledger: PositionLedger,
+  prices: Map<string, UnderlyingPrice>
+): Map<string, ShortPutDistance> => {
+  const sideByTrade = new Map(ledger.lots.map(lot => [lot.tradeId, lot.side]));
+  const distances = new Map<string, ShortPutDistance>();
+
+  trades.forEach(trade => {
+    if ((ledger.openQuantityByTrade.get(trade.id) || 0) <= 0 || sideByTrade.get(trade.id) !== 'SHORT') return;
+    const instrument = parseInstrument(trade.symbol);
+    if (!isOptionInstrument(instrument) || instrument.right !== 'P' || !instrument.strike) return;
+
+    const underlying = priceTicker(instrument.underlying);
+    const quote = prices.get(underlying);
+    if (!quote) return;
+
+    const distancePct = ((quote.price - instrument.strike) / quote.price) * 100;
+    distances.set(trade.id, {
+      tradeId: trade.id,
+      symbol: trade.symbol,
+      underlying,
+      strike: instrument.strike,
+      price: quote.price,
+      priceDate: quote.date,
+      distancePct,
+      moneyness: instrument.strike / quote.price,
+      status: distancePct < 0 ? 'ITM' : distancePct <= ATM_BAND_PCT ? 'ATM' : 'OTM',
+    });
+  });
+
+  return distances;
+};
+
+// The short put of a position closest to (or deepest in) the money
+export const nearestShortPut = (trades: { id: string }[], distances: Map<string, ShortPutDistance>): ShortPutDistance | undefined =>
+  trades
+    .map(trade => distances.get(trade.id))
+    .filter((distance): distance is ShortPutDistance => !!distance)
+    .sort((a, b) => a.distancePct - b.distancePct)[0];
@@ -0,0 +1,143 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { isOptionInstrument, parseInstrument } from '@/utils/instrument';
+import type { PositionGroup } from '@/utils/pnlEngine';
+
+// Where a strategy's P&L comes from: each closed position group as one outcome, bucketed by how it was entered
+// and held.
+
+export interface TradeOutcome {
+  id: string;
+  openDate: string;
+  closeDate: string;
+  // Product root of the first leg: 'SPY', 'ES'
+  underlying: string;
+  // Calendar days from entry to the nearest option expiry in the group; null without options
+  dte: number | null;
+  daysInTrade: number;
+  credit: number;
+  pnl: number;
+}
+
+export interface DistributionBucket {
+  label: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  pnl: number;
+  averagePnl: number;
+  // Percent of winners over winners and losers
+  winRate: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+interface BucketRange {
+  label: string;
+  // Inclusive bounds
+  min: number;
+  max: number;
+}
+
+export const DTE_BUCKETS: BucketRange[] = [
+  { label: '0 DTE', min: 0, max: 0 },
+  { label: '1-7', min: 1, max: 7 },
+  { label: '8-21', min: 8, max: 21 },
+  { label: '22-45', min: 22, max: 45 },
+  { label: '46-90', min: 46, max: 90 },
+  { label: '90+', min: 91, max: Infinity },
+];
+
+export const DAYS_IN_TRADE_BUCKETS: BucketRange[] = [
+  { label: '1 day', min: 0, max: 1 },
+  { label: '2-3', min: 2, max: 3 },
+  { label: '4-7', min: 4, max: 7 },
+  { label: '8-14', min: 8, max: 14 },
+  { label: '15-30', min: 15, max: 30 },
+  { label: '31+', min: 31, max: Infinity },
+];
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const tradeOutcomes = (groups: PositionGroup[]): TradeOutcome[] =>
+  groups
+    .filter(group => !group.isOpen && group.closeDate)
+    .map(group => {
+      const instruments = group.trades.map(trade => parseInstrument(trade.symbol));
+      const expiries = instruments
+        .filter(instrument => isOptionInstrument(instrument) && instrument.expiry)
+        .map(instrument => differenceInCalendarDays(parseISO(instrument.expiry as string), new Date(group.openDate)))
+        .filter(dte => dte >= 0);
+
+      return {
+        id: group.id,
+        openDate: group.openDate,
+        closeDate: group.closeDate as string,
+        underlying: instruments[0]?.root || group.trades[0]?.symbol || '',
+        dte: expiries.length > 0 ? Math.min(...expiries) : null,
+        daysInTrade: group.daysInTrade,
+        credit: group.credit,
+        pnl: group.totalPnl,
+      };
+    });
+
+const summarizeBucket = (label: string, outcomes: TradeOutcome[]): DistributionBucket => {
+  const wins = outcomes.filter(outcome => outcome.pnl > 0).length;
+  const losses = outcomes.filter(outcome => outcome.pnl < 0).length;
+  const pnl = outcomes.reduce((sum, outcome) => sum + outcome.pnl, 0);
+  return {
+    label,
+    trades: outcomes.length,
+    wins,
+    losses,
+    pnl,
+    averagePnl: outcomes.length > 0 ? pnl / outcomes.length : 0,
+    winRate: wins + losses > 0 ? (wins / (wins + losses)) * 100 : 0,
+  };
+};
+
+// Outcomes in fixed ranges, in range order; empty ranges are kept so charts line up across strategies
+const bucketByRange = (outcomes: TradeOutcome[], ranges: BucketRange[], valueOf: (outcome: TradeOutcome) => number | null) =>
+  ranges.map(range => summarizeBucket(range.label, outcomes.filter(outcome => {
+    const value = valueOf(outcome);
+    return value !== null && value >= range.min && value <= range.max;
+  })));
+
+export const bucketByDte = (outcomes: TradeOutcome[]) => bucketByRange(outcomes, DTE_BUCKETS, outcome => outcome.dte);
+
+export const bucketByDaysInTrade = (outcomes: TradeOutcome[]) =>
+  bucketByRange(outcomes, DAYS_IN_TRADE_BUCKETS, outcome => outcome.daysInTrade);
+
+// Monday to Friday, plus the weekend only when something was entered then
+export const bucketByWeekday = (outcomes: TradeOutcome[]) => {
+  const byDay = WEEKDAYS.map(name => summarizeBucket(name, outcomes.filter(outcome => format(new Date(outcome.openDate), 'EEE') === name)));
+  return byDay.filter((bucket, index) => index < 5 || bucket.trades > 0);
+};
+
+// Biggest P&L first, losers last
+export const bucketByUnderlying = (outcomes: TradeOutcome[]) => {
+  const byUnderlying = new Map<string, TradeOutcome[]>();
+  outcomes.forEach(outcome => byUnderlying.set(outcome.underlying, [...(byUnderlying.get(outcome.underlying) || []), outcome]));
+  return Array.from(byUnderlying.entries())
+    .map(([underlying, group]) => summarizeBucket(underlying, group))
+    .sort((a, b) => b.pnl - a.pnl);
+};
+
+// Equal-width bins between the smallest and largest P&L
+export const pnlHistogram = (outcomes: TradeOutcome[], binCount = 20): HistogramBin[] => {
+  if (outcomes.length === 0) return [];
+  const values = outcomes.map(outcome => outcome.pnl);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return [{ from: min, to: max, count: values.length }];
+
+  const width = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, index) => ({ from: min + index * width, to: min + (index + 1) * width, count: 0 }));
+  values.forEach(value => {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  });
+  return bins;
+};
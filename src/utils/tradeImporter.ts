@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ParsedTrade } from '@/utils/csvParser';
+
+// Rows per request. Large enough that a multi-year export is a handful of round trips,
+// small enough to stay well under PostgREST's request body limits.
+export const IMPORT_CHUNK_SIZE = 500;
+
+export interface FailedChunk {
+  index: number;
+  trades: ParsedTrade[];
+  message: string;
+}
+
+export interface BulkImportResult {
+  inserted: number;
+  duplicates: number;
+  failed: FailedChunk[];
+}
+
+// Only real columns go to the database; parse-time helpers like legacy_hash stay client-side.
+const toTradeRow = (trade: ParsedTrade, userId: string) => ({
+  user_id: userId,
+  symbol: trade.symbol,
+  date: trade.date,
+  action: trade.action,
+  quantity: trade.quantity,
+  price: trade.price,
+  fees: trade.fees,
+  amount: trade.amount,
+  asset_type: trade.asset_type,
+  multiplier: trade.multiplier,
+  import_hash: trade.import_hash,
+  order_id: trade.order_id ?? null,
+  notes: trade.notes ?? null
+});
+
+// Upserts trades in chunks, relying on the unique (user_id, import_hash) constraint to skip rows
+// that already exist. Only newly inserted rows come back from the upsert, so the difference is the duplicate count.
+// A failing chunk doesn't stop the rest; it is returned so the caller can retry just those rows.
+export const bulkInsertTrades = async (
+  trades: ParsedTrade[],
+  userId: string,
+  onProgress?: (processed: number, total: number) => void
+): Promise<BulkImportResult> => {
+  const result: BulkImportResult = { inserted: 0, duplicates: 0, failed: [] };
+
+  for (let start = 0; start < trades.length; start += IMPORT_CHUNK_SIZE) {
+    const chunk = trades.slice(start, start + IMPORT_CHUNK_SIZE);
+    const rows = chunk.map(trade => toTradeRow(trade, userId));
+
+    const { data, error } = await supabase
+      .from('trades')
+      .upsert(rows, { onConflict: 'user_id,import_hash', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      console.error(`❌ Import chunk ${start / IMPORT_CHUNK_SIZE + 1} failed:`, error);
+      result.failed.push({ index: start / IMPORT_CHUNK_SIZE, trades: chunk, message: error.message });
+    } else {
+      const insertedCount = data?.length || 0;
+      result.inserted += insertedCount;
+      result.duplicates += chunk.length - insertedCount;
+    }
+
+    onProgress?.(Math.min(start + chunk.length, trades.length), trades.length);
+  }
+
+  return result;
+};
+
+// Re-sends only the rows from previously failed chunks.
+export const retryFailedChunks = async (
+  failed: FailedChunk[],
+  userId: string,
+  onProgress?: (processed: number, total: number) => void
+): Promise<BulkImportResult> => {
+  const result: BulkImportResult = { inserted: 0, duplicates: 0, failed: [] };
+  const total = failed.reduce((sum, chunk) => sum + chunk.trades.length, 0);
+  let processed = 0;
+
+  for (const chunk of failed) {
+    const retry = await bulkInsertTrades(chunk.trades, userId);
+    result.inserted += retry.inserted;
+    result.duplicates += retry.duplicates;
+    result.failed.push(...retry.failed.map(f => ({ ...f, index: chunk.index })));
+    processed += chunk.trades.length;
+    onProgress?.(processed, total);
+  }
+
+  return result;
+};
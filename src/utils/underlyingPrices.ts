@@ -0,0 +1,167 @@
+import Papa from 'papaparse';
+import { format, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { parseBrokerDate, sanitizeCurrency } from '@/utils/brokers/helpers';
+import { fetchContractSpecs } from '@/utils/contractSpecs';
+import { parseFuturesRoot, parseInstrument, priceTicker } from '@/utils/instrument';
+import type { LedgerFill, PositionLedger } from '@/utils/positionLedger';
+
+// Daily closes of what open positions are on, kept in benchmark_prices next to the benchmarks. Synced from Yahoo
+// through fetch-benchmarks, with manual entry and CSV upload for anything Yahoo doesn't cover.
+
+export interface UnderlyingPrice {
+  price: number;
+  // yyyy-MM-dd of the close
+  date: string;
+}
+
+export interface ParsedUnderlyingPrice extends UnderlyingPrice {
+  ticker: string;
+}
+
+// Cash-settled indices trade under a caret on Yahoo
+const YAHOO_INDEX_SYMBOLS: Record<string, string> = {
+  SPX: '^SPX',
+  XSP: '^XSP',
+  NDX: '^NDX',
+  RUT: '^RUT',
+  VIX: '^VIX',
+};
+
+// Yahoo's suffix for each exchange in the contract specs: '/ESZ6' is 'ESZ26.CME'
+const YAHOO_EXCHANGE_SUFFIXES: Record<string, string> = {
+  CME: 'CME',
+  CBOT: 'CBT',
+  NYMEX: 'NYM',
+  COMEX: 'CMX',
+};
+
+// Enough history to cover a long weekend and a missed sync or two
+const SYNC_LOOKBACK_DAYS = 10;
+
+const TICKER_HEADERS = ['Ticker', 'Symbol', 'Underlying'];
+const DATE_HEADERS = ['Date', 'Time', 'As Of Date'];
+const PRICE_HEADERS = ['Close', 'Price', 'Last', 'Adj Close', 'Mark'];
+const DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'MM/dd/yy', 'yyyy-MM-dd HH:mm:ss', "yyyy-MM-dd'T'HH:mm:ssXXX"];
+
+const findHeader = (headers: string[], candidates: string[]) =>
+  candidates.map(name => headers.find(h => h.trim().toLowerCase() === name.toLowerCase())).find(Boolean);
+
+// Price tickers of every open leg: the stock or futures contract itself, or what an option is on
+export const openUnderlyings = (trades: LedgerFill[], ledger: PositionLedger): string[] => {
+  const underlyings = new Set<string>();
+  trades.forEach(trade => {
+    if ((ledger.openQuantityByTrade.get(trade.id) || 0) <= 0) return;
+    underlyings.add(priceTicker(parseInstrument(trade.symbol).underlying));
+  });
+  return Array.from(underlyings).sort();
+};
+
+// Latest stored close of each ticker in benchmark_prices. Tickers without any stored price are left out.
+export const fetchUnderlyingPrices = async (tickers: string[]): Promise<Map<string, UnderlyingPrice>> => {
+  const prices = new Map<string, UnderlyingPrice>();
+  const results = await Promise.all(tickers.map(ticker => supabase
+    .from('benchmark_prices')
+    .select('ticker, date, price')
+    .eq('ticker', ticker)
+    .order('date', { ascending: false })
+    .limit(1)
+  ));
+
+  results.forEach(({ data, error }) => {
+    if (error) throw error;
+    const latest = data?.[0];
+    if (latest && Number(latest.price) > 0) prices.set(latest.ticker, { price: Number(latest.price), date: latest.date });
+  });
+  return prices;
+};
+
+export const priceValues = (prices: Map<string, UnderlyingPrice> | undefined): Map<string, number> =>
+  new Map(Array.from(prices?.entries() || []).map(([ticker, { price }]) => [ticker, price]));
+
+// Yahoo symbol of a futures contract, or null for roots without a known exchange. A one-digit year is the first
+// matching year from last year on.
+const yahooFuturesSymbol = (ticker: string, exchanges: Map<string, string>): string | null => {
+  const root = parseFuturesRoot(ticker);
+  const suffix = root ? YAHOO_EXCHANGE_SUFFIXES[exchanges.get(root) || ''] : undefined;
+  if (!root || !suffix) return null;
+
+  const [month, year] = [ticker.charAt(root.length + 1), ticker.slice(root.length + 2)];
+  const thisYear = new Date().getFullYear();
+  let fullYear = year.length === 2 ? 2000 + Number(year) : Math.floor(thisYear / 10) * 10 + Number(year);
+  if (fullYear < thisYear - 1) fullYear += 10;
+  return `${root}${month}${String(fullYear).slice(2)}.${suffix}`;
+};
+
+// Pulls recent closes for the tickers through fetch-benchmarks. Futures whose exchange isn't in the contract specs
+// are skipped and left to manual entry.
+export const syncUnderlyingPrices = async (tickers: string[]): Promise<{ message: string; skipped: string[] }> => {
+  const specs = await fetchContractSpecs();
+  const exchanges = new Map(Array.from(specs.values()).map(spec => [spec.root, spec.exchange]));
+  const symbols: Record<string, string> = {};
+  const skipped: string[] = [];
+
+  tickers.forEach(ticker => {
+    if (parseFuturesRoot(ticker)) {
+      const symbol = yahooFuturesSymbol(ticker, exchanges);
+      if (symbol) symbols[ticker] = symbol;
+      else skipped.push(ticker);
+    } else if (YAHOO_INDEX_SYMBOLS[ticker]) {
+      symbols[ticker] = YAHOO_INDEX_SYMBOLS[ticker];
+    } else if (ticker.includes('.')) {
+      // BRK.B is BRK-B on Yahoo
+      symbols[ticker] = ticker.replace('.', '-');
+    }
+  });
+
+  const syncable = tickers.filter(ticker => !skipped.includes(ticker));
+  if (syncable.length === 0) return { message: 'Nothing to sync.', skipped };
+
+  const { data, error } = await supabase.functions.invoke('fetch-benchmarks', {
+    body: { tickers: syncable, startDate: format(subDays(new Date(), SYNC_LOOKBACK_DAYS), 'yyyy-MM-dd'), symbols }
+  });
+  if (error) throw error;
+  return { message: data?.message || 'Prices synced.', skipped };
+};
+
+// Manual entries and CSV rows overwrite whatever close is stored for that ticker and day
+export const saveUnderlyingPrices = async (rows: ParsedUnderlyingPrice[], userId: string): Promise<number> => {
+  if (rows.length === 0) return 0;
+  const { error } = await supabase
+    .from('benchmark_prices')
+    .upsert(rows.map(row => ({ user_id: userId, ticker: row.ticker.toUpperCase(), date: row.date, price: row.price })), { onConflict: 'user_id, ticker, date' });
+  if (error) throw error;
+  return rows.length;
+};
+
+// Reads a ticker,date,close CSV. Rows without a usable ticker, date or positive price are dropped.
+export const parseUnderlyingPricesCSV = (file: File): Promise<ParsedUnderlyingPrice[]> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.trim(),
+      complete: (results) => {
+        const headers = results.meta.fields || [];
+        const tickerHeader = findHeader(headers, TICKER_HEADERS);
+        const dateHeader = findHeader(headers, DATE_HEADERS);
+        const priceHeader = findHeader(headers, PRICE_HEADERS);
+        if (!tickerHeader || !dateHeader || !priceHeader) {
+          reject(new Error(`Unrecognized price file. Expected ticker (${TICKER_HEADERS.join(', ')}), date (${DATE_HEADERS.join(', ')}) and price (${PRICE_HEADERS.join(', ')}) columns.`));
+          return;
+        }
+
+        const rows: ParsedUnderlyingPrice[] = [];
+        (results.data as Record<string, string>[]).forEach(row => {
+          const ticker = row[tickerHeader]?.trim().toUpperCase();
+          const iso = parseBrokerDate(row[dateHeader], DATE_FORMATS);
+          const price = sanitizeCurrency(row[priceHeader] || '');
+          if (!ticker || !iso || !(price > 0)) return;
+          rows.push({ ticker, date: format(new Date(iso), 'yyyy-MM-dd'), price });
+        });
+        resolve(rows);
+      },
+      error: (error) => reject(error),
+    });
+  });
+};
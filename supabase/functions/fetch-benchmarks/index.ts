@@ -37,7 +37,8 @@ serve(async (req) => {
       return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
-    const { tickers, startDate } = await req.json();
+    // symbols optionally maps a stored ticker to the Yahoo symbol to fetch it by: { SPX: '^SPX', '/ESZ6': 'ESZ26.CME' }
+    const { tickers, startDate, symbols } = await req.json();
     const userId = user.id;
     if (!tickers || !Array.isArray(tickers) || tickers.length === 0 || !startDate) {
       return new Response(JSON.stringify({ error: 'Missing required parameters' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
@@ -57,8 +58,9 @@ serve(async (req) => {
 
     for (const ticker of tickers) {
       try {
-        console.log(`Fetching data for ${ticker}...`);
-        const url = `https://query2.finance.yahoo.com/v8/finance/chart/${ticker}?period1=${period1}&period2=${period2}&interval=1d&includeAdjustedClose=true`;
+        const yahooSymbol = symbols?.[ticker] || ticker;
+        console.log(`Fetching data for ${ticker} (${yahooSymbol})...`);
+        const url = `https://query2.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(yahooSymbol)}?period1=${period1}&period2=${period2}&interval=1d&includeAdjustedClose=true`;
         const response = await fetch(url, { headers: { "User-Agent": userAgent } });
 
         if (!response.ok) {
@@ -67,18 +69,19 @@ serve(async (req) => {
 
         const json = await response.json();
         const result = json?.chart?.result?.[0];
-        if (!result || !result.timestamp || !result.indicators?.adjclose?.[0]?.adjclose) {
+        // Indices and futures come without adjusted closes; their plain closes are what we want anyway
+        const closePrices = result?.indicators?.adjclose?.[0]?.adjclose || result?.indicators?.quote?.[0]?.close;
+        if (!result || !result.timestamp || !closePrices) {
           console.warn(`No valid data in Yahoo API response for ${ticker}`);
           continue;
         }
 
         const timestamps = result.timestamp;
-        const adjClosePrices = result.indicators.adjclose[0].adjclose;
 
         const historicalData = timestamps
           .map((ts: number, i: number) => ({
             date: timestampToDate(ts),
-            price: adjClosePrices[i],
+            price: closePrices[i],
           }))
           .filter((item: { date: string; price: number | null }) => item.price !== null && item.price > 0);
         